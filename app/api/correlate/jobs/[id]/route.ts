@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { CorrelationJobs } from '@/lib/correlation-jobs';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+interface JobRouteContext {
+  params: { id: string };
+}
+
+// Status and progress of a job, with its results once it has completed
+export async function GET(_request: NextRequest, { params }: JobRouteContext) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    // Jobs orphaned by a restart show up as failed instead of running forever
+    const { error: reapError } = await CorrelationJobs.reapStale(supabaseAdmin);
+    if (reapError) {
+      console.error('Failed to expire stale correlation jobs:', reapError);
+    }
+
+    const { data: job, error } = await supabaseAdmin
+      .from('correlation_jobs')
+      .select('*')
+      .eq('id', params.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json({ error: 'Failed to fetch correlation job' }, { status: 500 });
+    }
+    if (!job) {
+      return NextResponse.json({ error: 'Correlation job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Correlation job API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Cancel a pending or running job
+export async function DELETE(_request: NextRequest, { params }: JobRouteContext) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const { job, error } = await CorrelationJobs.cancel(supabaseAdmin, params.id);
+    if (error) {
+      console.error('Failed to cancel correlation job:', error);
+      return NextResponse.json({ error: 'Failed to cancel correlation job' }, { status: 500 });
+    }
+    if (!job) {
+      return NextResponse.json({ error: 'Correlation job not found or already finished' }, { status: 409 });
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error('Correlation job API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
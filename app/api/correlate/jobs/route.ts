@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { parseCorrelationRequest } from '@/lib/correlation-request';
+import { CorrelationJobs, JOB_SUMMARY_COLUMNS } from '@/lib/correlation-jobs';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+const DEFAULT_JOB_LIMIT = 20;
+const MAX_JOB_LIMIT = 100;
+
+// Recent correlation jobs, newest first, without their results
+export async function GET(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const requested = parseInt(request.nextUrl.searchParams.get('limit') || '', 10);
+    const limit = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_JOB_LIMIT) : DEFAULT_JOB_LIMIT;
+
+    // Jobs orphaned by a restart show up as failed instead of running forever
+    const { error: reapError } = await CorrelationJobs.reapStale(supabaseAdmin);
+    if (reapError) {
+      console.error('Failed to expire stale correlation jobs:', reapError);
+    }
+
+    const { data: jobs, error } = await supabaseAdmin
+      .from('correlation_jobs')
+      .select(JOB_SUMMARY_COLUMNS)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json({ error: 'Failed to fetch correlation jobs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ jobs: jobs || [] });
+  } catch (error) {
+    console.error('Correlation jobs API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Submit a correlation run as a job. Takes the same body as POST
+// /api/correlate and answers straight away; poll GET
+// /api/correlate/jobs/{id} or subscribe to correlation_jobs for the outcome.
+export async function POST(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const parsed = parseCorrelationRequest(body);
+    if (!parsed.ok) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { job, error } = await CorrelationJobs.submit(supabaseAdmin, body, parsed.request);
+    if (error || !job) {
+      console.error('Failed to submit correlation job:', error);
+      return NextResponse.json({ error: 'Failed to submit correlation job' }, { status: 500 });
+    }
+
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    console.error('Correlation jobs API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
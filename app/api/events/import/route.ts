@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { CorrelationParams } from '@/lib/correlation-engine';
+import { INGEST_CORRELATION_DEFAULTS, parseCorrelationRequest } from '@/lib/correlation-request';
+import { MAX_TNS_IMPORT_ROWS, TNS_IMPORT_FORMATS, TnsImport, TnsImportFormat } from '@/lib/tns-import';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+// Import a TNS search export, posted as the raw CSV or JSON body. The
+// format comes from ?format= or the Content-Type. New events are correlated
+// against the catalog unless ?correlate=false.
+export async function POST(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json(
+      { error: 'Database not configured - demo mode only' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const contentType = request.headers.get('content-type') || '';
+    const format = searchParams.get('format') || (contentType.includes('json') ? 'json' : 'csv');
+    if (!TNS_IMPORT_FORMATS.includes(format as TnsImportFormat)) {
+      return NextResponse.json(
+        { error: `Unsupported format "${format}"; use ${TNS_IMPORT_FORMATS.join(' or ')}` },
+        { status: 400 }
+      );
+    }
+
+    const text = await request.text();
+    if (!text.trim()) {
+      return NextResponse.json({ error: 'Request body must be a TNS CSV or JSON export' }, { status: 400 });
+    }
+
+    let rows: Array<Record<string, unknown>>;
+    try {
+      rows = TnsImport.readRows(text, format as TnsImportFormat);
+    } catch (error) {
+      return NextResponse.json({ error: (error as Error).message }, { status: 400 });
+    }
+    if (rows.length === 0) {
+      return NextResponse.json({ error: 'No rows to import' }, { status: 400 });
+    }
+    if (rows.length > MAX_TNS_IMPORT_ROWS) {
+      return NextResponse.json(
+        { error: `Too many rows (${rows.length}); import at most ${MAX_TNS_IMPORT_ROWS} at a time` },
+        { status: 400 }
+      );
+    }
+
+    let correlationParams: CorrelationParams | null = null;
+    if (searchParams.get('correlate') !== 'false') {
+      const parsed = parseCorrelationRequest({}, INGEST_CORRELATION_DEFAULTS);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 500 });
+      }
+      correlationParams = parsed.request.params;
+    }
+
+    const { result, error } = await TnsImport.import(supabaseAdmin, rows, correlationParams);
+    if (error || !result) {
+      console.error('Failed to import TNS rows:', error);
+      return NextResponse.json({ error: 'Failed to import events' }, { status: 500 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Event import API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
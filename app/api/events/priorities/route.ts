@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { PriorityStore } from '@/lib/priority-store';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+// Recompute follow-up priorities that have gone stale. Call this on a
+// schedule shorter than PRIORITY_MAX_AGE_MS (e.g. every 15 minutes) so
+// GET /api/events?sort=priority orders by current priorities.
+export async function POST() {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const { updated, error } = await PriorityStore.refreshStale(supabaseAdmin);
+    if (error) {
+      console.error('Failed to refresh follow-up priorities:', error);
+      return NextResponse.json({ error: 'Failed to refresh follow-up priorities', updated }, { status: 500 });
+    }
+
+    return NextResponse.json({ updated });
+  } catch (error) {
+    console.error('Priority refresh API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
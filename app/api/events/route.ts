@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/lib/database.types';
+import { CorrelationParams } from '@/lib/correlation-engine';
+import { INGEST_CORRELATION_DEFAULTS, parseCorrelationRequest } from '@/lib/correlation-request';
+import { EventIngest } from '@/lib/event-ingest';
+import { fetchAllPages } from '@/lib/paged-query';
+import { hasSkyRegion, parseSkyRegion, toSkyRegionArgs } from '@/lib/sky-region';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -20,14 +25,30 @@ export async function GET(request: NextRequest) {
     const endTime = searchParams.get('end_time');
     const minConfidence = parseFloat(searchParams.get('min_confidence') || '0');
     const maxResults = parseInt(searchParams.get('max_results') || '1000');
+    // Excludes events with |Galactic latitude| below this many degrees
+    const minAbsGalLat = parseFloat(searchParams.get('min_abs_gal_lat') || '0');
+    // 'priority' lists the highest follow-up priority first
+    const sort = searchParams.get('sort');
+
+    // Cone (cone_ra, cone_dec, cone_radius) and box (ra_min, ra_max,
+    // dec_min, dec_max) searches; ra_min above ra_max wraps through RA 0
+    const skyRegion = parseSkyRegion(searchParams);
+    if (!skyRegion.ok) {
+      return NextResponse.json({ error: skyRegion.error }, { status: 400 });
+    }
 
     // Try to fetch from database if Supabase is configured
     if (supabaseAdmin) {
       try {
-        // Build query
-        let query = supabaseAdmin
-          .from('astro_events')
-          .select('*')
+        // Build query; sky regions are searched by the database with PostGIS
+        let query = hasSkyRegion(skyRegion.region)
+          ? supabaseAdmin.rpc('search_events_in_sky_region', toSkyRegionArgs(skyRegion.region))
+          : supabaseAdmin.from('astro_events').select('*');
+
+        if (sort === 'priority') {
+          query = query.order('follow_up_priority', { ascending: false });
+        }
+        query = query
           .order('created_at', { ascending: false })
           .limit(maxResults);
 
@@ -48,6 +69,10 @@ export async function GET(request: NextRequest) {
           query = query.lte('time_utc', endTime);
         }
 
+        if (minAbsGalLat > 0) {
+          query = query.or(`gal_b.gte.${minAbsGalLat},gal_b.lte.${-minAbsGalLat}`);
+        }
+
         const { data: events, error } = await query;
 
         if (error) {
@@ -56,10 +81,12 @@ export async function GET(request: NextRequest) {
         }
 
         if (events && events.length > 0) {
-          // Get statistics
-          const { data: stats } = await supabaseAdmin
+          // Get statistics over the whole catalog
+          const { rows: stats } = await fetchAllPages((from, to) => supabaseAdmin
             .from('astro_events')
-            .select('event_type, source');
+            .select('event_type, source')
+            .order('id', { ascending: true })
+            .range(from, to));
 
           const eventStats = stats?.reduce((acc: any, event: any) => {
             acc.by_type[event.event_type] = (acc.by_type[event.event_type] || 0) + 1;
@@ -77,6 +104,16 @@ export async function GET(request: NextRequest) {
             }
           });
         }
+
+        // The demo events are not in the requested region, so a region
+        // search with no matches answers with none
+        if (hasSkyRegion(skyRegion.region) || minAbsGalLat > 0) {
+          return NextResponse.json({
+            events: [],
+            total: 0,
+            stats: { total_events: 0, by_type: {}, by_source: {}, confidence_avg: 0 }
+          });
+        }
       } catch (dbError) {
         // This catch block handles errors from the database query
         // or if we manually throw to force a fallback.
@@ -159,41 +196,28 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     
-    // Handle both single event and array of events
-    const events = Array.isArray(body) ? body : [body];
-
-    // Validate required fields for each event
-    for (const event of events) {
-      const { event_id, source, event_type, ra, dec, time_utc } = event;
-      if (!event_id || !source || !event_type || ra === undefined || dec === undefined || !time_utc) {
-        return NextResponse.json(
-          { error: 'Missing required fields: event_id, source, event_type, ra, dec, time_utc' },
-          { status: 400 }
-        );
+    // Accept a single event, an array of events, or { events, correlation }
+    const isEnvelope = !Array.isArray(body) && Array.isArray(body?.events);
+    const events = isEnvelope ? body.events : Array.isArray(body) ? body : [body];
+
+    // New events are correlated against the catalog unless correlation: false
+    const correlationOptions = isEnvelope ? body.correlation : undefined;
+    let correlationParams: CorrelationParams | null = null;
+    if (correlationOptions !== false) {
+      const parsed = parseCorrelationRequest(correlationOptions || {}, INGEST_CORRELATION_DEFAULTS);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
       }
+      correlationParams = parsed.request.params;
     }
 
-    // Insert events
-    const eventsToInsert = events.map((event: any) => ({
-      event_id: event.event_id,
-      source: event.source,
-      event_type: event.event_type,
-      ra: event.ra,
-      dec: event.dec,
-      time_utc: event.time_utc,
-      metadata: event.metadata || {},
-      confidence_score: event.confidence_score || 0,
-      magnitude: event.magnitude,
-      error_radius_deg: event.error_radius_deg,
-      follow_up_priority: event.follow_up_priority || 0,
-    }));
-
-    const { data: insertedEvents, error } = await supabaseAdmin
-      .from('astro_events')
-      .insert(eventsToInsert as any)
-      .select();
-
-    if (error) {
+    const validation = EventIngest.validate(events);
+    if (!validation.ok) {
+      return NextResponse.json({ error: validation.error }, { status: 400 });
+    }
+
+    const { result, error } = await EventIngest.ingest(supabaseAdmin, events, validation.times, correlationParams);
+    if (error || !result) {
       console.error('Insert error:', error);
       return NextResponse.json(
         { error: 'Failed to create events' },
@@ -201,10 +225,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({ 
-      events: insertedEvents,
-      count: insertedEvents?.length || 0 
-    }, { status: 201 });
+    return NextResponse.json(result, { status: 201 });
 
   } catch (error) {
     console.error('API error:', error);
@@ -213,4 +234,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
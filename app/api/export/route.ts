@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/lib/database.types';
+import { AstroTime } from '@/lib/astro-time';
+import { SkyCoordinates } from '@/lib/coordinates';
+import { fetchAllPages } from '@/lib/paged-query';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -60,31 +63,35 @@ export async function POST(request: NextRequest) {
       userId 
     } = body;
 
-    // Build events query with filters
-    let eventsQuery = supabaseAdmin
-      .from('astro_events')
-      .select('*')
-      .eq('status', 'active')
-      .order('time_utc', { ascending: false });
-
-    // Apply filters
-    if (filter.eventTypes?.length > 0) {
-      eventsQuery = eventsQuery.in('event_type', filter.eventTypes);
-    }
-    if (filter.sources?.length > 0) {
-      eventsQuery = eventsQuery.in('source', filter.sources);
-    }
-    if (filter.timeRange?.start) {
-      eventsQuery = eventsQuery.gte('time_utc', filter.timeRange.start);
-    }
-    if (filter.timeRange?.end) {
-      eventsQuery = eventsQuery.lte('time_utc', filter.timeRange.end);
-    }
-    if (filter.confidenceThreshold) {
-      eventsQuery = eventsQuery.gte('confidence_score', filter.confidenceThreshold);
-    }
-
-    const { data: events, error: eventsError } = await eventsQuery;
+    // Build events query with filters, read in pages so large exports are
+    // not cut off at one response
+    const { rows: events, error: eventsError } = await fetchAllPages((from, to) => {
+      let eventsQuery = supabaseAdmin
+        .from('astro_events')
+        .select('*')
+        .eq('status', 'active')
+        .order('time_utc', { ascending: false });
+
+      // Apply filters
+      if (filter.eventTypes?.length > 0) {
+        eventsQuery = eventsQuery.in('event_type', filter.eventTypes);
+      }
+      if (filter.sources?.length > 0) {
+        eventsQuery = eventsQuery.in('source', filter.sources);
+      }
+      if (filter.timeRange?.start) {
+        eventsQuery = eventsQuery.gte('time_utc', filter.timeRange.start);
+      }
+      if (filter.timeRange?.end) {
+        eventsQuery = eventsQuery.lte('time_utc', filter.timeRange.end);
+      }
+      if (filter.confidenceThreshold) {
+        eventsQuery = eventsQuery.gte('confidence_score', filter.confidenceThreshold);
+      }
+      return eventsQuery
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
 
     if (eventsError) {
       console.error('Events fetch error:', eventsError);
@@ -96,14 +103,16 @@ export async function POST(request: NextRequest) {
 
     let correlations = null;
     if (includeCorrelations) {
-      const { data: correlationsData, error: correlationsError } = await supabaseAdmin
+      const { rows: correlationsData, error: correlationsError } = await fetchAllPages((from, to) => supabaseAdmin
         .from('event_correlations')
         .select(`
           *,
           event1:event1_id(id, event_id, source, event_type),
           event2:event2_id(id, event_id, source, event_type)
         `)
-        .gte('confidence_score', filter.confidenceThreshold || 0);
+        .gte('confidence_score', filter.confidenceThreshold || 0)
+        .order('id', { ascending: true })
+        .range(from, to));
 
       if (correlationsError) {
         console.error('Correlations fetch error:', correlationsError);
@@ -121,7 +130,12 @@ export async function POST(request: NextRequest) {
         filters: filter,
         version: '1.0'
       },
-      events: events || [],
+      // Each event also carries its time as GPS, Fermi MET, TT, JD and MJD
+      events: (events || []).map((event: any) => ({
+        ...event,
+        coordinates: SkyCoordinates.representations(event.ra, event.dec),
+        times: AstroTime.representations(event.time_utc)
+      })),
       ...(includeCorrelations && { correlations: correlations || [] })
     };
 
@@ -131,12 +145,12 @@ export async function POST(request: NextRequest) {
         .from('data_exports')
         .insert({
           user_id: userId,
-          export_type: format as any,
+          export_type: format,
           filter_config: filter,
           record_count: events?.length || 0,
           file_size_bytes: JSON.stringify(exportData).length,
           expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days
-        } as any);
+        });
     }
 
     if (format === 'csv') {
@@ -182,7 +196,18 @@ function convertToCSV(events: any[]): string {
     'event_type',
     'ra',
     'dec',
+    'ra_hms',
+    'dec_dms',
+    'gal_l',
+    'gal_b',
+    'ecl_lon',
+    'ecl_lat',
     'time_utc',
+    'time_gps',
+    'time_met',
+    'time_tt',
+    'time_jd',
+    'time_mjd',
     'confidence_score',
     'magnitude',
     'error_radius_deg',
@@ -195,11 +220,16 @@ function convertToCSV(events: any[]): string {
   const csvRows = [
     headers.join(','), // Header row
     ...events.map(event => {
+      const row = {
+        ...event,
+        ...SkyCoordinates.coordinateColumns(event.ra, event.dec),
+        ...AstroTime.timeColumns(event.time_utc)
+      };
       return headers.map(header => {
-        const value = event[header];
+        const value = row[header];
         // Handle special cases for CSV formatting
         if (value === null || value === undefined) return '';
-        if (typeof value === 'string' && value.includes(',')) {
+        if (typeof value === 'string' && (value.includes(',') || value.includes('"'))) {
           return `"${value.replace(/"/g, '""')}"`;
         }
         return String(value);
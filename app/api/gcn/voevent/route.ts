@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { CorrelationParams } from '@/lib/correlation-engine';
+import { INGEST_CORRELATION_DEFAULTS, parseCorrelationRequest } from '@/lib/correlation-request';
+import { GcnNotice, GcnNotices } from '@/lib/gcn-notices';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+// Ingest one GCN VOEvent 2.0 notice, posted as the raw XML body. New
+// events are correlated against the catalog unless ?correlate=false.
+export async function POST(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json(
+      { error: 'Database not configured - demo mode only' },
+      { status: 503 }
+    );
+  }
+
+  try {
+    const xml = await request.text();
+    if (!xml.trim()) {
+      return NextResponse.json({ error: 'Request body must be a VOEvent XML document' }, { status: 400 });
+    }
+
+    let notice: GcnNotice;
+    try {
+      notice = GcnNotices.fromVOEvent(xml);
+    } catch (error) {
+      return NextResponse.json({ error: `Invalid VOEvent: ${(error as Error).message}` }, { status: 400 });
+    }
+
+    let correlationParams: CorrelationParams | null = null;
+    if (request.nextUrl.searchParams.get('correlate') !== 'false') {
+      const parsed = parseCorrelationRequest({}, INGEST_CORRELATION_DEFAULTS);
+      if (!parsed.ok) {
+        return NextResponse.json({ error: parsed.error }, { status: 500 });
+      }
+      correlationParams = parsed.request.params;
+    }
+
+    const { result, error } = await GcnNotices.ingest(supabaseAdmin, notice, correlationParams);
+    if (error || !result) {
+      console.error(`Failed to ingest notice ${notice.id}:`, error);
+      return NextResponse.json({ error: 'Failed to ingest notice' }, { status: 500 });
+    }
+
+    return NextResponse.json(result, { status: result.notice.action === 'created' ? 201 : 200 });
+  } catch (error) {
+    console.error('GCN VOEvent API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
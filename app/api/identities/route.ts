@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { IdentityResolver } from '@/lib/identity-resolution';
+import { IdentityStore } from '@/lib/identity-store';
+import { fetchAllPages } from '@/lib/paged-query';
+import { AstroEvent } from '@/lib/supabase';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+// Objects with more than one report, with their aliases and member events.
+// With event_id, only the object that event belongs to.
+export async function GET(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const eventId = request.nextUrl.searchParams.get('event_id');
+
+    let objectId: string | null = null;
+    if (eventId) {
+      const { data: event, error: eventError } = await supabaseAdmin
+        .from('astro_events')
+        .select('object_id')
+        .eq('id', eventId)
+        .maybeSingle();
+      if (eventError) {
+        console.error('Database error:', eventError);
+        return NextResponse.json({ error: 'Failed to fetch event' }, { status: 500 });
+      }
+      objectId = event?.object_id ?? null;
+      if (!objectId) return NextResponse.json({ objects: [] });
+    }
+
+    const { rows: objects, error } = await fetchAllPages((from, to) => {
+      let query = supabaseAdmin
+        .from('astro_objects')
+        .select('*')
+        .order('updated_at', { ascending: false })
+        .order('id', { ascending: true });
+      if (objectId) query = query.eq('id', objectId);
+      return query.range(from, to);
+    });
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json({ error: 'Failed to fetch objects' }, { status: 500 });
+    }
+
+    // Members are read by their object_id column rather than by listing
+    // every object id in the request URL
+    const { rows: members, error: membersError } = await fetchAllPages((from, to) => {
+      let query = supabaseAdmin
+        .from('astro_events')
+        .select('id, event_id, source, event_type, time_utc, ra, dec, object_id, duplicate_of')
+        .order('id', { ascending: true });
+      query = objectId ? query.eq('object_id', objectId) : query.not('object_id', 'is', null);
+      return query.range(from, to);
+    });
+    if (membersError) {
+      console.error('Database error:', membersError);
+      return NextResponse.json({ error: 'Failed to fetch object members' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      objects: objects.map(object => ({
+        ...object,
+        members: members.filter(m => m.object_id === object.id)
+      }))
+    });
+  } catch (error) {
+    console.error('Identities API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Run identity matching over the whole catalog and store the groups found
+export async function POST() {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const { rows: events, error } = await fetchAllPages((from, to) => supabaseAdmin
+      .from('astro_events')
+      .select('*')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    if (error) {
+      console.error('Database error:', error);
+      return NextResponse.json({ error: 'Failed to fetch events' }, { status: 500 });
+    }
+
+    const catalog = events as AstroEvent[];
+    const groups = IdentityResolver.resolve(catalog);
+
+    // Links from earlier passes that this pass no longer finds are dropped
+    const grouped = new Set(groups.flatMap(group => group.members.map(e => e.id)));
+    const stale = catalog.filter(e => (e.object_id || e.duplicate_of) && !grouped.has(e.id)).map(e => e.id);
+    const { error: unlinkError } = await IdentityStore.unlink(supabaseAdmin, stale);
+    if (unlinkError) {
+      console.error('Failed to clear stale identity links:', unlinkError);
+      return NextResponse.json({ error: 'Failed to store identity matches' }, { status: 500 });
+    }
+
+    const result = await IdentityStore.save(supabaseAdmin, groups);
+    if (result.error) {
+      console.error('Failed to store identity matches:', result.error);
+      return NextResponse.json({ error: 'Failed to store identity matches' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      eventsChecked: events?.length || 0,
+      objectsSaved: result.objectsSaved,
+      duplicatesLinked: result.duplicatesLinked,
+      eventsUnlinked: stale.length,
+      objects: groups.map(group => ({
+        canonicalEventId: group.canonical.id,
+        name: group.canonical.event_id,
+        eventType: group.canonical.event_type,
+        aliases: group.aliases,
+        matchedBy: group.matchedBy,
+        duplicateEventIds: group.duplicates.map(e => e.id)
+      }))
+    });
+  } catch (error) {
+    console.error('Identities API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/database.types';
+import { SKYMAP_CREDIBLE_LEVEL } from '@/lib/healpix';
+import { SkymapStore } from '@/lib/skymap-store';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+const supabaseAdmin = supabaseUrl && supabaseServiceKey ?
+  createClient<Database>(supabaseUrl, supabaseServiceKey) : null;
+
+// Summary of an event's skymap; with ra/dec, also the credible level there
+export async function GET(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const eventId = searchParams.get('event_id');
+    if (!eventId) {
+      return NextResponse.json({ error: 'event_id is required' }, { status: 400 });
+    }
+
+    const skymap = await SkymapStore.load(supabaseAdmin, eventId);
+    if (!skymap) {
+      return NextResponse.json({ error: 'No skymap stored for this event' }, { status: 404 });
+    }
+
+    const ra = searchParams.get('ra');
+    const dec = searchParams.get('dec');
+    let position = null;
+    if (ra !== null && dec !== null) {
+      const raDeg = parseFloat(ra);
+      const decDeg = parseFloat(dec);
+      if (!Number.isFinite(raDeg) || !Number.isFinite(decDeg) || Math.abs(decDeg) > 90) {
+        return NextResponse.json({ error: 'ra and dec must be valid coordinates in degrees' }, { status: 400 });
+      }
+      const credibleLevel = skymap.credibleLevelAt(raDeg, decDeg);
+      position = {
+        ra: raDeg,
+        dec: decDeg,
+        credibleLevel,
+        probDensity: skymap.probDensityAt(raDeg, decDeg),
+        insideCredibleRegion: credibleLevel <= SKYMAP_CREDIBLE_LEVEL
+      };
+    }
+
+    return NextResponse.json({ event_id: eventId, skymap, position });
+  } catch (error) {
+    console.error('Skymap API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Attach a skymap file from the local skymap directory to an event
+export async function POST(request: NextRequest) {
+  if (!supabaseAdmin) {
+    return NextResponse.json({ error: 'Database not configured - demo mode only' }, { status: 503 });
+  }
+
+  try {
+    const { event_id: eventId, file } = await request.json();
+    if (!eventId || typeof file !== 'string') {
+      return NextResponse.json({ error: 'Missing required fields: event_id, file' }, { status: 400 });
+    }
+
+    let skymap;
+    try {
+      skymap = await SkymapStore.loadFile(file);
+    } catch (error) {
+      return NextResponse.json({ error: `Could not read skymap: ${(error as Error).message}` }, { status: 400 });
+    }
+
+    const { error } = await SkymapStore.save(supabaseAdmin, eventId, skymap, file);
+    if (error) {
+      console.error('Failed to store skymap:', error);
+      return NextResponse.json({ error: 'Failed to store skymap' }, { status: 500 });
+    }
+
+    return NextResponse.json({ event_id: eventId, file, skymap }, { status: 201 });
+  } catch (error) {
+    console.error('Skymap API error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -83,6 +83,12 @@ export async function POST(request: NextRequest) {
   try {
     const { source, startTime, endTime } = await request.json();
 
+    for (const [label, value] of [['startTime', startTime], ['endTime', endTime]]) {
+      if (value !== undefined && value !== null && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+        return NextResponse.json({ error: `${label} must be an ISO 8601 time` }, { status: 400 });
+      }
+    }
+
     let events = [];
 
     switch (source) {
@@ -3,10 +3,14 @@
 import React, { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
 import { motion, AnimatePresence } from 'framer-motion';
-import { AstroEvent, FilterConfig, EVENT_TYPES, isSupabaseConfigured } from '@/lib/supabase';
+import { AstroEvent, CorrelationJobSummary, FilterConfig, EVENT_TYPES, isSupabaseConfigured } from '@/lib/supabase';
 import { EventPair } from '@/lib/correlation-engine';
+import { DEFAULT_SCORER } from '@/lib/scorers';
+import { AstroTime } from '@/lib/astro-time';
+import { SkyCoordinates } from '@/lib/coordinates';
+import { skyRegionQueryParams } from '@/lib/sky-region';
 import { useAuth } from '@/lib/auth-context';
-import { useEventsWithRealtime, useCorrelationsWithRealtime } from '@/lib/realtime-hooks';
+import { useEventsWithRealtime, useCorrelationsWithRealtime, useCorrelationJobs } from '@/lib/realtime-hooks';
 import Header from '@/components/Header';
 import Footer from '@/components/Footer';
 import EventList from '@/components/EventList';
@@ -16,11 +20,13 @@ import AuthModal from '@/components/AuthModal';
 import UserProfile from '@/components/UserProfile';
 import FilterPanel from '@/components/FilterPanel';
 import ExportModal from '@/components/ExportModal';
+import ImportModal from '@/components/ImportModal';
 import SettingsModal from '@/components/SettingsModal';
 import { 
   Telescope, 
   Zap, 
   Download, 
+  Upload,
   RefreshCw, 
   Settings, 
   Activity, 
@@ -61,6 +67,7 @@ export default function Home() {
   const [profileModalOpen, setProfileModalOpen] = useState(false);
   const [filterModalOpen, setFilterModalOpen] = useState(false);
   const [exportModalOpen, setExportModalOpen] = useState(false);
+  const [importModalOpen, setImportModalOpen] = useState(false);
   const [settingsModalOpen, setSettingsModalOpen] = useState(false);
   const [showLiveDataNotification, setShowLiveDataNotification] = useState(false);
   const [correlationResults, setCorrelationResults] = useState<any[]>([]);
@@ -69,6 +76,8 @@ export default function Home() {
   const [toastMessage, setToastMessage] = useState<string>('');
   const [showToast, setShowToast] = useState(false);
   const [correlationError, setCorrelationError] = useState<string | null>(null);
+  const [scoringMethod, setScoringMethod] = useState<string>(DEFAULT_SCORER);
+  const [distanceConsistency, setDistanceConsistency] = useState(false);
   
   // Filter configuration
   const [currentFilter, setCurrentFilter] = useState<FilterConfig>({
@@ -97,6 +106,7 @@ export default function Home() {
     addEvent,
     updateEvent,
     removeEvent,
+    replaceEvents,
     loading: eventsLoading
   } = useEventsWithRealtime();
 
@@ -105,6 +115,22 @@ export default function Home() {
     isConnected: correlationsConnected
   } = useCorrelationsWithRealtime();
 
+  // Jobs need the database, so there are none in demo mode
+  const {
+    jobs: correlationJobs,
+    trackJob
+  } = useCorrelationJobs({
+    enabled: !!isSupabaseConfigured,
+    onJobFinished: (job: CorrelationJobSummary) => {
+      if (job.status === 'completed') {
+        showToastMessage('Correlation job completed');
+        handleViewJob(job.id);
+      } else if (job.status === 'failed') {
+        showToastMessage(`Correlation job failed: ${job.error_message || 'unknown error'}`);
+      }
+    }
+  });
+
   // Fetch initial data
   useEffect(() => {
     fetchEvents();
@@ -130,15 +156,31 @@ export default function Home() {
       if (currentFilter.confidenceThreshold) {
         params.append('min_confidence', currentFilter.confidenceThreshold.toString());
       }
+      if (currentFilter.minAbsGalacticLatitude) {
+        params.append('min_abs_gal_lat', currentFilter.minAbsGalacticLatitude.toString());
+      }
+      const skyRegionParams = skyRegionQueryParams({
+        cone: currentFilter.cone ?? null,
+        box: {
+          raMin: currentFilter.coordinates.ra.min,
+          raMax: currentFilter.coordinates.ra.max,
+          decMin: currentFilter.coordinates.dec.min,
+          decMax: currentFilter.coordinates.dec.max
+        }
+      });
+      Object.entries(skyRegionParams).forEach(([name, value]) => params.append(name, value));
       
       const response = await fetch(`/api/events?${params}`);
       const data = await response.json();
       
-      if (data.events && data.events.length > 0) {
-        // Force refresh by clearing and re-adding events
-        // This ensures the UI updates even in demo mode
+      if (!response.ok) {
+        showToastMessage(data.error || 'Failed to refresh data. Please try again.');
+      } else if (data.events && data.events.length > 0) {
+        // The list and sky map show exactly what the filters selected
+        replaceEvents(data.events);
         showToastMessage(`Refreshed ${data.events.length} events from data sources`);
       } else {
+        replaceEvents([]);
         showToastMessage('No events found for current filters');
       }
     } catch (error) {
@@ -160,48 +202,38 @@ export default function Home() {
     setSelectedEvent(null); // Clear selected event
     setCorrelationResults([]); // Clear correlation results
     setShowCorrelationResults(false);
-    
-    try {
-      const response = await fetch('/api/events');
-      const data = await response.json();
-      
-      if (data.events && data.events.length > 0) {
-        showToastMessage(`Refreshed ${data.events.length} events from astronomical databases`);
-      } else {
-        showToastMessage('No events available');
-      }
-    } catch (error) {
-      console.error('Failed to refresh events:', error);
-      showToastMessage('Failed to refresh data. Please try again.');
-    } finally {
-      setIsLoading(false);
-    }
+
+    // Reload with the current filters
+    await fetchEvents();
   };
 
+  const correlationPayload = () => ({
+    timeWindowSeconds: currentFilter.maxTimeWindow || 600,
+    angularThresholdDeg: currentFilter.maxAngularSeparation || 1.0,
+    minConfidenceScore: currentFilter.confidenceThreshold || 0.1,
+    scoringMethod,
+    distanceConsistency
+  });
+
   const handleCorrelate = async () => {
     try {
       setIsLoading(true);
       setCorrelationError(null);
-      
-      const payload: any = {
-        timeWindowSeconds: currentFilter.maxTimeWindow || 600,
-        angularThresholdDeg: currentFilter.maxAngularSeparation || 1.0,
-        minConfidenceScore: currentFilter.confidenceThreshold || 0.1
-      };
 
       const res = await fetch('/api/correlate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
+        body: JSON.stringify(correlationPayload()),
         cache: 'no-store',
       });
 
       const data = await res.json();
-      if (!res.ok || !data?.ok) {
+      if (!res.ok) {
         throw new Error(data?.error || 'Failed to compute correlations');
       }
 
       setCorrelationResults(Array.isArray(data?.correlations) ? data.correlations : []);
+      setCorrelationSummary(data?.summary || null);
     } catch (e: any) {
       console.error('handleCorrelate error:', e?.message || e);
       setCorrelationResults([]);
@@ -212,6 +244,64 @@ export default function Home() {
     }
   };
 
+  const handleSubmitJob = async () => {
+    try {
+      const res = await fetch('/api/correlate/jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(correlationPayload()),
+        cache: 'no-store',
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || 'Failed to submit correlation job');
+      }
+
+      trackJob(data.job);
+      showToastMessage('Correlation job submitted - you will be notified when it finishes');
+    } catch (e: any) {
+      console.error('handleSubmitJob error:', e?.message || e);
+      showToastMessage(e?.message || 'Failed to submit correlation job');
+    }
+  };
+
+  // Show the stored results of a completed job
+  const handleViewJob = async (jobId: string) => {
+    try {
+      const res = await fetch(`/api/correlate/jobs/${jobId}`, { cache: 'no-store' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || 'Failed to load correlation job');
+      }
+
+      const results = data.job?.results;
+      setCorrelationError(null);
+      setCorrelationResults(Array.isArray(results?.correlations) ? results.correlations : []);
+      setCorrelationSummary(results?.summary || null);
+      setShowCorrelationResults(true);
+    } catch (e: any) {
+      console.error('handleViewJob error:', e?.message || e);
+      showToastMessage(e?.message || 'Failed to load correlation job');
+    }
+  };
+
+  const handleCancelJob = async (jobId: string) => {
+    try {
+      const res = await fetch(`/api/correlate/jobs/${jobId}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data?.error || 'Failed to cancel correlation job');
+      }
+
+      trackJob(data.job);
+      showToastMessage('Correlation job cancelled');
+    } catch (e: any) {
+      console.error('handleCancelJob error:', e?.message || e);
+      showToastMessage(e?.message || 'Failed to cancel correlation job');
+    }
+  };
+
   const handleApplyFilter = (newFilter: FilterConfig) => {
     setCurrentFilter(newFilter);
   };
@@ -238,7 +328,11 @@ export default function Home() {
   const handleQuickExportJSON = () => {
     try {
       const exportData = {
-        events: events,
+        events: events.map(event => ({
+          ...event,
+          coordinates: SkyCoordinates.representations(event.ra, event.dec),
+          times: AstroTime.representations(event.time_utc)
+        })),
         correlations: correlationResults,
         filters: currentFilter,
         timestamp: new Date().toISOString(),
@@ -268,11 +362,19 @@ export default function Home() {
 
   const handleQuickExportCSV = () => {
     try {
-      const csvHeaders = 'Event ID,Type,Source,Time (UTC),RA (deg),Dec (deg),SNR,Distance (Mpc)\n';
+      const csvHeaders = 'Event ID,Type,Source,Time (UTC),GPS Time,Fermi MET,Time (TT),JD,MJD,RA (deg),Dec (deg),RA (hms),Dec (dms),Galactic l (deg),Galactic b (deg),Ecliptic lon (deg),Ecliptic lat (deg),SNR,Distance (Mpc)\n';
       const csvRows = events.map(event => {
         const snr = event.metadata?.snr || 'N/A';
         const distance = event.metadata?.distance || 'N/A';
-        return `"${event.event_id}","${event.event_type}","${event.source}","${event.time_utc}",${event.ra},${event.dec},"${snr}","${distance}"`;
+        const times = AstroTime.representations(event.time_utc);
+        const timeColumns = times
+          ? `${times.gps.toFixed(3)},${times.met.toFixed(3)},"${times.tt}",${times.jd.toFixed(6)},${times.mjd.toFixed(6)}`
+          : ',,,,';
+        const coordinates = SkyCoordinates.representations(event.ra, event.dec);
+        const coordinateColumns = `"${coordinates.raHms}","${coordinates.decDms.replace(/"/g, '""')}",` +
+          `${coordinates.galactic.lon.toFixed(6)},${coordinates.galactic.lat.toFixed(6)},` +
+          `${coordinates.ecliptic.lon.toFixed(6)},${coordinates.ecliptic.lat.toFixed(6)}`;
+        return `"${event.event_id}","${event.event_type}","${event.source}","${event.time_utc}",${timeColumns},${event.ra},${event.dec},${coordinateColumns},"${snr}","${distance}"`;
       }).join('\n');
       
       const csvContent = csvHeaders + csvRows;
@@ -337,8 +439,15 @@ export default function Home() {
     event2: events.find(e => e.id === corr.event2_id) || {} as AstroEvent,
     timeDiffSeconds: corr.time_diff_seconds,
     angularSeparationDeg: corr.angular_separation_deg,
+    matchRadiusDeg: corr.match_radius_deg ?? currentFilter.maxAngularSeparation ?? 1.0,
     correlationType: corr.correlation_type,
-    confidenceScore: corr.confidence_score
+    clusterType: corr.cluster_type ?? undefined,
+    confidenceScore: corr.confidence_score,
+    falseAlarmProbability: corr.false_alarm_probability ?? undefined,
+    significanceSigma: corr.significance_sigma ?? undefined,
+    skymapCredibleLevel: corr.skymap_credible_level ?? undefined,
+    scoreBreakdown: corr.score_breakdown ?? undefined,
+    hostAssociation: corr.host_association ?? undefined
   })).filter(pair => pair.event1.id && pair.event2.id);
 
   // Stats for dashboard
@@ -496,6 +605,16 @@ export default function Home() {
               <Download className="w-4 h-4" />
               <span>Export</span>
             </motion.button>
+
+            <motion.button
+              onClick={() => setImportModalOpen(true)}
+              className="btn-secondary flex items-center space-x-2"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <Upload className="w-4 h-4" />
+              <span>Import</span>
+            </motion.button>
           </div>
 
           {/* Stats Cards */}
@@ -606,9 +725,15 @@ export default function Home() {
                     maxAngularSeparation: params.angularThresholdDeg,
                     confidenceThreshold: params.minConfidenceScore
                   });
+                  setScoringMethod(params.scoringMethod);
+                  setDistanceConsistency(params.distanceConsistency);
                 }}
                 onCorrelate={handleCorrelate}
                 isLoading={isLoading}
+                jobs={isSupabaseConfigured ? correlationJobs : undefined}
+                onSubmitJob={isSupabaseConfigured ? handleSubmitJob : undefined}
+                onCancelJob={handleCancelJob}
+                onViewJob={handleViewJob}
               />
             </div>
 
@@ -626,6 +751,7 @@ export default function Home() {
                   </h3>
                   <EventDetails 
                     event={selectedEvent}
+                    correlations={eventPairs}
                     onClose={() => setSelectedEvent(null)}
                   />
                 </motion.div>
@@ -803,6 +929,15 @@ export default function Home() {
         currentFilter={currentFilter}
         totalEvents={events.length}
       />
+
+      <ImportModal
+        isOpen={importModalOpen}
+        onClose={() => setImportModalOpen(false)}
+        onImported={(result) => {
+          fetchEvents();
+          showToastMessage(`Imported ${result.summary.created + result.summary.updated} events, ${result.summary.rejected} rejected`);
+        }}
+      />
       
       <SettingsModal 
         isOpen={settingsModalOpen}
@@ -2,9 +2,11 @@
 
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { AstroEvent } from '@/lib/supabase';
+import { AstroEvent, CorrelationJobSummary } from '@/lib/supabase';
 import { EventPair } from '@/lib/correlation-engine';
-import { Settings, Link, TrendingUp, Zap, Clock, MapPin } from 'lucide-react';
+import { DEFAULT_SCORER, ScorerRegistry } from '@/lib/scorers';
+import { describeCorrelationType } from '@/lib/messenger-taxonomy';
+import { Settings, Link, TrendingUp, Zap, Clock, MapPin, ListChecks, X, Eye } from 'lucide-react';
 
 interface CorrelationPanelProps {
   events: AstroEvent[];
@@ -13,33 +15,65 @@ interface CorrelationPanelProps {
     timeWindowSeconds: number;
     angularThresholdDeg: number;
     minConfidenceScore: number;
+    scoringMethod: string;
+    distanceConsistency: boolean;
   }) => void;
   onCorrelate: () => void;
   isLoading?: boolean;
+  // Background correlation jobs; the job controls are hidden without them
+  jobs?: CorrelationJobSummary[];
+  onSubmitJob?: () => void;
+  onCancelJob?: (jobId: string) => void;
+  onViewJob?: (jobId: string) => void;
 }
 
+const JOB_STATUS_STYLES: Record<CorrelationJobSummary['status'], string> = {
+  pending: 'text-starlight-300 bg-starlight-500/20 border-starlight-400/30',
+  running: 'text-space-300 bg-space-500/20 border-space-400/30',
+  completed: 'text-green-300 bg-green-500/20 border-green-400/30',
+  failed: 'text-red-300 bg-red-500/20 border-red-400/30',
+  cancelled: 'text-starlight-400 bg-starlight-700/20 border-starlight-600/30'
+};
+
 const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
   events,
   correlations,
   onParametersChange,
   onCorrelate,
-  isLoading = false
+  isLoading = false,
+  jobs,
+  onSubmitJob,
+  onCancelJob,
+  onViewJob
 }) => {
   const [timeWindow, setTimeWindow] = useState(600); // 10 minutes in seconds
   const [angularThreshold, setAngularThreshold] = useState(1.0); // 1 degree
   const [minConfidence, setMinConfidence] = useState(0.1); // 10%
+  const [scoringMethod, setScoringMethod] = useState<string>(DEFAULT_SCORER);
+  const [distanceConsistency, setDistanceConsistency] = useState(false);
 
   const handleParameterChange = () => {
     onParametersChange({
       timeWindowSeconds: timeWindow,
       angularThresholdDeg: angularThreshold,
-      minConfidenceScore: minConfidence
+      minConfidenceScore: minConfidence,
+      scoringMethod,
+      distanceConsistency
     });
   };
 
   React.useEffect(() => {
     handleParameterChange();
-  }, [timeWindow, angularThreshold, minConfidence]);
+  }, [timeWindow, angularThreshold, minConfidence, scoringMethod, distanceConsistency]);
+
+  // Count pairs per messenger combination, preferring the N-way cluster label
+  const messengerCombinations = Object.entries(
+    correlations.reduce((acc: Record<string, number>, c) => {
+      const type = c.clusterType || c.correlationType;
+      acc[type] = (acc[type] || 0) + 1;
+      return acc;
+    }, {})
+  ).sort((a, b) => b[1] - a[1]);
 
   const formatTimeWindow = (seconds: number) => {
     if (seconds < 60) return `${seconds}s`;
@@ -135,6 +169,34 @@ const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
             <span>100%</span>
           </div>
         </div>
+
+        {/* Scoring Method */}
+        <div>
+          <label className="flex items-center space-x-2 text-sm font-medium text-starlight-200 mb-3">
+            <Link className="w-4 h-4 text-cosmic-400" />
+            <span>Scoring</span>
+          </label>
+          <select
+            value={scoringMethod}
+            onChange={(e) => setScoringMethod(e.target.value)}
+            className="input-field w-full text-sm"
+          >
+            {ScorerRegistry.list().map(scorer => (
+              <option key={scorer.name} value={scorer.name} title={scorer.description}>
+                {scorer.name} ({scorer.version})
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center space-x-2 mt-3 text-sm text-starlight-300">
+            <input
+              type="checkbox"
+              checked={distanceConsistency}
+              onChange={(e) => setDistanceConsistency(e.target.checked)}
+              className="rounded border-starlight-600 bg-starlight-900 text-cosmic-500 focus:ring-cosmic-500 focus:ring-offset-0"
+            />
+            <span>Require consistent distances</span>
+          </label>
+        </div>
       </div>
 
       {/* Correlation Button */}
@@ -149,6 +211,76 @@ const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
         <span>{isLoading ? 'Analyzing...' : 'Find Correlations'}</span>
       </motion.button>
 
+      {onSubmitJob && (
+        <button
+          onClick={onSubmitJob}
+          disabled={events.length < 2}
+          className="w-full btn-secondary flex items-center justify-center space-x-2 py-2 text-sm"
+          title="Run in the background and get notified when it finishes"
+        >
+          <ListChecks className="w-4 h-4" />
+          <span>Run as Background Job</span>
+        </button>
+      )}
+
+      {/* Correlation Jobs */}
+      {jobs && jobs.length > 0 && (
+        <div className="glass rounded-lg p-4 space-y-2">
+          <div className="flex items-center space-x-2 text-starlight-200">
+            <ListChecks className="w-4 h-4 text-space-400" />
+            <span className="font-medium">Correlation Jobs</span>
+          </div>
+          {jobs.slice(0, 5).map(job => {
+            const active = job.status === 'pending' || job.status === 'running';
+            return (
+              <div key={job.id} className="text-xs text-starlight-300 bg-starlight-800/30 rounded px-2 py-2 space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className={`border rounded px-1.5 py-0.5 ${JOB_STATUS_STYLES[job.status]}`}>
+                    {job.status}
+                  </span>
+                  <span className="text-starlight-500">
+                    {job.created_at ? new Date(job.created_at).toLocaleString() : ''}
+                  </span>
+                  <span className="flex items-center space-x-1">
+                    {job.status === 'completed' && onViewJob && (
+                      <button
+                        onClick={() => onViewJob(job.id)}
+                        className="p-1 text-starlight-400 hover:text-cosmic-300"
+                        title="Show results"
+                      >
+                        <Eye className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {active && onCancelJob && (
+                      <button
+                        onClick={() => onCancelJob(job.id)}
+                        className="p-1 text-starlight-400 hover:text-red-300"
+                        title="Cancel job"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </span>
+                </div>
+                {active && (
+                  <div className="h-1 bg-starlight-800 rounded overflow-hidden">
+                    <div
+                      className="h-full bg-space-400 transition-all"
+                      style={{ width: `${Math.round((job.progress ?? 0) * 100)}%` }}
+                    />
+                  </div>
+                )}
+                {(job.progress_message || job.error_message) && (
+                  <div className={job.status === 'failed' ? 'text-red-300' : 'text-starlight-500'}>
+                    {job.status === 'failed' && job.error_message ? job.error_message : job.progress_message}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Results Summary */}
       {correlations.length > 0 && (
         <motion.div
@@ -179,6 +311,22 @@ const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
             </div>
           </div>
 
+          {/* Messenger Combinations */}
+          <div className="space-y-2">
+            <p className="text-starlight-400 text-sm">Messenger Combinations:</p>
+            <div className="flex flex-wrap gap-2">
+              {messengerCombinations.map(([type, count]) => (
+                <span
+                  key={type}
+                  className="text-xs text-starlight-200 bg-cosmic-500/20 border border-cosmic-400/30 rounded px-2 py-1"
+                >
+                  {describeCorrelationType(type)}
+                  <span className="ml-1 text-starlight-400">×{count}</span>
+                </span>
+              ))}
+            </div>
+          </div>
+
           {/* Top Correlations */}
           <div className="space-y-2">
             <p className="text-starlight-400 text-sm">Strongest Correlations:</p>
@@ -197,9 +345,34 @@ const CorrelationPanel: React.FC<CorrelationPanelProps> = ({
                   <span className="text-nebula-400">
                     {correlation.event2.event_type}
                   </span>
+                  {correlation.clusterType && (
+                    <span className="ml-2 text-starlight-500">
+                      ({describeCorrelationType(correlation.clusterType)})
+                    </span>
+                  )}
                   <span className="float-right text-starlight-400">
                     {(correlation.confidenceScore * 100).toFixed(1)}%
+                    {correlation.significanceSigma !== undefined && (
+                      <span className="ml-2 text-cosmic-300">
+                        {Number.isFinite(correlation.significanceSigma)
+                          ? `${correlation.significanceSigma.toFixed(1)}σ`
+                          : '>8σ'}
+                      </span>
+                    )}
                   </span>
+                  {correlation.skymapCredibleLevel !== undefined && (
+                    <div className="mt-1 text-starlight-500">
+                      Inside {(correlation.skymapCredibleLevel * 100).toFixed(0)}% credible region
+                    </div>
+                  )}
+                  {correlation.scoreBreakdown?.distanceWeight != null && (
+                    <div className="mt-1 text-starlight-500">
+                      Base {(correlation.scoreBreakdown.baseScore * 100).toFixed(1)}%
+                      {' · '}distance ×{correlation.scoreBreakdown.distanceWeight.toFixed(2)}
+                      {' '}({correlation.scoreBreakdown.distanceTensionSigma!.toFixed(1)}σ tension,
+                      {' '}{(correlation.scoreBreakdown.distanceContribution * 100).toFixed(1)}%)
+                    </div>
+                  )}
                 </div>
               ))
             }
@@ -3,15 +3,20 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AstroEvent } from '@/lib/supabase';
-import { X, ExternalLink, Calendar, MapPin, Database, Zap, Radio, Eye, Star, Clock } from 'lucide-react';
+import type { EventPair } from '@/lib/correlation-engine';
+import { FollowUpPriority } from '@/lib/follow-up-priority';
+import { AstroTime } from '@/lib/astro-time';
+import { SkyCoordinates } from '@/lib/coordinates';
+import { X, ExternalLink, Calendar, MapPin, Database, Zap, Radio, Eye, Star, Clock, Target, Flag } from 'lucide-react';
 import { formatDistanceToNow } from 'date-fns';
 
 interface EventDetailsProps {
   event: AstroEvent | null;
+  correlations?: EventPair[];
   onClose: () => void;
 }
 
-const EventDetails: React.FC<EventDetailsProps> = ({ event, onClose }) => {
+const EventDetails: React.FC<EventDetailsProps> = ({ event, correlations = [], onClose }) => {
   if (!event) return null;
 
   const formatMetadata = (metadata: any) => {
@@ -53,6 +58,20 @@ const EventDetails: React.FC<EventDetailsProps> = ({ event, onClose }) => {
   };
 
   const metadataEntries = formatMetadata(event.metadata);
+  const times = AstroTime.representations(event.time_utc);
+  const coordinates = SkyCoordinates.representations(event.ra, event.dec);
+
+  // Host galaxy rankings for this event as the optical counterpart of a GW event
+  const hostAssociations = correlations
+    .map(pair => pair.hostAssociation)
+    .filter((association): association is NonNullable<EventPair['hostAssociation']> =>
+      !!association && association.transientId === event.id
+    );
+  const gwEventName = (gwEventId: string) => {
+    const pair = correlations.find(p => p.event1.id === gwEventId || p.event2.id === gwEventId);
+    if (!pair) return gwEventId;
+    return pair.event1.id === gwEventId ? pair.event1.event_id : pair.event2.event_id;
+  };
 
   return (
     <AnimatePresence>
@@ -112,6 +131,22 @@ const EventDetails: React.FC<EventDetailsProps> = ({ event, onClose }) => {
                 <p className="text-starlight-400 text-sm mt-1">
                   {formatDistanceToNow(new Date(event.time_utc), { addSuffix: true })}
                 </p>
+                {times && (
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mt-3 text-xs font-mono">
+                    <dt className="text-starlight-400">UTC</dt>
+                    <dd className="text-starlight-100">{times.utc}</dd>
+                    <dt className="text-starlight-400">TT</dt>
+                    <dd className="text-starlight-100">{times.tt}</dd>
+                    <dt className="text-starlight-400">GPS</dt>
+                    <dd className="text-starlight-100">{times.gps.toFixed(3)}</dd>
+                    <dt className="text-starlight-400">Fermi MET</dt>
+                    <dd className="text-starlight-100">{times.met.toFixed(3)}</dd>
+                    <dt className="text-starlight-400">JD</dt>
+                    <dd className="text-starlight-100">{times.jd.toFixed(6)}</dd>
+                    <dt className="text-starlight-400">MJD</dt>
+                    <dd className="text-starlight-100">{times.mjd.toFixed(6)}</dd>
+                  </dl>
+                )}
               </div>
 
               <div className="glass rounded-lg p-4">
@@ -127,6 +162,18 @@ const EventDetails: React.FC<EventDetailsProps> = ({ event, onClose }) => {
                     Dec: {event.dec.toFixed(6)}°
                   </p>
                 </div>
+                <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 mt-3 text-xs font-mono">
+                  <dt className="text-starlight-400">ICRS</dt>
+                  <dd className="text-starlight-100">{coordinates.raHms} {coordinates.decDms}</dd>
+                  <dt className="text-starlight-400">Galactic</dt>
+                  <dd className="text-starlight-100">
+                    l {coordinates.galactic.lon.toFixed(4)}°, b {coordinates.galactic.lat.toFixed(4)}°
+                  </dd>
+                  <dt className="text-starlight-400">Ecliptic</dt>
+                  <dd className="text-starlight-100">
+                    λ {coordinates.ecliptic.lon.toFixed(4)}°, β {coordinates.ecliptic.lat.toFixed(4)}°
+                  </dd>
+                </dl>
               </div>
 
               <div className="glass rounded-lg p-4">
@@ -164,6 +211,69 @@ const EventDetails: React.FC<EventDetailsProps> = ({ event, onClose }) => {
               )}
             </div>
 
+            {/* Follow-up priority */}
+            {event.follow_up_priority !== undefined && (
+              <div className="glass rounded-lg p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div className="flex items-center space-x-2">
+                    <Flag className="w-4 h-4 text-nebula-400" />
+                    <h3 className="font-medium text-starlight-200">Follow-up Priority</h3>
+                  </div>
+                  <span className="text-starlight-100 font-mono text-lg">{event.follow_up_priority}/10</span>
+                </div>
+                {event.follow_up_rule && (
+                  <p className="text-sm text-starlight-300 mb-2">
+                    Triggered by: {FollowUpPriority.describeRule(event.follow_up_rule)}
+                  </p>
+                )}
+                {event.follow_up_factors && event.follow_up_factors.length > 0 && (
+                  <ul className="space-y-1">
+                    {event.follow_up_factors.map(f => (
+                      <li key={f.rule} className="flex justify-between text-xs text-starlight-400">
+                        <span>{f.reason}</span>
+                        <span className="font-mono">{f.points > 0 ? '+' : ''}{f.points.toFixed(1)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Host galaxy association */}
+            {hostAssociations.map(association => (
+              <div key={association.gwEventId} className="glass rounded-lg p-4">
+                <h3 className="font-medium text-starlight-200 mb-1 flex items-center space-x-2">
+                  <Target className="w-4 h-4 text-space-400" />
+                  <span>Host Galaxy Candidates</span>
+                </h3>
+                <p className="text-xs text-starlight-400 mb-3">
+                  Counterpart of {gwEventName(association.gwEventId)} · {association.candidateCount} catalog galaxies within {(association.searchRadiusDeg * 60).toFixed(1)}′
+                </p>
+                {association.candidates.length === 0 ? (
+                  <p className="text-sm text-starlight-400">No catalog galaxies in the search cone</p>
+                ) : (
+                  <div className="space-y-2">
+                    {association.candidates.map(candidate => (
+                      <div key={candidate.name} className="bg-starlight-800/30 rounded-lg p-3">
+                        <div className="flex justify-between items-center">
+                          <span className="text-sm text-starlight-100 font-medium">{candidate.name}</span>
+                          <span className="text-sm text-starlight-100 font-mono">
+                            {(candidate.probability * 100).toFixed(1)}%
+                          </span>
+                        </div>
+                        <div className="text-xs text-starlight-400 font-mono mt-1">
+                          Offset {candidate.separationArcsec.toFixed(1)}″
+                          {candidate.offsetKpc !== null && ` (${candidate.offsetKpc.toFixed(1)} kpc)`}
+                          {candidate.distanceMpc !== null && ` · ${candidate.distanceMpc.toFixed(0)} Mpc`}
+                          {candidate.absoluteMagnitudeB !== null && ` · M_B ${candidate.absoluteMagnitudeB.toFixed(1)}`}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
             {/* Metadata */}
             {metadataEntries.length > 0 && (
               <div className="glass rounded-lg p-4">
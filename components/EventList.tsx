@@ -1,10 +1,11 @@
 'use client';
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { AstroEvent } from '@/lib/supabase';
+import { FollowUpPriority } from '@/lib/follow-up-priority';
 import { formatDistanceToNow } from 'date-fns';
-import { Zap, Eye, Radio, Star, Clock, MapPin } from 'lucide-react';
+import { Zap, Eye, Radio, Star, Clock, MapPin, Flag } from 'lucide-react';
 
 interface EventListProps {
   events: AstroEvent[];
@@ -12,7 +13,23 @@ interface EventListProps {
   selectedEvent?: AstroEvent;
 }
 
+type EventSort = 'recent' | 'priority';
+
 const EventList: React.FC<EventListProps> = ({ events, onEventSelect, selectedEvent }) => {
+  const [sortBy, setSortBy] = useState<EventSort>('recent');
+
+  // Events arrive newest first; priority order keeps that as the tie-break
+  const sortedEvents = useMemo(() => {
+    if (sortBy !== 'priority') return events;
+    return [...events].sort((a, b) => (b.follow_up_priority ?? 0) - (a.follow_up_priority ?? 0));
+  }, [events, sortBy]);
+
+  const getPriorityColor = (priority: number) => {
+    if (priority >= 7) return 'bg-nebula-500/20 border-nebula-400/50 text-nebula-300';
+    if (priority >= 4) return 'bg-cosmic-500/20 border-cosmic-400/50 text-cosmic-300';
+    return 'bg-starlight-500/20 border-starlight-400/50 text-starlight-300';
+  };
+
   const getEventIcon = (eventType: string) => {
     switch (eventType) {
       case 'gravitational_wave': return <Radio className="w-4 h-4" />;
@@ -46,15 +63,32 @@ const EventList: React.FC<EventListProps> = ({ events, onEventSelect, selectedEv
         <h3 className="font-display text-lg font-semibold text-starlight-100">
           Recent Events
         </h3>
-        <div className="flex items-center space-x-2 text-starlight-400 text-sm">
-          <div className="w-2 h-2 bg-nebula-400 rounded-full animate-pulse"></div>
-          <span>{events.length} detected</span>
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center space-x-1">
+            {(['recent', 'priority'] as EventSort[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setSortBy(option)}
+                className={`text-xs rounded px-2 py-1 transition-colors ${
+                  sortBy === option
+                    ? 'text-starlight-200 bg-cosmic-500/20 border border-cosmic-400/30'
+                    : 'text-starlight-400 hover:text-starlight-200'
+                }`}
+              >
+                {option === 'recent' ? 'Recent' : 'Priority'}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center space-x-2 text-starlight-400 text-sm">
+            <div className="w-2 h-2 bg-nebula-400 rounded-full animate-pulse"></div>
+            <span>{events.length} detected</span>
+          </div>
         </div>
       </div>
       
       <div className="max-h-96 overflow-y-auto space-y-3 pr-2">
         <AnimatePresence>
-          {events.slice(0, 20).map((event, index) => (
+          {sortedEvents.slice(0, 20).map((event, index) => (
             <motion.div
               key={event.id}
               initial={{ opacity: 0, y: 20 }}
@@ -109,6 +143,20 @@ const EventList: React.FC<EventListProps> = ({ events, onEventSelect, selectedEv
                 </div>
               </div>
               
+              {(event.follow_up_priority ?? 0) > 0 && (
+                <div className="mt-3 flex items-center space-x-2 text-xs">
+                  <span className={`flex items-center space-x-1 px-2 py-0.5 rounded-full border font-mono ${getPriorityColor(event.follow_up_priority ?? 0)}`}>
+                    <Flag className="w-3 h-3" />
+                    <span>P{event.follow_up_priority}</span>
+                  </span>
+                  {event.follow_up_rule && (
+                    <span className="text-starlight-400 truncate">
+                      {FollowUpPriority.describeRule(event.follow_up_rule)}
+                    </span>
+                  )}
+                </div>
+              )}
+
               {event.confidence_score && (
                 <div className="mt-3">
                   <div className="flex items-center justify-between text-xs text-starlight-400 mb-1">
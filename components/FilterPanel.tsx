@@ -4,6 +4,22 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Filter, X, Save, RotateCcw, Calendar, MapPin, Target, Zap } from 'lucide-react';
 import { FilterConfig, EVENT_TYPES, EventType } from '@/lib/supabase';
+import { SkyCoordinates } from '@/lib/coordinates';
+
+type CoordinateAxis = 'ra' | 'dec';
+type CoordinateBound = 'min' | 'max';
+type CoordinateText = Record<`${CoordinateAxis}.${CoordinateBound}`, string>;
+
+const coordinateTextFor = (filter: FilterConfig): CoordinateText => ({
+  'ra.min': String(filter.coordinates.ra.min),
+  'ra.max': String(filter.coordinates.ra.max),
+  'dec.min': String(filter.coordinates.dec.min),
+  'dec.max': String(filter.coordinates.dec.max)
+});
+
+const coneCenterTextFor = (filter: FilterConfig): string => filter.cone
+  ? `${SkyCoordinates.formatRa(filter.cone.ra)} ${SkyCoordinates.formatDec(filter.cone.dec)}`
+  : '';
 
 interface FilterPanelProps {
   isOpen: boolean;
@@ -18,8 +34,24 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
     'LIGO-Virgo', 'Swift-BAT', 'ZTF', 'IceCube', 'CHIME', 'Fermi-GBM'
   ]);
 
+  // Coordinate inputs as typed, in degrees or sexagesimal; parsed on blur
+  const [coordinateText, setCoordinateText] = useState<CoordinateText>(coordinateTextFor(currentFilter));
+  const [invalidCoordinates, setInvalidCoordinates] = useState<string[]>([]);
+
+  // Cone search center as typed, e.g. 13h09m48s -23°22'53"
+  const [coneEnabled, setConeEnabled] = useState(!!currentFilter.cone);
+  const [coneCenterText, setConeCenterText] = useState(coneCenterTextFor(currentFilter));
+  const [coneRadius, setConeRadius] = useState(currentFilter.cone?.radiusDeg ?? 1);
+  const [coneCenterInvalid, setConeCenterInvalid] = useState(false);
+
   useEffect(() => {
     setFilter(currentFilter);
+    setCoordinateText(coordinateTextFor(currentFilter));
+    setInvalidCoordinates([]);
+    setConeEnabled(!!currentFilter.cone);
+    setConeCenterText(coneCenterTextFor(currentFilter));
+    setConeRadius(currentFilter.cone?.radiusDeg ?? 1);
+    setConeCenterInvalid(false);
   }, [currentFilter]);
 
   const handleEventTypeToggle = (eventType: EventType) => {
@@ -48,7 +80,22 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
     });
   };
 
-  const handleCoordinateChange = (axis: 'ra' | 'dec', bound: 'min' | 'max', value: number) => {
+  const handleCoordinateInput = (axis: CoordinateAxis, bound: CoordinateBound) => {
+    const key = `${axis}.${bound}` as const;
+    const text = coordinateText[key];
+    const fallback = axis === 'ra' ? (bound === 'min' ? 0 : 360) : (bound === 'min' ? -90 : 90);
+    const value = !text.trim() ? fallback
+      : axis === 'ra' ? SkyCoordinates.parseRa(text) : SkyCoordinates.parseDec(text);
+
+    if (!Number.isFinite(value)) {
+      setInvalidCoordinates(keys => keys.includes(key) ? keys : [...keys, key]);
+      return;
+    }
+    setInvalidCoordinates(keys => keys.filter(k => k !== key));
+    handleCoordinateChange(axis, bound, value);
+  };
+
+  const handleCoordinateChange = (axis: CoordinateAxis, bound: CoordinateBound, value: number) => {
     setFilter({
       ...filter,
       coordinates: {
@@ -61,6 +108,19 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
     });
   };
 
+  // The cone is kept in the filter only while enabled with a valid center
+  // and radius
+  const handleConeChange = (enabled: boolean, centerText: string, radiusDeg: number) => {
+    const center = SkyCoordinates.parsePosition(centerText);
+    setConeCenterInvalid(enabled && centerText.trim() !== '' && !center);
+    setFilter({
+      ...filter,
+      cone: enabled && center && radiusDeg > 0 && radiusDeg <= 180
+        ? { ra: center.ra, dec: center.dec, radiusDeg }
+        : undefined
+    });
+  };
+
   const handleReset = () => {
     const defaultFilter: FilterConfig = {
       eventTypes: [...EVENT_TYPES],
@@ -78,9 +138,19 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
       maxTimeWindow: 3600
     };
     setFilter(defaultFilter);
+    setCoordinateText(coordinateTextFor(defaultFilter));
+    setInvalidCoordinates([]);
+    setConeEnabled(false);
+    setConeCenterText('');
+    setConeRadius(1);
+    setConeCenterInvalid(false);
   };
 
   const handleApply = () => {
+    if (coneEnabled && !filter.cone) {
+      setConeCenterInvalid(true);
+      return;
+    }
     onApplyFilter(filter);
     onClose();
   };
@@ -107,6 +177,30 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
     }
   };
 
+  const renderCoordinateInput = (axis: CoordinateAxis, bound: CoordinateBound) => {
+    const key = `${axis}.${bound}` as const;
+    const invalid = invalidCoordinates.includes(key);
+    const value = filter.coordinates[axis][bound];
+    return (
+      <div className="flex-1">
+        <input
+          type="text"
+          placeholder={bound === 'min' ? 'Min' : 'Max'}
+          value={coordinateText[key]}
+          onChange={(e) => setCoordinateText({ ...coordinateText, [key]: e.target.value })}
+          onBlur={() => handleCoordinateInput(axis, bound)}
+          className={`input-field w-full ${invalid ? 'border-red-500' : ''}`}
+        />
+        <p className={`text-xs mt-1 font-mono ${invalid ? 'text-red-400' : 'text-starlight-500'}`}>
+          {invalid
+            ? 'Not a valid coordinate'
+            : axis === 'dec' ? SkyCoordinates.formatDec(value, 0)
+            : value >= 360 ? '24h00m00.0s' : SkyCoordinates.formatRa(value, 1)}
+        </p>
+      </div>
+    );
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -246,53 +340,89 @@ export default function FilterPanel({ isOpen, onClose, onApplyFilter, currentFil
                 <div className="space-y-4">
                   <div>
                     <label className="block text-sm text-starlight-400 mb-2">
-                      Right Ascension (RA) - degrees
+                      Right Ascension (RA) - degrees or 13h09m48s; min above max wraps through 0h
                     </label>
                     <div className="flex space-x-2">
-                      <input
-                        type="number"
-                        placeholder="Min"
-                        value={filter.coordinates.ra.min}
-                        onChange={(e) => handleCoordinateChange('ra', 'min', parseFloat(e.target.value) || 0)}
-                        className="input-field flex-1"
-                        min="0"
-                        max="360"
-                      />
-                      <input
-                        type="number"
-                        placeholder="Max"
-                        value={filter.coordinates.ra.max}
-                        onChange={(e) => handleCoordinateChange('ra', 'max', parseFloat(e.target.value) || 360)}
-                        className="input-field flex-1"
-                        min="0"
-                        max="360"
-                      />
+                      {renderCoordinateInput('ra', 'min')}
+                      {renderCoordinateInput('ra', 'max')}
                     </div>
                   </div>
                   <div>
                     <label className="block text-sm text-starlight-400 mb-2">
-                      Declination (Dec) - degrees
+                      Declination (Dec) - degrees or {`-23°22'53"`}
                     </label>
                     <div className="flex space-x-2">
+                      {renderCoordinateInput('dec', 'min')}
+                      {renderCoordinateInput('dec', 'max')}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="flex items-center space-x-2 text-sm text-starlight-400 mb-2">
                       <input
-                        type="number"
-                        placeholder="Min"
-                        value={filter.coordinates.dec.min}
-                        onChange={(e) => handleCoordinateChange('dec', 'min', parseFloat(e.target.value) || -90)}
-                        className="input-field flex-1"
-                        min="-90"
-                        max="90"
-                      />
-                      <input
-                        type="number"
-                        placeholder="Max"
-                        value={filter.coordinates.dec.max}
-                        onChange={(e) => handleCoordinateChange('dec', 'max', parseFloat(e.target.value) || 90)}
-                        className="input-field flex-1"
-                        min="-90"
-                        max="90"
+                        type="checkbox"
+                        checked={coneEnabled}
+                        onChange={(e) => {
+                          setConeEnabled(e.target.checked);
+                          handleConeChange(e.target.checked, coneCenterText, coneRadius);
+                        }}
+                        className="rounded border-starlight-600 bg-starlight-900 text-cosmic-500 focus:ring-cosmic-500 focus:ring-offset-0"
                       />
-                    </div>
+                      <span>Cone search - center and radius (deg)</span>
+                    </label>
+                    {coneEnabled && (
+                      <>
+                        <div className="flex space-x-2">
+                          <input
+                            type="text"
+                            placeholder={`13h09m48s -23°22'53" or 197.45 -23.38`}
+                            value={coneCenterText}
+                            onChange={(e) => setConeCenterText(e.target.value)}
+                            onBlur={() => handleConeChange(true, coneCenterText, coneRadius)}
+                            className={`input-field flex-[2] ${coneCenterInvalid ? 'border-red-500' : ''}`}
+                          />
+                          <input
+                            type="number"
+                            value={coneRadius}
+                            onChange={(e) => {
+                              const radius = parseFloat(e.target.value) || 0;
+                              setConeRadius(radius);
+                              handleConeChange(true, coneCenterText, radius);
+                            }}
+                            className="input-field flex-1"
+                            min="0.01"
+                            max="180"
+                            step="0.1"
+                          />
+                        </div>
+                        <p className={`text-xs mt-1 font-mono ${coneCenterInvalid ? 'text-red-400' : 'text-starlight-500'}`}>
+                          {coneCenterInvalid
+                            ? 'Enter a center like 13h09m48s -23°22\'53" and a radius up to 180°'
+                            : filter.cone
+                              ? `${filter.cone.ra.toFixed(4)}°, ${filter.cone.dec.toFixed(4)}° within ${filter.cone.radiusDeg}°`
+                              : 'Enter the cone center'}
+                        </p>
+                      </>
+                    )}
+                  </div>
+                  <div>
+                    <label className="block text-sm text-starlight-400 mb-2">
+                      Min |Galactic latitude| (deg) - 0 keeps the Galactic plane
+                    </label>
+                    <input
+                      type="number"
+                      value={filter.minAbsGalacticLatitude ?? 0}
+                      onChange={(e) => {
+                        const value = parseFloat(e.target.value);
+                        setFilter({
+                          ...filter,
+                          minAbsGalacticLatitude: value > 0 ? Math.min(value, 90) : undefined
+                        });
+                      }}
+                      className="input-field"
+                      min="0"
+                      max="90"
+                      step="1"
+                    />
                   </div>
                 </div>
               </div>
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Upload, X, FileText, Loader2, CheckCircle } from 'lucide-react';
+import type { TnsImportResult, TnsRowStatus } from '@/lib/tns-import';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (result: TnsImportResult) => void;
+}
+
+const STATUS_STYLES: Record<TnsRowStatus, string> = {
+  created: 'text-green-400',
+  updated: 'text-cosmic-300',
+  rejected: 'text-red-400'
+};
+
+export default function ImportModal({ isOpen, onClose, onImported }: ImportModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [correlate, setCorrelate] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<TnsImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    handleFileChange(null);
+    if (inputRef.current) inputRef.current.value = '';
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const format = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const params = new URLSearchParams({ format });
+      if (!correlate) params.set('correlate', 'false');
+
+      const response = await fetch(`/api/events/import?${params}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': format === 'json' ? 'application/json' : 'text/csv',
+        },
+        body: await file.text(),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      setResult(data);
+      onImported(data);
+    } catch (error: any) {
+      setError(error.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={handleClose}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="glass-strong rounded-2xl p-8 w-full max-w-2xl relative max-h-[90vh] overflow-y-auto"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <Upload className="w-6 h-6 text-cosmic-400" />
+              <h2 className="font-display text-2xl font-bold text-starlight-50">
+                Import Transients
+              </h2>
+            </div>
+            <button
+              onClick={handleClose}
+              className="text-starlight-400 hover:text-starlight-300"
+            >
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+
+          {/* Error Message */}
+          {error && (
+            <motion.div
+              initial={{ opacity: 0, y: -10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="bg-red-500/10 border border-red-500/30 rounded-lg p-4 mb-6"
+            >
+              <p className="text-red-400">{error}</p>
+            </motion.div>
+          )}
+
+          {/* File Selection */}
+          <div className="mb-6">
+            <h3 className="font-semibold text-starlight-200 mb-3">TNS Export</h3>
+            <label className="flex items-center space-x-3 p-4 rounded-lg border border-dashed border-starlight-700 bg-starlight-900/30 text-starlight-400 hover:border-starlight-600 cursor-pointer">
+              <FileText className="w-5 h-5" />
+              <span className="truncate">
+                {file ? file.name : 'Choose a CSV or JSON file from a TNS search'}
+              </span>
+              <input
+                ref={inputRef}
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              />
+            </label>
+          </div>
+
+          {/* Options */}
+          <div className="mb-6">
+            <label className="flex items-center space-x-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={correlate}
+                onChange={(e) => setCorrelate(e.target.checked)}
+                className="rounded border-starlight-600 bg-starlight-900 text-cosmic-500 focus:ring-cosmic-500 focus:ring-offset-0"
+              />
+              <span className="text-starlight-300">Correlate new events with the catalog</span>
+            </label>
+          </div>
+
+          {/* Results */}
+          {result && (
+            <div className="mb-6">
+              <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4 mb-4 flex items-center space-x-3">
+                <CheckCircle className="w-5 h-5 text-green-400" />
+                <p className="text-green-300">
+                  {result.summary.created} created, {result.summary.updated} updated, {result.summary.rejected} rejected
+                </p>
+              </div>
+              <div className="bg-starlight-900/30 rounded-lg max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-starlight-400 text-left">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.rows.map(row => (
+                      <tr key={row.row} className="border-t border-starlight-800">
+                        <td className="px-3 py-2 text-starlight-400">{row.row}</td>
+                        <td className="px-3 py-2 text-starlight-300">{row.name ?? '—'}</td>
+                        <td className={`px-3 py-2 ${STATUS_STYLES[row.status]}`}>
+                          {row.status}
+                          {row.reason && <span className="block text-xs text-starlight-400">{row.reason}</span>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex space-x-3">
+            <motion.button
+              onClick={handleClose}
+              disabled={loading}
+              className="flex-1 btn-secondary justify-center"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {result ? 'Close' : 'Cancel'}
+            </motion.button>
+            <motion.button
+              onClick={handleImport}
+              disabled={loading || !file}
+              className="flex-1 btn-primary justify-center"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              {loading ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import
+                </>
+              )}
+            </motion.button>
+          </div>
+
+          {/* Help Text */}
+          <p className="text-xs text-starlight-400 text-center mt-4">
+            Rows are matched on their TNS designation: known objects are updated, new ones are added as optical transients.
+          </p>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
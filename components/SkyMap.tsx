@@ -3,6 +3,7 @@
 import React, { useEffect, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
 import { AstroEvent } from '@/lib/supabase';
+import { SkyCoordinates } from '@/lib/coordinates';
 
 // Dynamically import Plot to avoid SSR issues
 const Plot = dynamic(() => import('react-plotly.js'), {
@@ -72,13 +73,15 @@ const SkyMap: React.FC<SkyMapProps> = ({ events, correlatedPairs = [], onEventCl
         width: 2
       }
     },
-    text: typeEvents.map(e => 
-      `${e.event_id}<br>` +
-      `Type: ${e.event_type}<br>` +
-      `Time: ${new Date(e.time_utc).toISOString().slice(0, 19)}<br>` +
-      `RA: ${e.ra.toFixed(3)}°<br>` +
-      `Dec: ${e.dec.toFixed(3)}°`
-    ),
+    text: typeEvents.map(e => {
+      const galactic = SkyCoordinates.icrsToGalactic(e.ra, e.dec);
+      return `${e.event_id}<br>` +
+        `Type: ${e.event_type}<br>` +
+        `Time: ${new Date(e.time_utc).toISOString().slice(0, 19)}<br>` +
+        `RA: ${e.ra.toFixed(3)}° (${SkyCoordinates.formatRa(e.ra)})<br>` +
+        `Dec: ${e.dec.toFixed(3)}° (${SkyCoordinates.formatDec(e.dec)})<br>` +
+        `l, b: ${galactic.lon.toFixed(3)}°, ${galactic.lat.toFixed(3)}°`;
+    }),
     hovertemplate: '%{text}<extra></extra>',
     customdata: typeEvents
   }));
@@ -1,4 +1,8 @@
 // Astrophysical data fetching utilities
+import { GalaxyCatalog } from './galaxy-catalog';
+import { GwoscCatalog, HttpGetJson } from './gwosc-catalog';
+import { ZtfAlerts } from './ztf-alerts';
+
 export interface RawAstroEvent {
   event_id: string;
   source: string;
@@ -6,89 +10,41 @@ export interface RawAstroEvent {
   ra: number;
   dec: number;
   time_utc: string;
+  // Localization radius when the event has no better one
+  error_radius_deg?: number;
   metadata: any;
 }
 
+export interface ContextualObject {
+  name: string;
+  type: string;
+  ra: number;
+  dec: number;
+  // Luminosity distance and 1-sigma error (Mpc)
+  distance: number | null;
+  distance_error: number | null;
+  redshift: number | null;
+  // Apparent and absolute B-band magnitudes
+  magnitude: number | null;
+  absolute_magnitude: number | null;
+  separation_deg: number;
+}
+
 export class AstroDataFetcher {
-  // GWOSC - Gravitational Wave Open Science Center
-  static async fetchGravitationalWaves(startTime?: string, endTime?: string): Promise<RawAstroEvent[]> {
+  // GWOSC - Gravitational Wave Open Science Center event catalog (GWTC)
+  static async fetchGravitationalWaves(startTime?: string, endTime?: string, http?: HttpGetJson): Promise<RawAstroEvent[]> {
     try {
-      // Mock data for demo - in production, would call GWOSC API
-      const mockGWEvents: RawAstroEvent[] = [
-        {
-          event_id: 'GW150914',
-          source: 'LIGO-Virgo',
-          event_type: 'gravitational_wave',
-          ra: 197.45,
-          dec: -23.38,
-          time_utc: '2015-09-14T09:50:45.000Z',
-          metadata: {
-            mass1: 36,
-            mass2: 29,
-            distance: 410,
-            snr: 24,
-            false_alarm_rate: 5.1e-6
-          }
-        },
-        {
-          event_id: 'GW170817',
-          source: 'LIGO-Virgo',
-          event_type: 'gravitational_wave',
-          ra: 197.45,
-          dec: -23.38,
-          time_utc: '2017-08-17T12:41:04.000Z',
-          metadata: {
-            mass1: 1.46,
-            mass2: 1.27,
-            distance: 40,
-            snr: 32.4,
-            false_alarm_rate: 1e-25
-          }
-        }
-      ];
-      return mockGWEvents;
+      return await GwoscCatalog.fetchEvents({ startTime, endTime, http });
     } catch (error) {
       console.error('Error fetching gravitational wave data:', error);
       return [];
     }
   }
 
-  // ZTF/TNS - Zwicky Transient Facility / Transient Name Server
+  // ZTF - Zwicky Transient Facility alert packets (Avro) from ZTF_ALERT_DIR
   static async fetchOpticalTransients(startTime?: string, endTime?: string): Promise<RawAstroEvent[]> {
     try {
-      // Mock data for demo
-      const mockOpticalEvents: RawAstroEvent[] = [
-        {
-          event_id: 'AT2017gfo',
-          source: 'ZTF',
-          event_type: 'optical_transient',
-          ra: 197.45,
-          dec: -23.38,
-          time_utc: '2017-08-17T12:41:06.000Z',
-          metadata: {
-            magnitude: 17.5,
-            filter: 'g',
-            host_galaxy: 'NGC 4993',
-            classification: 'kilonova',
-            discovery_mag: 17.5
-          }
-        },
-        {
-          event_id: 'ZTF18abukavn',
-          source: 'ZTF',
-          event_type: 'optical_transient',
-          ra: 230.15,
-          dec: 41.23,
-          time_utc: '2018-06-17T05:41:04.000Z',
-          metadata: {
-            magnitude: 18.2,
-            filter: 'r',
-            classification: 'supernova',
-            discovery_mag: 18.2
-          }
-        }
-      ];
-      return mockOpticalEvents;
+      return await ZtfAlerts.loadDirectory({ startTime, endTime });
     } catch (error) {
       console.error('Error fetching optical transient data:', error);
       return [];
@@ -138,21 +94,23 @@ export class AstroDataFetcher {
     }
   }
 
-  // SIMBAD/Vizier - Contextual astronomical object data
-  static async fetchContextualObjects(ra: number, dec: number, radius: number = 1.0): Promise<any[]> {
+  // Galaxies around a position from the local galaxy catalog (GLADE-style
+  // CSV at GALAXY_CATALOG_PATH), nearest first
+  static async fetchContextualObjects(ra: number, dec: number, radius: number = 1.0): Promise<ContextualObject[]> {
     try {
-      // Mock contextual data
-      const mockObjects = [
-        {
-          name: 'NGC 4993',
-          type: 'galaxy',
-          ra: 197.45,
-          dec: -23.38,
-          distance: 40,
-          magnitude: 13.4
-        }
-      ];
-      return mockObjects;
+      const catalog = await GalaxyCatalog.loadDefault();
+      return catalog.coneSearch(ra, dec, radius).map(({ galaxy, separationDeg }) => ({
+        name: galaxy.name,
+        type: 'galaxy',
+        ra: galaxy.ra,
+        dec: galaxy.dec,
+        distance: galaxy.distanceMpc,
+        distance_error: galaxy.distanceErrorMpc,
+        redshift: galaxy.redshift,
+        magnitude: galaxy.magnitudeB,
+        absolute_magnitude: galaxy.absoluteMagnitudeB,
+        separation_deg: separationDeg
+      }));
     } catch (error) {
       console.error('Error fetching contextual objects:', error);
       return [];
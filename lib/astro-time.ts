@@ -0,0 +1,217 @@
+// Conversions between the time scales and formats used by our sources:
+// UTC (ISO strings in time_utc), GPS seconds (GWOSC), Fermi mission elapsed
+// time, TT, and Julian Date / Modified Julian Date (optical surveys).
+//
+// JavaScript Date counts UTC without leap seconds, so instants are carried
+// as UTC milliseconds and the leap-second table below supplies TAI - UTC
+// wherever elapsed (SI) seconds matter. A time inside a leap second
+// (23:59:60) has no Date representation and maps onto the following 00:00:00.
+
+export type TimeFormat = 'utc' | 'gps' | 'met' | 'jd' | 'mjd' | 'unix';
+
+export const TIME_FORMATS: TimeFormat[] = ['utc', 'gps', 'met', 'jd', 'mjd', 'unix'];
+
+// Event fields accepted at ingestion in place of an ISO time_utc
+const EVENT_TIME_FIELDS: Array<[string, TimeFormat]> = [
+  ['time_gps', 'gps'],
+  ['time_met', 'met'],
+  ['time_jd', 'jd'],
+  ['time_mjd', 'mjd']
+];
+
+export interface EventTime {
+  timeUtc: string;
+  format: TimeFormat;
+  value: string | number;
+}
+
+export interface TimeRepresentations {
+  utc: string;
+  gps: number;
+  // Fermi mission elapsed time
+  met: number;
+  // Terrestrial Time, as an ISO-style timestamp on the TT clock
+  tt: string;
+  // Julian Date and Modified Julian Date on the UTC scale
+  jd: number;
+  mjd: number;
+  taiMinusUtc: number;
+}
+
+// TAI - UTC in seconds from each UTC date on (IERS Bulletin C). Dates
+// before 1972 use the first entry.
+const LEAP_SECONDS: Array<[string, number]> = [
+  ['1972-01-01', 10], ['1972-07-01', 11], ['1973-01-01', 12], ['1974-01-01', 13],
+  ['1975-01-01', 14], ['1976-01-01', 15], ['1977-01-01', 16], ['1978-01-01', 17],
+  ['1979-01-01', 18], ['1980-01-01', 19], ['1981-07-01', 20], ['1982-07-01', 21],
+  ['1983-07-01', 22], ['1985-07-01', 23], ['1988-01-01', 24], ['1990-01-01', 25],
+  ['1991-01-01', 26], ['1992-07-01', 27], ['1993-07-01', 28], ['1994-07-01', 29],
+  ['1996-01-01', 30], ['1997-07-01', 31], ['1999-01-01', 32], ['2006-01-01', 33],
+  ['2009-01-01', 34], ['2012-07-01', 35], ['2015-07-01', 36], ['2017-01-01', 37]
+];
+
+const LEAP_TABLE = LEAP_SECONDS.map(([date, taiMinusUtc]) => ({
+  utcMs: Date.parse(`${date}T00:00:00Z`),
+  taiMinusUtc
+}));
+
+// GPS time counts SI seconds from 1980-01-06 00:00:00 UTC (so it runs a
+// constant 19 s behind TAI)
+const GPS_EPOCH_MS = Date.parse('1980-01-06T00:00:00Z');
+// Fermi MET counts SI seconds from 2001-01-01 00:00:00 UTC
+const MET_EPOCH_MS = Date.parse('2001-01-01T00:00:00Z');
+// TT - TAI
+const TT_MINUS_TAI = 32.184;
+
+const UNIX_EPOCH_JD = 2440587.5;
+const MJD_OFFSET = 2400000.5;
+const DAY_SECONDS = 86400;
+
+export class AstroTime {
+  // TAI - UTC at a UTC instant
+  static taiMinusUtc(utcMs: number): number {
+    let value = LEAP_TABLE[0].taiMinusUtc;
+    for (const entry of LEAP_TABLE) {
+      if (utcMs >= entry.utcMs) value = entry.taiMinusUtc;
+      else break;
+    }
+    return value;
+  }
+
+  // Seconds on the TAI clock since the Unix epoch, counting leap seconds
+  private static toTaiSeconds(utcMs: number): number {
+    return utcMs / 1000 + this.taiMinusUtc(utcMs);
+  }
+
+  // Inverse of toTaiSeconds. Each leap second's TAI start is where the new
+  // offset applies.
+  private static fromTaiSeconds(taiSeconds: number): number {
+    let offset = LEAP_TABLE[0].taiMinusUtc;
+    for (const entry of LEAP_TABLE) {
+      if (taiSeconds >= entry.utcMs / 1000 + entry.taiMinusUtc) offset = entry.taiMinusUtc;
+      else break;
+    }
+    return (taiSeconds - offset) * 1000;
+  }
+
+  private static readonly GPS_EPOCH_TAI = AstroTime.toTaiSeconds(GPS_EPOCH_MS);
+  private static readonly MET_EPOCH_TAI = AstroTime.toTaiSeconds(MET_EPOCH_MS);
+
+  static utcToGps(utcMs: number): number {
+    return this.toTaiSeconds(utcMs) - this.GPS_EPOCH_TAI;
+  }
+
+  static gpsToUtc(gpsSeconds: number): number {
+    return this.fromTaiSeconds(gpsSeconds + this.GPS_EPOCH_TAI);
+  }
+
+  static utcToMet(utcMs: number): number {
+    return this.toTaiSeconds(utcMs) - this.MET_EPOCH_TAI;
+  }
+
+  static metToUtc(metSeconds: number): number {
+    return this.fromTaiSeconds(metSeconds + this.MET_EPOCH_TAI);
+  }
+
+  static utcToJd(utcMs: number): number {
+    return utcMs / 1000 / DAY_SECONDS + UNIX_EPOCH_JD;
+  }
+
+  static jdToUtc(jd: number): number {
+    return (jd - UNIX_EPOCH_JD) * DAY_SECONDS * 1000;
+  }
+
+  static utcToMjd(utcMs: number): number {
+    return this.utcToJd(utcMs) - MJD_OFFSET;
+  }
+
+  static mjdToUtc(mjd: number): number {
+    return this.jdToUtc(mjd + MJD_OFFSET);
+  }
+
+  // TT reading at a UTC instant, as milliseconds on the TT clock
+  static utcToTt(utcMs: number): number {
+    return utcMs + (this.taiMinusUtc(utcMs) + TT_MINUS_TAI) * 1000;
+  }
+
+  // Elapsed SI seconds from time1 to time2 (ISO UTC strings), including any
+  // leap seconds in between
+  static differenceSeconds(time1: string, time2: string): number {
+    const ms1 = new Date(time1).getTime();
+    const ms2 = new Date(time2).getTime();
+    return this.toTaiSeconds(ms2) - this.toTaiSeconds(ms1);
+  }
+
+  // UTC milliseconds for a value in any supported format. Numeric strings
+  // are accepted for the numeric formats; NaN means unparseable.
+  static toUtcMs(value: string | number, format: TimeFormat = 'utc'): number {
+    if (format === 'utc') {
+      if (typeof value !== 'string' || !value.trim()) return NaN;
+      // ISO strings without a zone are UTC here, not local time
+      const hasZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(value.trim());
+      const isDateTime = /^\d{4}-\d{2}-\d{2}T/.test(value.trim());
+      return Date.parse(isDateTime && !hasZone ? `${value.trim()}Z` : value);
+    }
+
+    const number = typeof value === 'number' ? value : Number(value);
+    if (!Number.isFinite(number) || (typeof value === 'string' && !value.trim())) return NaN;
+
+    switch (format) {
+      case 'gps': return this.gpsToUtc(number);
+      case 'met': return this.metToUtc(number);
+      case 'jd': return this.jdToUtc(number);
+      case 'mjd': return this.mjdToUtc(number);
+      case 'unix': return number * 1000;
+    }
+  }
+
+  static toIso(value: string | number, format: TimeFormat = 'utc'): string | null {
+    const ms = this.toUtcMs(value, format);
+    return Number.isFinite(ms) ? new Date(ms).toISOString() : null;
+  }
+
+  // An ingested event's time: time_utc (ISO, or a number in time_format), or
+  // one of time_gps, time_met, time_jd, time_mjd. Null when none parses.
+  static resolveEventTime(event: any): EventTime | null {
+    if (event?.time_utc !== undefined && event.time_utc !== null && event.time_utc !== '') {
+      const format: TimeFormat = TIME_FORMATS.includes(event.time_format) ? event.time_format : 'utc';
+      const timeUtc = this.toIso(event.time_utc, format);
+      return timeUtc ? { timeUtc, format, value: event.time_utc } : null;
+    }
+
+    for (const [field, format] of EVENT_TIME_FIELDS) {
+      const value = event?.[field];
+      if (value === undefined || value === null || value === '') continue;
+      const timeUtc = this.toIso(value, format);
+      return timeUtc ? { timeUtc, format, value } : null;
+    }
+    return null;
+  }
+
+  // Flat columns for exports, keyed time_<format>
+  static timeColumns(timeUtc: string): Record<string, string | number | null> {
+    const times = this.representations(timeUtc);
+    return {
+      time_gps: times?.gps ?? null,
+      time_met: times?.met ?? null,
+      time_tt: times?.tt ?? null,
+      time_jd: times?.jd ?? null,
+      time_mjd: times?.mjd ?? null
+    };
+  }
+
+  // Every representation of a UTC timestamp
+  static representations(timeUtc: string): TimeRepresentations | null {
+    const ms = this.toUtcMs(timeUtc);
+    if (!Number.isFinite(ms)) return null;
+    return {
+      utc: new Date(ms).toISOString(),
+      gps: this.utcToGps(ms),
+      met: this.utcToMet(ms),
+      tt: new Date(this.utcToTt(ms)).toISOString().replace('Z', ' TT'),
+      jd: this.utcToJd(ms),
+      mjd: this.utcToMjd(ms),
+      taiMinusUtc: this.taiMinusUtc(ms)
+    };
+  }
+}
@@ -168,7 +168,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             email: result.data.user.email,
             full_name: fullName,
             role: 'researcher'
-          } as any);
+          });
         } catch (profileError) {
           console.log('Profile creation failed (expected in demo mode):', profileError);
           // Continue anyway - the user was created successfully
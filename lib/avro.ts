@@ -0,0 +1,240 @@
+import { inflateRawSync } from 'zlib';
+
+// Reads Apache Avro object container files (Avro 1.x specification): the
+// header with the writer's schema and codec, then blocks of records in the
+// binary encoding. Supports the null and deflate codecs and every schema
+// type except the ones only a reader schema needs (no schema resolution).
+// Records decode to plain objects, bytes and fixed to Buffers, and longs to
+// numbers, or to decimal strings beyond Number.MAX_SAFE_INTEGER. Floats
+// decode to the shortest decimal that reads back as the same float32.
+
+export type AvroSchema = string | AvroSchema[] | { type: string; [key: string]: any };
+
+export interface AvroContainer {
+  schema: AvroSchema;
+  codec: string;
+  // Other header metadata (e.g. written by the producer)
+  metadata: Record<string, Buffer>;
+  records: unknown[];
+}
+
+const MAGIC = Buffer.from([0x4f, 0x62, 0x6a, 0x01]); // "Obj" 1
+const SYNC_SIZE = 16;
+
+const PRIMITIVES = ['null', 'boolean', 'int', 'long', 'float', 'double', 'bytes', 'string'];
+
+function shortestFloat(value: number): number {
+  if (!Number.isFinite(value)) return value;
+  for (let digits = 1; digits < 9; digits++) {
+    const candidate = Number(value.toPrecision(digits));
+    if (Math.fround(candidate) === value) return candidate;
+  }
+  return value;
+}
+
+class AvroCursor {
+  position = 0;
+
+  constructor(readonly buffer: Buffer) {}
+
+  get done(): boolean {
+    return this.position >= this.buffer.length;
+  }
+
+  take(size: number): Buffer {
+    if (size < 0 || this.position + size > this.buffer.length) {
+      throw new Error(`Avro data ends early at byte ${this.position}`);
+    }
+    const slice = this.buffer.subarray(this.position, this.position + size);
+    this.position += size;
+    return slice;
+  }
+
+  byte(): number {
+    return this.take(1)[0];
+  }
+
+  // Zig-zag variable-length integer
+  long(): number | string {
+    const bytes: number[] = [];
+    let raw = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      bytes.push(b);
+      raw += (b & 0x7f) * scale;
+      scale *= 128;
+      if ((b & 0x80) === 0) break;
+      if (bytes.length > 10) throw new Error(`Malformed Avro long at byte ${this.position}`);
+    }
+    if (raw <= Number.MAX_SAFE_INTEGER) {
+      return raw % 2 === 0 ? raw / 2 : -(raw + 1) / 2;
+    }
+
+    // Too large for a double: redo it exactly
+    let big = BigInt(0);
+    bytes.forEach((b, i) => { big += BigInt(b & 0x7f) << BigInt(7 * i); });
+    const one = BigInt(1);
+    const value = (big & one) === one ? -((big + one) >> one) : big >> one;
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+      ? Number(value)
+      : value.toString();
+  }
+
+  // A long used as a count or size
+  length(): number {
+    const value = this.long();
+    if (typeof value !== 'number') throw new Error(`Avro length out of range at byte ${this.position}`);
+    return value;
+  }
+
+  bytes(): Buffer {
+    return this.take(this.length());
+  }
+}
+
+// Named types by full name, and by short name for references within the
+// same namespace
+type NamedTypes = Map<string, any>;
+
+function fullName(name: string, namespace: string | undefined): string {
+  return name.includes('.') || !namespace ? name : `${namespace}.${name}`;
+}
+
+function registerNames(schema: AvroSchema, namespace: string | undefined, names: NamedTypes): void {
+  if (Array.isArray(schema)) {
+    schema.forEach(branch => registerNames(branch, namespace, names));
+    return;
+  }
+  if (typeof schema !== 'object' || schema === null) return;
+
+  const { type } = schema;
+  if ((type === 'record' || type === 'error' || type === 'enum' || type === 'fixed') && schema.name) {
+    const name = fullName(schema.name, schema.namespace ?? namespace);
+    names.set(name, schema);
+    if (!names.has(schema.name)) names.set(schema.name, schema);
+    const inner = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : undefined;
+    if (type === 'record' || type === 'error') {
+      (schema.fields || []).forEach((field: any) => registerNames(field.type, inner, names));
+    }
+    return;
+  }
+  if (type === 'array') registerNames(schema.items, namespace, names);
+  else if (type === 'map') registerNames(schema.values, namespace, names);
+  else if (typeof type === 'object') registerNames(type, namespace, names);
+}
+
+function decode(schema: AvroSchema, cursor: AvroCursor, names: NamedTypes): unknown {
+  if (Array.isArray(schema)) {
+    const branch = cursor.length();
+    if (branch < 0 || branch >= schema.length) throw new Error(`Avro union branch ${branch} out of range`);
+    return decode(schema[branch], cursor, names);
+  }
+
+  if (typeof schema === 'string') {
+    switch (schema) {
+      case 'null': return null;
+      case 'boolean': return cursor.byte() !== 0;
+      case 'int':
+      case 'long': return cursor.long();
+      case 'float': return shortestFloat(cursor.take(4).readFloatLE(0));
+      case 'double': return cursor.take(8).readDoubleLE(0);
+      case 'bytes': return Buffer.from(cursor.bytes());
+      case 'string': return cursor.bytes().toString('utf8');
+      default: {
+        const named = names.get(schema);
+        if (!named) throw new Error(`Unknown Avro type "${schema}"`);
+        return decode(named, cursor, names);
+      }
+    }
+  }
+
+  const { type } = schema;
+  if (typeof type !== 'string' || PRIMITIVES.includes(type)) {
+    // { "type": "long", "logicalType": ... } and nested { "type": {...} }
+    return decode(type as AvroSchema, cursor, names);
+  }
+
+  switch (type) {
+    case 'record':
+    case 'error': {
+      const record: Record<string, unknown> = {};
+      for (const field of schema.fields || []) record[field.name] = decode(field.type, cursor, names);
+      return record;
+    }
+    case 'enum': {
+      const index = cursor.length();
+      const symbol = schema.symbols?.[index];
+      if (symbol === undefined) throw new Error(`Avro enum index ${index} out of range for ${schema.name}`);
+      return symbol;
+    }
+    case 'fixed':
+      return Buffer.from(cursor.take(schema.size));
+    case 'array': {
+      const items: unknown[] = [];
+      for (let count = blockCount(cursor); count > 0; count = blockCount(cursor)) {
+        for (let i = 0; i < count; i++) items.push(decode(schema.items, cursor, names));
+      }
+      return items;
+    }
+    case 'map': {
+      const map: Record<string, unknown> = {};
+      for (let count = blockCount(cursor); count > 0; count = blockCount(cursor)) {
+        for (let i = 0; i < count; i++) {
+          const key = cursor.bytes().toString('utf8');
+          map[key] = decode(schema.values, cursor, names);
+        }
+      }
+      return map;
+    }
+    default:
+      return decode(type, cursor, names);
+  }
+}
+
+// Item count of the next array or map block. A negative count is followed
+// by the block's size in bytes, which is not needed here.
+function blockCount(cursor: AvroCursor): number {
+  const count = cursor.length();
+  if (count >= 0) return count;
+  cursor.length();
+  return -count;
+}
+
+export class AvroReader {
+  // Decode a whole object container file
+  static readContainer(buffer: Buffer): AvroContainer {
+    if (buffer.length < MAGIC.length || !buffer.subarray(0, MAGIC.length).equals(MAGIC)) {
+      throw new Error('Not an Avro object container file');
+    }
+    const cursor = new AvroCursor(buffer);
+    cursor.position = MAGIC.length;
+
+    const metadata = decode({ type: 'map', values: 'bytes' }, cursor, new Map()) as Record<string, Buffer>;
+    const schemaJson = metadata['avro.schema'];
+    if (!schemaJson) throw new Error('Avro file has no avro.schema');
+    const schema = JSON.parse(schemaJson.toString('utf8')) as AvroSchema;
+    const codec = metadata['avro.codec']?.toString('utf8') || 'null';
+    if (codec !== 'null' && codec !== 'deflate') {
+      throw new Error(`Unsupported Avro codec "${codec}"; supported: null, deflate`);
+    }
+    const sync = cursor.take(SYNC_SIZE);
+
+    const names: NamedTypes = new Map();
+    registerNames(schema, undefined, names);
+
+    const records: unknown[] = [];
+    while (!cursor.done) {
+      const count = cursor.length();
+      const block = cursor.bytes();
+      if (!cursor.take(SYNC_SIZE).equals(sync)) throw new Error(`Avro sync marker mismatch at byte ${cursor.position}`);
+
+      const data = new AvroCursor(codec === 'deflate' ? inflateRawSync(block) : block);
+      for (let i = 0; i < count; i++) records.push(decode(schema, data, names));
+    }
+
+    const rest: Record<string, Buffer> = {};
+    Object.keys(metadata).filter(key => !key.startsWith('avro.')).forEach(key => { rest[key] = metadata[key]; });
+    return { schema, codec, metadata: rest, records };
+  }
+}
@@ -0,0 +1,265 @@
+// Conversions between the sky frames our sources and users work in:
+// equatorial ICRS/J2000 (the ra and dec stored on every event), Galactic and
+// ecliptic coordinates, plus sexagesimal notation such as
+// 13h09m48.08s -23°22'53.3".
+//
+// ICRS and FK5 J2000 differ by less than 0.1 arcsec, well below any error
+// radius we handle, so they are treated as one frame.
+
+export type CoordinateFrame = 'icrs' | 'galactic' | 'ecliptic';
+
+// Longitude and latitude in degrees within a frame: RA/Dec for ICRS, l/b for
+// Galactic, λ/β for ecliptic
+export interface SphericalCoordinates {
+  lon: number;
+  lat: number;
+}
+
+export interface CoordinateRepresentations {
+  ra: number;
+  dec: number;
+  raHms: string;
+  decDms: string;
+  galactic: SphericalCoordinates;
+  ecliptic: SphericalCoordinates;
+}
+
+// Rotation from ICRS to Galactic coordinates (Hipparcos, ESA 1997, vol. 1
+// section 1.5.3)
+const ICRS_TO_GALACTIC: number[][] = [
+  [-0.0548755604162154, -0.8734370902348850, -0.4838350155487132],
+  [0.4941094278755837, -0.4448296299600112, 0.7469822444972189],
+  [-0.8676661490190047, -0.1980763734312015, 0.4559837761750669]
+];
+
+// Mean obliquity of the ecliptic at J2000 (IAU 1980)
+const OBLIQUITY_J2000_DEG = 23.4392911;
+
+const toRad = Math.PI / 180;
+
+// Separators accepted between sexagesimal fields
+const FIELD_SEPARATORS = /[hHdDmMsS°:'′"″\s]+/;
+
+function toVector(lon: number, lat: number): number[] {
+  const cosLat = Math.cos(lat * toRad);
+  return [cosLat * Math.cos(lon * toRad), cosLat * Math.sin(lon * toRad), Math.sin(lat * toRad)];
+}
+
+function fromVector([x, y, z]: number[]): SphericalCoordinates {
+  const lon = Math.atan2(y, x) / toRad;
+  const lat = Math.atan2(z, Math.hypot(x, y)) / toRad;
+  return { lon: (lon + 360) % 360, lat };
+}
+
+function rotate(matrix: number[][], vector: number[]): number[] {
+  return matrix.map(row => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2]);
+}
+
+function transpose(matrix: number[][]): number[][] {
+  return matrix[0].map((_, i) => matrix.map(row => row[i]));
+}
+
+// Rotation about the x axis (the equinox direction) from equatorial to
+// ecliptic coordinates
+function eclipticMatrix(): number[][] {
+  const cos = Math.cos(OBLIQUITY_J2000_DEG * toRad);
+  const sin = Math.sin(OBLIQUITY_J2000_DEG * toRad);
+  return [
+    [1, 0, 0],
+    [0, cos, sin],
+    [0, -sin, cos]
+  ];
+}
+
+const GALACTIC_TO_ICRS = transpose(ICRS_TO_GALACTIC);
+const ICRS_TO_ECLIPTIC = eclipticMatrix();
+const ECLIPTIC_TO_ICRS = transpose(ICRS_TO_ECLIPTIC);
+
+// Unicode minus signs and primes are normalized before parsing
+function normalizeNotation(value: string): string {
+  return value
+    .trim()
+    .replace(/[−–]/g, '-')
+    .replace(/[′’]/g, "'")
+    .replace(/[″”]/g, '"')
+    .replace(/''/g, '"');
+}
+
+// Split "12 34 56.7" or "12h34m56.7s" into numeric fields; null when any
+// field is not a plain unsigned number or there are more than three
+function sexagesimalFields(value: string): number[] | null {
+  const parts = value.split(FIELD_SEPARATORS).filter(Boolean);
+  if (parts.length === 0 || parts.length > 3) return null;
+  if (!parts.every(p => /^\d+(\.\d*)?$|^\.\d+$/.test(p))) return null;
+  const fields = parts.map(Number);
+  // Only the last field may carry a fraction, and minutes and seconds stay below 60
+  if (fields.slice(0, -1).some(f => !Number.isInteger(f))) return null;
+  if (fields.slice(1).some(f => f >= 60)) return null;
+  return fields;
+}
+
+function combineFields(fields: number[]): number {
+  return fields[0] + (fields[1] ?? 0) / 60 + (fields[2] ?? 0) / 3600;
+}
+
+// Split a total into whole units and a rounded last field, carrying so that
+// e.g. 59.995 s at two decimals becomes the next minute
+function splitSexagesimal(value: number, decimals: number): [number, number, number] {
+  const scale = Math.pow(10, decimals);
+  const total = Math.round(value * 3600 * scale);
+  const units = Math.floor(total / (3600 * scale));
+  const minutes = Math.floor((total - units * 3600 * scale) / (60 * scale));
+  const seconds = (total - units * 3600 * scale - minutes * 60 * scale) / scale;
+  return [units, minutes, seconds];
+}
+
+function pad(value: number, decimals: number = 0): string {
+  const text = value.toFixed(decimals);
+  const width = decimals > 0 ? decimals + 3 : 2;
+  return text.padStart(width, '0');
+}
+
+export class SkyCoordinates {
+  static icrsToGalactic(ra: number, dec: number): SphericalCoordinates {
+    return fromVector(rotate(ICRS_TO_GALACTIC, toVector(ra, dec)));
+  }
+
+  static galacticToIcrs(l: number, b: number): { ra: number; dec: number } {
+    const { lon, lat } = fromVector(rotate(GALACTIC_TO_ICRS, toVector(l, b)));
+    return { ra: lon, dec: lat };
+  }
+
+  // Ecliptic coordinates on the mean J2000 ecliptic and equinox
+  static icrsToEcliptic(ra: number, dec: number): SphericalCoordinates {
+    return fromVector(rotate(ICRS_TO_ECLIPTIC, toVector(ra, dec)));
+  }
+
+  static eclipticToIcrs(lon: number, lat: number): { ra: number; dec: number } {
+    const result = fromVector(rotate(ECLIPTIC_TO_ICRS, toVector(lon, lat)));
+    return { ra: result.lon, dec: result.lat };
+  }
+
+  // Convert a position between any two frames
+  static convert(lon: number, lat: number, from: CoordinateFrame, to: CoordinateFrame): SphericalCoordinates {
+    if (from === to) return { lon, lat };
+    const icrs = from === 'galactic' ? this.galacticToIcrs(lon, lat)
+      : from === 'ecliptic' ? this.eclipticToIcrs(lon, lat)
+      : { ra: lon, dec: lat };
+    if (to === 'galactic') return this.icrsToGalactic(icrs.ra, icrs.dec);
+    if (to === 'ecliptic') return this.icrsToEcliptic(icrs.ra, icrs.dec);
+    return { lon: icrs.ra, lat: icrs.dec };
+  }
+
+  // Galactic latitude alone, for plane cuts
+  static galacticLatitude(ra: number, dec: number): number {
+    return this.icrsToGalactic(ra, dec).lat;
+  }
+
+  // RA in degrees from decimal degrees ("197.45"), hours with separators
+  // ("13h09m48.08s", "13:09:48.08", "13 09 48.08") or decimal hours
+  // ("13.163h"). NaN when unparseable or outside 0-360.
+  static parseRa(value: string): number {
+    const text = normalizeNotation(value);
+    if (!text) return NaN;
+
+    let degrees: number;
+    if (/^[+]?(\d+(\.\d*)?|\.\d+)\s*(°|d|deg)?$/i.test(text)) {
+      degrees = parseFloat(text.replace(/^\+/, ''));
+    } else if (/^[+]?(\d+(\.\d*)?|\.\d+)\s*h$/i.test(text)) {
+      degrees = parseFloat(text.replace(/^\+/, '')) * 15;
+    } else {
+      const fields = sexagesimalFields(text.replace(/^\+/, ''));
+      if (!fields || fields.length < 2) return NaN;
+      degrees = combineFields(fields) * 15;
+    }
+    return degrees >= 0 && degrees <= 360 ? degrees : NaN;
+  }
+
+  // Dec in degrees from decimal degrees ("-23.38") or degrees, arcminutes
+  // and arcseconds ("-23°22'53.3\"", "-23:22:53.3", "-23d22m53.3s"). NaN
+  // when unparseable or outside ±90.
+  static parseDec(value: string): number {
+    const text = normalizeNotation(value);
+    const sign = text.startsWith('-') ? -1 : 1;
+    const body = text.replace(/^[+-]\s*/, '');
+    if (!body) return NaN;
+
+    let degrees: number;
+    if (/^(\d+(\.\d*)?|\.\d+)\s*(°|d|deg)?$/i.test(body)) {
+      degrees = parseFloat(body);
+    } else {
+      const fields = sexagesimalFields(body);
+      if (!fields || fields.length < 2) return NaN;
+      degrees = combineFields(fields);
+    }
+    return degrees <= 90 ? sign * degrees : NaN;
+  }
+
+  // A full position such as "13h09m48.08s -23°22'53.3\"", "13:09:48.08
+  // -23:22:53.3", "197.45 -23.38" or "197.45, -23.38". Null when either
+  // half does not parse.
+  static parsePosition(value: string): { ra: number; dec: number } | null {
+    const text = normalizeNotation(value);
+
+    // A sign after the RA marks where the declination starts; without one,
+    // the fields are split evenly between the two
+    let raText: string;
+    let decText: string;
+    const signed = text.match(/^(.+?)[\s,]*([+-].*)$/);
+    if (signed) {
+      [raText, decText] = [signed[1], signed[2]];
+    } else {
+      const parts = text.split(/[\s,]+/).filter(Boolean);
+      if (parts.length % 2 !== 0) return null;
+      raText = parts.slice(0, parts.length / 2).join(' ');
+      decText = parts.slice(parts.length / 2).join(' ');
+    }
+
+    const ra = this.parseRa(raText.replace(/,$/, ''));
+    const dec = this.parseDec(decText);
+    return Number.isFinite(ra) && Number.isFinite(dec) ? { ra, dec } : null;
+  }
+
+  // RA as 13h09m48.08s
+  static formatRa(ra: number, decimals: number = 2): string {
+    const hours = (((ra % 360) + 360) % 360) / 15;
+    const [h, m, s] = splitSexagesimal(hours, decimals);
+    return `${pad(h % 24)}h${pad(m)}m${pad(s, decimals)}s`;
+  }
+
+  // Dec as -23°22'53.3"
+  static formatDec(dec: number, decimals: number = 1): string {
+    const [d, m, s] = splitSexagesimal(Math.abs(dec), decimals);
+    // Values that round to zero print as +00°00'00.0"
+    const sign = dec < 0 && d + m + s > 0 ? '-' : '+';
+    return `${sign}${pad(d)}°${pad(m)}'${pad(s, decimals)}"`;
+  }
+
+  // Every representation of an ICRS position
+  static representations(ra: number, dec: number): CoordinateRepresentations {
+    return {
+      ra,
+      dec,
+      raHms: this.formatRa(ra),
+      decDms: this.formatDec(dec),
+      galactic: this.icrsToGalactic(ra, dec),
+      ecliptic: this.icrsToEcliptic(ra, dec)
+    };
+  }
+
+  // Flat columns for exports
+  static coordinateColumns(ra: number, dec: number): Record<string, string | number | null> {
+    if (!Number.isFinite(ra) || !Number.isFinite(dec)) {
+      return { ra_hms: null, dec_dms: null, gal_l: null, gal_b: null, ecl_lon: null, ecl_lat: null };
+    }
+    const coordinates = this.representations(ra, dec);
+    return {
+      ra_hms: coordinates.raHms,
+      dec_dms: coordinates.decDms,
+      gal_l: coordinates.galactic.lon,
+      gal_b: coordinates.galactic.lat,
+      ecl_lon: coordinates.ecliptic.lon,
+      ecl_lat: coordinates.ecliptic.lat
+    };
+  }
+}
@@ -1,18 +1,145 @@
 import { AstroEvent } from './supabase';
+import { SkyGrid } from './sky-index';
+import { SignificanceCalculator } from './significance';
+import { classifyMessengers, MessengerClassification } from './messenger-taxonomy';
+import { DEFAULT_SCORER, linearConfidence, ScorerRegistry, timeProximity } from './scorers';
+import { DistanceConsistency } from './distance-consistency';
+import { SKYMAP_CREDIBLE_LEVEL } from './healpix';
+import { HostAssociation, HostAssociationResult } from './host-association';
+import { AstroTime } from './astro-time';
+import type { GalaxyCatalog } from './galaxy-catalog';
+
+// Allowed delay range for an ordered pair of event types. Delays are measured
+// as time(toType) - time(fromType), so negative values mean the toType event
+// arrived first.
+export interface PairTimeWindow {
+  fromType: string;
+  toType: string;
+  minSeconds: number;
+  maxSeconds: number;
+}
+
+export interface TimeWindow {
+  minSeconds: number;
+  maxSeconds: number;
+}
 
 export interface CorrelationParams {
   timeWindowSeconds: number;
   angularThresholdDeg: number;
   minConfidenceScore?: number;
+  // Ordered per-type-pair windows; pairs without a rule use ±timeWindowSeconds
+  pairTimeWindows?: PairTimeWindow[];
+  // Name of a scorer in ScorerRegistry (defaults to 'linear')
+  scoringMethod?: string;
+  // Background event rate per source (events per second), used for the FAP
+  sourceRates?: Record<string, number>;
+  // Prior odds of a common origin for the 'bayesian_odds' scorer
+  priorOdds?: number;
+  // Down-weight pairs whose distances (GW luminosity distance, host or
+  // transient distance) disagree beyond their uncertainties
+  distanceConsistency?: boolean;
+}
+
+// Where a pair's counterpart falls within the other event's skymap
+export interface SkymapLocalization {
+  // Id of the event whose skymap was evaluated
+  mapEventId: string;
+  // Smallest credible region containing the counterpart (0 at the peak)
+  credibleLevel: number;
+  // Normalised probability density at the counterpart, per steradian
+  probDensity: number;
+  // Solid angle of that credible region, in steradians
+  searchedAreaSr: number;
+}
+
+// How the final score of a pair was built up from its terms
+export interface ScoreBreakdown {
+  // Score from the selected scorer before any optional terms
+  baseScore: number;
+  // Multiplier from the distance-consistency term; null when a distance is unknown
+  distanceWeight: number | null;
+  distanceTensionSigma: number | null;
+  distancesMpc: [number, number] | null;
+  // finalScore - baseScore (zero or negative)
+  distanceContribution: number;
+  finalScore: number;
+}
+
+export interface PairSignificance {
+  // Probability that an unrelated event lands this close by chance
+  falseAlarmProbability: number;
+  // Two-sided Gaussian-equivalent significance of the FAP
+  significanceSigma: number;
+}
+
+const DAY_SECONDS = 86400;
+
+// Error radius given to events reported without a sky position: every
+// separation is within it, so they correlate on time alone
+export const UNLOCALIZED_ERROR_RADIUS_DEG = 180;
+
+// Beyond this error radius a sky-grid search covers most of the sky, so the
+// candidate search pairs such events by time alone
+const WIDE_SEARCH_RADIUS_DEG = 30;
+
+// Delay windows motivated by the physics of each messenger pair
+export const PHYSICAL_TIME_WINDOWS: PairTimeWindow[] = [
+  // Short GRBs follow the merger by ~1.7 s (GW170817 / GRB170817A)
+  { fromType: 'gravitational_wave', toType: 'gamma_ray_burst', minSeconds: -1, maxSeconds: 10 },
+  // Kilonovae and afterglows peak hours to days after the merger
+  { fromType: 'gravitational_wave', toType: 'optical_transient', minSeconds: -1, maxSeconds: 14 * DAY_SECONDS },
+  // Standard ±500 s search window for neutrinos around GW triggers
+  { fromType: 'gravitational_wave', toType: 'neutrino', minSeconds: -500, maxSeconds: 500 },
+  { fromType: 'gravitational_wave', toType: 'radio_burst', minSeconds: -10, maxSeconds: 14 * DAY_SECONDS },
+  { fromType: 'gamma_ray_burst', toType: 'optical_transient', minSeconds: -1, maxSeconds: 14 * DAY_SECONDS },
+  { fromType: 'gamma_ray_burst', toType: 'radio_burst', minSeconds: -10, maxSeconds: 14 * DAY_SECONDS },
+  // Precursor neutrinos can precede the burst
+  { fromType: 'neutrino', toType: 'gamma_ray_burst', minSeconds: -100, maxSeconds: 1000 },
+  { fromType: 'neutrino', toType: 'optical_transient', minSeconds: -1, maxSeconds: 14 * DAY_SECONDS }
+];
+
+export type ClusterMode = 'connected' | 'density';
+
+export interface ClusterOptions {
+  mode?: ClusterMode;
+  // Smallest cluster reported; in density mode also the DBSCAN minPts
+  minClusterSize?: number;
+}
+
+export interface EventCluster {
+  events: AstroEvent[];
+  pairs: EventPair[];
+  size: number;
+  memberTypes: string[];
+  // Classification by the full set of messengers in the cluster
+  classification: MessengerClassification;
+  startTime: string;
+  endTime: string;
+  timeSpanSeconds: number;
+  centroid: { ra: number; dec: number };
+  aggregateScore: number;
 }
 
 export interface EventPair {
   event1: AstroEvent;
   event2: AstroEvent;
+  // Signed: time(event2) - time(event1)
   timeDiffSeconds: number;
   angularSeparationDeg: number;
+  matchRadiusDeg: number;
   correlationType: string;
+  // Messenger classification of the whole cluster containing this pair
+  clusterType?: string;
   confidenceScore: number;
+  falseAlarmProbability?: number;
+  significanceSigma?: number;
+  // Credible level of the counterpart when one event has a skymap
+  skymapCredibleLevel?: number;
+  // Host galaxy candidates of the optical event in a GW-optical pair
+  hostAssociation?: HostAssociationResult;
+  // Present when optional score terms are enabled
+  scoreBreakdown?: ScoreBreakdown;
 }
 
 export class CorrelationEngine {
@@ -34,106 +161,536 @@ export class CorrelationEngine {
     return c / toRad; // Convert back to degrees
   }
 
+  // Calculate signed time difference (time2 - time1) in elapsed seconds,
+  // counting any leap seconds in between
+  static calculateSignedTimeDifference(time1: string, time2: string): number {
+    return AstroTime.differenceSeconds(time1, time2);
+  }
+
   // Calculate time difference in seconds
   static calculateTimeDifference(time1: string, time2: string): number {
-    const date1 = new Date(time1);
-    const date2 = new Date(time2);
-    return Math.abs(date2.getTime() - date1.getTime()) / 1000;
+    return Math.abs(this.calculateSignedTimeDifference(time1, time2));
+  }
+
+  // Resolve the delay window for a pair and orient the delay to match it.
+  // Falls back to the symmetric ±timeWindowSeconds window when no rule applies.
+  static getPairTimeWindow(
+    event1: AstroEvent,
+    event2: AstroEvent,
+    signedDiffSeconds: number,
+    params: CorrelationParams
+  ): { window: TimeWindow; delaySeconds: number } {
+    const rules = params.pairTimeWindows || [];
+
+    const forward = rules.find(r => r.fromType === event1.event_type && r.toType === event2.event_type);
+    if (forward) {
+      // Same-type rules have no natural order, so accept either orientation
+      const fits = signedDiffSeconds >= forward.minSeconds && signedDiffSeconds <= forward.maxSeconds;
+      const delaySeconds = event1.event_type === event2.event_type && !fits ? -signedDiffSeconds : signedDiffSeconds;
+      return { window: forward, delaySeconds };
+    }
+
+    const backward = rules.find(r => r.fromType === event2.event_type && r.toType === event1.event_type);
+    if (backward) {
+      return { window: backward, delaySeconds: -signedDiffSeconds };
+    }
+
+    return {
+      window: { minSeconds: -params.timeWindowSeconds, maxSeconds: params.timeWindowSeconds },
+      delaySeconds: signedDiffSeconds
+    };
+  }
+
+  // Largest |delay| any pair can have under the configured windows
+  static getMaxTimeWindowSeconds(params: CorrelationParams): number {
+    return (params.pairTimeWindows || []).reduce(
+      (max, r) => Math.max(max, Math.abs(r.minSeconds), Math.abs(r.maxSeconds)),
+      params.timeWindowSeconds
+    );
+  }
+
+  // Score how close a delay sits to zero relative to its side of the window
+  static calculateTimeScore(delaySeconds: number, window: TimeWindow): number {
+    return timeProximity(delaySeconds, window);
+  }
+
+  // Localization error radius of an event, or null when none is recorded.
+  // For events with a skymap this covers the whole 90% credible region.
+  static getErrorRadius(event: AstroEvent): number | null {
+    const stated = event.error_radius_deg === null || event.error_radius_deg === undefined
+      ? NaN
+      : Number(event.error_radius_deg);
+    const radius = Number.isFinite(stated) && stated > 0 ? stated : null;
+
+    if (!event.skymap) return radius;
+    return Math.max(radius ?? 0, event.skymap.regionRadiusDeg(event.ra, event.dec)) || radius;
+  }
+
+  // Evaluate the skymap of one event at the position of the other. When both
+  // have skymaps the better localized one (smaller 90% area) is used.
+  static getSkymapLocalization(event1: AstroEvent, event2: AstroEvent): SkymapLocalization | null {
+    let mapEvent = event1.skymap ? event1 : event2.skymap ? event2 : null;
+    if (!mapEvent) return null;
+    if (event1.skymap && event2.skymap &&
+        event2.skymap.credibleArea(SKYMAP_CREDIBLE_LEVEL) < event1.skymap.credibleArea(SKYMAP_CREDIBLE_LEVEL)) {
+      mapEvent = event2;
+    }
+
+    const skymap = mapEvent.skymap!;
+    const counterpart = mapEvent === event1 ? event2 : event1;
+    const credibleLevel = skymap.credibleLevelAt(counterpart.ra, counterpart.dec);
+
+    return {
+      mapEventId: mapEvent.id,
+      credibleLevel,
+      probDensity: skymap.probDensityAt(counterpart.ra, counterpart.dec),
+      searchedAreaSr: skymap.credibleArea(credibleLevel)
+    };
+  }
+
+  // Angular distance within which two events are spatially consistent: their
+  // error circles must overlap (an event without a radius counts as a point).
+  // The fixed angular threshold only applies when neither event has a radius.
+  static getMatchRadius(event1: AstroEvent, event2: AstroEvent, params: CorrelationParams): number {
+    const radius1 = this.getErrorRadius(event1);
+    const radius2 = this.getErrorRadius(event2);
+
+    if (radius1 === null && radius2 === null) {
+      return params.angularThresholdDeg;
+    }
+    return (radius1 ?? 0) + (radius2 ?? 0);
   }
 
   // Calculate confidence score based on time and spatial proximity
   static calculateConfidenceScore(
     timeDiffSeconds: number, 
     angularSepDeg: number, 
-    params: CorrelationParams
+    params: CorrelationParams,
+    matchRadiusDeg: number = params.angularThresholdDeg,
+    timeWindow: TimeWindow = { minSeconds: -params.timeWindowSeconds, maxSeconds: params.timeWindowSeconds }
   ): number {
-    const timeScore = Math.max(0, 1 - (timeDiffSeconds / params.timeWindowSeconds));
-    const spatialScore = Math.max(0, 1 - (angularSepDeg / params.angularThresholdDeg));
-    
-    // Weighted combination (time is more important for multi-messenger events)
-    return 0.7 * timeScore + 0.3 * spatialScore;
+    return linearConfidence(timeDiffSeconds, angularSepDeg, matchRadiusDeg, timeWindow);
   }
 
-  // Determine correlation type based on event types
+  // Chance-coincidence probability for a pair. Uses the rate of the busier of
+  // the two sources: the question is how often that stream alone would put an
+  // unrelated event inside the searched time window and sky cone.
+  static calculatePairSignificance(
+    event1: AstroEvent,
+    event2: AstroEvent,
+    window: TimeWindow,
+    matchRadiusDeg: number,
+    params: CorrelationParams,
+    skymap: SkymapLocalization | null = null
+  ): PairSignificance | null {
+    const rates = params.sourceRates;
+    const rate1 = rates?.[event1.source];
+    const rate2 = rates?.[event2.source];
+    if (rate1 === undefined || rate2 === undefined) return null;
+
+    // With a skymap the searched sky is the credible region reaching the
+    // counterpart rather than a cone
+    const expected = skymap
+      ? SignificanceCalculator.expectedChanceCoincidencesInArea(
+        Math.max(rate1, rate2),
+        window.maxSeconds - window.minSeconds,
+        skymap.searchedAreaSr
+      )
+      : SignificanceCalculator.expectedChanceCoincidences(
+        Math.max(rate1, rate2),
+        window.maxSeconds - window.minSeconds,
+        matchRadiusDeg
+      );
+    const falseAlarmProbability = SignificanceCalculator.falseAlarmProbability(expected);
+
+    return {
+      falseAlarmProbability,
+      significanceSigma: SignificanceCalculator.fapToSigma(falseAlarmProbability)
+    };
+  }
+
+  // Determine correlation type based on event types (e.g. 'gw_grb', 'same_type')
   static getCorrelationType(event1: AstroEvent, event2: AstroEvent): string {
-    const types = [event1.event_type, event2.event_type].sort();
-    
-    if (types.includes('gravitational_wave') && types.includes('gamma_ray_burst')) {
-      return 'gw_grb';
-    } else if (types.includes('gravitational_wave') && types.includes('optical_transient')) {
-      return 'gw_optical';
-    } else if (types.includes('gamma_ray_burst') && types.includes('optical_transient')) {
-      return 'grb_optical';
-    } else if (types.includes('gravitational_wave') && types.includes('gamma_ray_burst') && types.includes('optical_transient')) {
-      return 'multi_messenger';
-    } else {
-      return 'same_type';
+    return classifyMessengers([event1.event_type, event2.event_type]).code;
+  }
+
+  // Evaluate a single pair against the correlation criteria
+  static evaluatePair(event1: AstroEvent, event2: AstroEvent, params: CorrelationParams): EventPair | null {
+    // Duplicate reports of an object only count through their canonical report
+    if (event1.duplicate_of || event2.duplicate_of) return null;
+    // Retracted alerts are kept for the record but no longer correlate
+    if (event1.status === 'retracted' || event2.status === 'retracted') return null;
+
+    const timeDiff = this.calculateSignedTimeDifference(event1.time_utc, event2.time_utc);
+    const angularSep = this.calculateAngularSeparation(
+      event1.ra, event1.dec, event2.ra, event2.dec
+    );
+
+    const matchRadius = this.getMatchRadius(event1, event2, params);
+    const { window, delaySeconds } = this.getPairTimeWindow(event1, event2, timeDiff, params);
+
+    // An unparseable time gives a NaN delay, which every comparison lets through
+    if (!Number.isFinite(delaySeconds)) return null;
+    if (delaySeconds < window.minSeconds || delaySeconds > window.maxSeconds) return null;
+
+    // A skymap replaces the circular cut: the counterpart must lie inside
+    // the 90% credible region
+    const skymap = this.getSkymapLocalization(event1, event2);
+    const spatiallyConsistent = skymap
+      ? skymap.credibleLevel <= SKYMAP_CREDIBLE_LEVEL
+      : angularSep <= matchRadius;
+
+    // Check if events meet correlation criteria
+    if (spatiallyConsistent) {
+      const significance = this.calculatePairSignificance(event1, event2, window, matchRadius, params, skymap);
+      const baseScore = ScorerRegistry.get(params.scoringMethod || DEFAULT_SCORER).score({
+        event1,
+        event2,
+        delaySeconds,
+        timeWindow: window,
+        angularSeparationDeg: angularSep,
+        matchRadiusDeg: matchRadius,
+        errorRadiiDeg: [this.getErrorRadius(event1), this.getErrorRadius(event2)],
+        skymap,
+        significance,
+        params
+      });
+      const scoreBreakdown = params.distanceConsistency
+        ? this.applyDistanceConsistency(event1, event2, baseScore)
+        : undefined;
+      const confidenceScore = scoreBreakdown ? scoreBreakdown.finalScore : baseScore;
+
+      if (!params.minConfidenceScore || confidenceScore >= params.minConfidenceScore) {
+        return {
+          event1,
+          event2,
+          timeDiffSeconds: timeDiff,
+          angularSeparationDeg: angularSep,
+          matchRadiusDeg: matchRadius,
+          correlationType: this.getCorrelationType(event1, event2),
+          confidenceScore,
+          ...significance,
+          ...(skymap && { skymapCredibleLevel: skymap.credibleLevel }),
+          ...(scoreBreakdown && { scoreBreakdown })
+        };
+      }
     }
+
+    return null;
   }
 
-  // Main correlation function
-  static correlateEvents(events: AstroEvent[], params: CorrelationParams): EventPair[] {
+  // Scale a score by the distance-consistency weight of the pair
+  static applyDistanceConsistency(event1: AstroEvent, event2: AstroEvent, baseScore: number): ScoreBreakdown {
+    const comparison = DistanceConsistency.comparePair(event1, event2);
+    const finalScore = baseScore * (comparison?.weight ?? 1);
+
+    return {
+      baseScore,
+      distanceWeight: comparison ? comparison.weight : null,
+      distanceTensionSigma: comparison ? comparison.tensionSigma : null,
+      distancesMpc: comparison ? [comparison.distance1.distanceMpc, comparison.distance2.distanceMpc] : null,
+      distanceContribution: finalScore - baseScore,
+      finalScore
+    };
+  }
+
+  // Rank candidate host galaxies for the optical transient of every
+  // GW-optical pair
+  static associateHosts(correlations: EventPair[], catalog: GalaxyCatalog): EventPair[] {
+    for (const pair of correlations) {
+      const types = [pair.event1.event_type, pair.event2.event_type];
+      if (!types.includes('gravitational_wave') || !types.includes('optical_transient')) continue;
+
+      const [gwEvent, transient] = pair.event1.event_type === 'gravitational_wave'
+        ? [pair.event1, pair.event2]
+        : [pair.event2, pair.event1];
+      pair.hostAssociation = HostAssociation.associate(transient, gwEvent, catalog);
+    }
+    return correlations;
+  }
+
+  // Reference implementation comparing every event with every other event.
+  // Kept for verifying the indexed search and for benchmarking against it.
+  static correlateEventsBruteForce(events: AstroEvent[], params: CorrelationParams): EventPair[] {
     const correlations: EventPair[] = [];
 
     for (let i = 0; i < events.length; i++) {
       for (let j = i + 1; j < events.length; j++) {
-        const event1 = events[i];
-        const event2 = events[j];
-
-        const timeDiff = this.calculateTimeDifference(event1.time_utc, event2.time_utc);
-        const angularSep = this.calculateAngularSeparation(
-          event1.ra, event1.dec, event2.ra, event2.dec
-        );
-
-        // Check if events meet correlation criteria
-        if (timeDiff <= params.timeWindowSeconds && angularSep <= params.angularThresholdDeg) {
-          const confidenceScore = this.calculateConfidenceScore(timeDiff, angularSep, params);
-          
-          if (!params.minConfidenceScore || confidenceScore >= params.minConfidenceScore) {
-            correlations.push({
-              event1,
-              event2,
-              timeDiffSeconds: timeDiff,
-              angularSeparationDeg: angularSep,
-              correlationType: this.getCorrelationType(event1, event2),
-              confidenceScore
-            });
+        const pair = this.evaluatePair(events[i], events[j], params);
+        if (pair) correlations.push(pair);
+      }
+    }
+
+    // Sort by confidence score (highest first)
+    return correlations.sort((a, b) => b.confidenceScore - a.confidenceScore);
+  }
+
+  // Find index pairs [i, j] (i < j) that may satisfy the time and angular
+  // cuts, using a time-sorted sweep over declination-band sky grids.
+  //
+  // Events are grouped into radius classes that double in size, each with its
+  // own grid, so an event only searches a class out to its own radius plus
+  // the largest radius seen in that class. Events wider than
+  // WIDE_SEARCH_RADIUS_DEG match almost anything in the window, so they are
+  // kept out of the grids and paired by time alone.
+  static findCandidatePairs(events: AstroEvent[], params: CorrelationParams): Array<[number, number]> {
+    const times = events.map(e => new Date(e.time_utc).getTime());
+    // Events with unusable times or positions can never pass the exact test
+    const order = events
+      .map((_, i) => i)
+      .filter(i => Number.isFinite(times[i]) && Number.isFinite(events[i].ra) && Number.isFinite(events[i].dec))
+      .sort((a, b) => times[a] - times[b] || a - b);
+
+    // Pad the window by a millisecond so rounding never drops a boundary pair
+    const windowMs = this.getMaxTimeWindowSeconds(params) * 1000 + 1;
+    const candidates: Array<[number, number]> = [];
+
+    // An event without a radius matches within the fixed threshold of another
+    // point, so it counts as having that radius when bounding the search
+    const baseRadius = params.angularThresholdDeg;
+    const radii = events.map(e => this.getErrorRadius(e) ?? baseRadius);
+    const radiusClass = (radius: number) =>
+      radius <= baseRadius ? 0 : Math.ceil(Math.log2(radius / baseRadius));
+
+    const grids: Array<{ grid: SkyGrid<number>; maxRadius: number }> = [];
+    const wide: number[] = [];
+    let wideHead = 0;
+    // Position in order of the oldest event still inside the window
+    let windowStart = 0;
+
+    order.forEach((i, position) => {
+      const event = events[i];
+      const isExpired = (k: number) => times[i] - times[k] > windowMs;
+      while (isExpired(order[windowStart])) windowStart++;
+
+      if (radii[i] > WIDE_SEARCH_RADIUS_DEG) {
+        // Time only: every earlier event still in the window is a candidate
+        for (let n = windowStart; n < position; n++) {
+          const k = order[n];
+          candidates.push(k < i ? [k, i] : [i, k]);
+        }
+        wide.push(i);
+        return;
+      }
+
+      while (wideHead < wide.length && isExpired(wide[wideHead])) wideHead++;
+      for (let n = wideHead; n < wide.length; n++) {
+        const k = wide[n];
+        candidates.push(k < i ? [k, i] : [i, k]);
+      }
+
+      grids.forEach(({ grid, maxRadius }) => {
+        for (const bucket of grid.bucketsNear(event.ra, event.dec, radii[i] + maxRadius)) {
+          bucket.expire(isExpired);
+          for (let n = bucket.head; n < bucket.items.length; n++) {
+            const k = bucket.items[n];
+            candidates.push(k < i ? [k, i] : [i, k]);
           }
         }
+      });
+
+      const cls = radiusClass(radii[i]);
+      if (!grids[cls]) {
+        grids[cls] = { grid: new SkyGrid<number>(baseRadius * Math.pow(2, cls)), maxRadius: 0 };
       }
+      grids[cls].grid.insert(event.ra, event.dec, i);
+      grids[cls].maxRadius = Math.max(grids[cls].maxRadius, radii[i]);
+    });
+
+    // Match the brute-force visiting order so the final stable sort agrees
+    return candidates.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  }
+
+  // Main correlation function
+  static correlateEvents(events: AstroEvent[], params: CorrelationParams): EventPair[] {
+    // Out-of-range declinations break the grid geometry; keep them exact
+    if (events.some(e => Math.abs(e.dec) > 90)) {
+      return this.correlateEventsBruteForce(events, params);
+    }
+
+    const correlations: EventPair[] = [];
+
+    for (const [i, j] of this.findCandidatePairs(events, params)) {
+      const pair = this.evaluatePair(events[i], events[j], params);
+      if (pair) correlations.push(pair);
     }
 
     // Sort by confidence score (highest first)
     return correlations.sort((a, b) => b.confidenceScore - a.confidenceScore);
   }
 
-  // Find event clusters (groups of correlated events)
-  static findEventClusters(correlations: EventPair[]): AstroEvent[][] {
-    const clusters: AstroEvent[][] = [];
-    const processedEvents = new Set<string>();
-
-    for (const correlation of correlations) {
-      if (!processedEvents.has(correlation.event1.id) && !processedEvents.has(correlation.event2.id)) {
-        const cluster = [correlation.event1, correlation.event2];
-        processedEvents.add(correlation.event1.id);
-        processedEvents.add(correlation.event2.id);
-        
-        // Find other events that correlate with this cluster
-        for (const otherCorr of correlations) {
-          if (otherCorr !== correlation) {
-            if ((cluster.some(e => e.id === otherCorr.event1.id) && !processedEvents.has(otherCorr.event2.id)) ||
-                (cluster.some(e => e.id === otherCorr.event2.id) && !processedEvents.has(otherCorr.event1.id))) {
-              const newEvent = cluster.some(e => e.id === otherCorr.event1.id) ? otherCorr.event2 : otherCorr.event1;
-              cluster.push(newEvent);
-              processedEvents.add(newEvent.id);
-            }
+  // Find event clusters (groups of correlated events). 'connected' mode
+  // returns the connected components of the pair graph; 'density' mode is
+  // DBSCAN on that graph, where an event linked to at least
+  // minClusterSize - 1 others is a core point and unlinked noise is dropped.
+  // The result does not depend on the order of the pair list.
+  static findEventClusters(correlations: EventPair[], options: ClusterOptions = {}): EventCluster[] {
+    const mode = options.mode || 'connected';
+    const minClusterSize = Math.max(2, options.minClusterSize ?? 2);
+
+    const eventsById = new Map<string, AstroEvent>();
+    const neighbors = new Map<string, Set<string>>();
+    for (const pair of correlations) {
+      for (const [event, other] of [[pair.event1, pair.event2], [pair.event2, pair.event1]]) {
+        eventsById.set(event.id, event);
+        if (!neighbors.has(event.id)) neighbors.set(event.id, new Set());
+        neighbors.get(event.id)!.add(other.id);
+      }
+    }
+
+    const sets = new UnionFind();
+    let members: string[];
+
+    if (mode === 'density') {
+      const isCore = (id: string) => neighbors.get(id)!.size >= minClusterSize - 1;
+      const coreIds = Array.from(eventsById.keys()).filter(isCore);
+
+      // Core points reachable from each other form the cluster skeleton
+      for (const pair of correlations) {
+        if (isCore(pair.event1.id) && isCore(pair.event2.id)) {
+          sets.union(pair.event1.id, pair.event2.id);
+        }
+      }
+      coreIds.forEach(id => sets.find(id));
+
+      // Border points join the cluster of their strongest link to a core point
+      const borderLinks = new Map<string, EventPair>();
+      for (const pair of correlations) {
+        for (const [border, core] of [[pair.event1.id, pair.event2.id], [pair.event2.id, pair.event1.id]]) {
+          if (isCore(border) || !isCore(core)) continue;
+          const current = borderLinks.get(border);
+          if (!current || this.comparePairs(pair, current) < 0) {
+            borderLinks.set(border, pair);
           }
         }
-        
-        clusters.push(cluster);
       }
+      borderLinks.forEach((pair, border) => {
+        const core = pair.event1.id === border ? pair.event2.id : pair.event1.id;
+        sets.attach(border, core);
+      });
+
+      members = coreIds.concat(Array.from(borderLinks.keys()));
+    } else {
+      for (const pair of correlations) {
+        sets.union(pair.event1.id, pair.event2.id);
+      }
+      members = Array.from(eventsById.keys());
+    }
+
+    const groups = new Map<string, AstroEvent[]>();
+    for (const id of members) {
+      const root = sets.find(id);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(eventsById.get(id)!);
+    }
+
+    const clusters: EventCluster[] = [];
+    groups.forEach(groupEvents => {
+      if (groupEvents.length < minClusterSize) return;
+
+      const ids = new Set(groupEvents.map(e => e.id));
+      const pairs = correlations.filter(p => ids.has(p.event1.id) && ids.has(p.event2.id));
+      clusters.push(this.summarizeCluster(groupEvents, pairs));
+    });
+
+    return clusters.sort((a, b) =>
+      b.aggregateScore - a.aggregateScore ||
+      a.startTime.localeCompare(b.startTime) ||
+      a.events[0].id.localeCompare(b.events[0].id)
+    );
+  }
+
+  // Order pairs by score, breaking ties on event ids so results are stable
+  private static comparePairs(a: EventPair, b: EventPair): number {
+    return b.confidenceScore - a.confidenceScore ||
+      (a.event1.id + a.event2.id).localeCompare(b.event1.id + b.event2.id);
+  }
+
+  // Describe a cluster: members in time order, messenger types, time span,
+  // sky centroid and a combined score
+  static summarizeCluster(events: AstroEvent[], pairs: EventPair[]): EventCluster {
+    const sorted = events.slice().sort((a, b) =>
+      new Date(a.time_utc).getTime() - new Date(b.time_utc).getTime() || a.id.localeCompare(b.id)
+    );
+    const startTime = sorted[0].time_utc;
+    const endTime = sorted[sorted.length - 1].time_utc;
+    const classification = classifyMessengers(sorted.map(e => e.event_type));
+
+    return {
+      events: sorted,
+      pairs: pairs.slice().sort((a, b) => this.comparePairs(a, b)),
+      size: sorted.length,
+      memberTypes: classification.messengers,
+      classification,
+      startTime,
+      endTime,
+      timeSpanSeconds: this.calculateTimeDifference(startTime, endTime),
+      centroid: this.calculateCentroid(sorted),
+      // Noisy-OR: probability that at least one link is real, treating the
+      // pair scores as independent probabilities
+      aggregateScore: 1 - pairs.reduce((product, p) => product * (1 - Math.min(1, Math.max(0, p.confidenceScore))), 1)
+    };
+  }
+
+  // Mean direction of a set of sky positions
+  static calculateCentroid(events: AstroEvent[]): { ra: number; dec: number } {
+    const toRad = Math.PI / 180;
+    let x = 0;
+    let y = 0;
+    let z = 0;
+
+    for (const event of events) {
+      const ra = event.ra * toRad;
+      const dec = event.dec * toRad;
+      x += Math.cos(dec) * Math.cos(ra);
+      y += Math.cos(dec) * Math.sin(ra);
+      z += Math.sin(dec);
     }
 
-    return clusters;
+    const norm = Math.sqrt(x * x + y * y + z * z);
+    if (norm < 1e-12) {
+      // Positions cancel out (e.g. antipodal pair); no meaningful mean direction
+      return { ra: events[0].ra, dec: events[0].dec };
+    }
+
+    const ra = Math.atan2(y, x) / toRad;
+    return {
+      ra: ra < 0 ? ra + 360 : ra,
+      dec: Math.asin(z / norm) / toRad
+    };
   }
-}
\ No newline at end of file
+}
+
+// Disjoint-set forest over event ids
+class UnionFind {
+  private parent = new Map<string, string>();
+
+  find(id: string): string {
+    if (!this.parent.has(id)) this.parent.set(id, id);
+    let root = id;
+    while (this.parent.get(root) !== root) root = this.parent.get(root)!;
+
+    // Path compression
+    let node = id;
+    while (node !== root) {
+      const next = this.parent.get(node)!;
+      this.parent.set(node, root);
+      node = next;
+    }
+    return root;
+  }
+
+  union(a: string, b: string): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) return;
+    // Keep the lexicographically smaller root so roots do not depend on order
+    if (rootA < rootB) this.parent.set(rootB, rootA);
+    else this.parent.set(rootA, rootB);
+  }
+
+  // Make a singleton follow another set without merging that set's members
+  attach(id: string, to: string): void {
+    this.parent.set(id, this.find(to));
+  }
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationRequest } from './correlation-request';
+import { CorrelationRunner } from './correlation-run';
+import { CorrelationJobSummary } from './supabase';
+
+// Correlation runs submitted as correlation_jobs rows and run in the
+// background of the server process that accepted them. Progress is written
+// to the row as each stage starts, which is also when a cancellation takes
+// effect: the running stage finishes, nothing after it runs and nothing is
+// stored.
+//
+// A running job touches its row at least every JOB_HEARTBEAT_MS. Jobs whose
+// row has not changed for JOB_STALE_AFTER_MS lost the process running them
+// (a restart, or a serverless function that was frozen or ended) and are
+// marked failed by reapStale.
+
+export const CORRELATION_JOB_TYPE = 'correlation';
+
+// Job columns without the (possibly large) results
+export const JOB_SUMMARY_COLUMNS =
+  'id, created_at, user_id, status, job_type, parameters, error_message, progress, progress_message, started_at, completed_at, updated_at';
+
+const JOB_HEARTBEAT_MS = 60 * 1000;
+
+// Well above the heartbeat: stages that search in process hold the event
+// loop, so heartbeats stop while they run
+export const JOB_STALE_AFTER_MS = (Number(process.env.CORRELATION_JOB_STALE_MINUTES) || 15) * 60 * 1000;
+
+export const STALE_JOB_MESSAGE = 'Job stopped responding; the server running it may have restarted';
+
+export class CorrelationJobs {
+  // Store a pending job and start running it without waiting for it
+  static async submit(
+    client: SupabaseClient<Database>,
+    body: any,
+    request: CorrelationRequest,
+    userId: string | null = null
+  ): Promise<{ job: CorrelationJobSummary | null; error: Error | null }> {
+    const { data, error } = await client
+      .from('correlation_jobs')
+      .insert({
+        job_type: CORRELATION_JOB_TYPE,
+        status: 'pending',
+        parameters: body ?? {},
+        user_id: userId
+      })
+      .select(JOB_SUMMARY_COLUMNS)
+      .single();
+
+    if (error || !data) return { job: null, error: new Error(error?.message ?? 'Failed to create job') };
+
+    const job = data as unknown as CorrelationJobSummary;
+    this.run(client, job.id, request).catch(runError => {
+      console.error(`Correlation job ${job.id} crashed:`, runError);
+    });
+    return { job, error: null };
+  }
+
+  // Run a pending job to completion, recording progress, results or the
+  // failure on its row. A job cancelled before it starts is left alone.
+  static async run(client: SupabaseClient<Database>, jobId: string, request: CorrelationRequest): Promise<void> {
+    const { data: claimed, error: claimError } = await client
+      .from('correlation_jobs')
+      .update({ status: 'running', started_at: new Date().toISOString(), progress: 0 })
+      .eq('id', jobId)
+      .eq('status', 'pending')
+      .select('id');
+    if (claimError) {
+      console.error(`Failed to start correlation job ${jobId}:`, claimError);
+      return;
+    }
+    if (!claimed || claimed.length === 0) return;
+
+    // Rewriting the stage bumps updated_at, which tells reapStale the job is alive
+    let currentStage = 'Starting';
+    const heartbeat = setInterval(() => {
+      client
+        .from('correlation_jobs')
+        .update({ progress_message: currentStage })
+        .eq('id', jobId)
+        .eq('status', 'running')
+        .then(({ error }) => {
+          if (error) console.error(`Failed to record heartbeat of correlation job ${jobId}:`, error);
+        });
+    }, JOB_HEARTBEAT_MS);
+
+    try {
+      const outcome = await CorrelationRunner.run(client, request, {
+        // Progress is only written while the job is still running, so an
+        // update that matches no row means it has been cancelled
+        onProgress: async (progress, stage) => {
+          currentStage = stage;
+          const { data, error } = await client
+            .from('correlation_jobs')
+            .update({ progress, progress_message: stage })
+            .eq('id', jobId)
+            .eq('status', 'running')
+            .select('id');
+          if (error) {
+            console.error(`Failed to record progress of correlation job ${jobId}:`, error);
+            return true;
+          }
+          return (data || []).length > 0;
+        }
+      });
+
+      if (outcome.status === 'cancelled') return;
+      await this.finish(client, jobId, outcome.status === 'completed'
+        ? { status: 'completed', results: outcome.response, progress: 1, progress_message: 'Completed' }
+        : { status: 'failed', error_message: outcome.error, progress_message: 'Failed' });
+    } catch (error) {
+      console.error(`Correlation job ${jobId} failed:`, error);
+      await this.finish(client, jobId, {
+        status: 'failed',
+        error_message: error instanceof Error ? error.message : 'Internal error',
+        progress_message: 'Failed'
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Fail pending and running jobs whose row has not changed for
+  // JOB_STALE_AFTER_MS
+  static async reapStale(
+    client: SupabaseClient<Database>,
+    now: Date = new Date()
+  ): Promise<{ reaped: number; error: Error | null }> {
+    const { data, error } = await client
+      .from('correlation_jobs')
+      .update({
+        status: 'failed',
+        error_message: STALE_JOB_MESSAGE,
+        progress_message: 'Failed',
+        completed_at: now.toISOString()
+      })
+      .in('status', ['pending', 'running'])
+      .lt('updated_at', new Date(now.getTime() - JOB_STALE_AFTER_MS).toISOString())
+      .select('id');
+
+    if (error) return { reaped: 0, error: new Error(error.message) };
+    return { reaped: (data || []).length, error: null };
+  }
+
+  // Final update of a running job; a job cancelled meanwhile stays cancelled
+  private static async finish(
+    client: SupabaseClient<Database>,
+    jobId: string,
+    update: Database['public']['Tables']['correlation_jobs']['Update']
+  ): Promise<void> {
+    const { error } = await client
+      .from('correlation_jobs')
+      .update({ ...update, completed_at: new Date().toISOString() })
+      .eq('id', jobId)
+      .eq('status', 'running');
+    if (error) {
+      console.error(`Failed to record the end of correlation job ${jobId}:`, error);
+    }
+  }
+
+  // Cancel a pending or running job. Null when the job does not exist or
+  // has already finished.
+  static async cancel(
+    client: SupabaseClient<Database>,
+    jobId: string
+  ): Promise<{ job: CorrelationJobSummary | null; error: Error | null }> {
+    const { data, error } = await client
+      .from('correlation_jobs')
+      .update({
+        status: 'cancelled',
+        progress_message: 'Cancelled',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', jobId)
+      .in('status', ['pending', 'running'])
+      .select(JOB_SUMMARY_COLUMNS);
+
+    if (error) return { job: null, error: new Error(error.message) };
+    const rows = (data || []) as unknown as CorrelationJobSummary[];
+    return { job: rows[0] ?? null, error: null };
+  }
+}
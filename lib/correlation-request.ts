@@ -0,0 +1,176 @@
+import { ClusterOptions, CorrelationParams, PairTimeWindow, PHYSICAL_TIME_WINDOWS } from './correlation-engine';
+import { DEFAULT_SCORER, ScorerRegistry } from './scorers';
+import { TimeSlideOptions } from './time-slides';
+import { SkyScrambleOptions } from './sky-scramble';
+import { EVENT_TYPES } from './supabase';
+
+// Where the pair search runs: in this process over the loaded catalog, or in
+// Postgres through find_correlation_candidates (see DatabaseCorrelator)
+export type CorrelationEngineKind = 'in_process' | 'database';
+
+export const CORRELATION_ENGINES: CorrelationEngineKind[] = ['in_process', 'database'];
+
+// Correlation options accepted in API request bodies, after validation
+export interface CorrelationRequest {
+  params: CorrelationParams;
+  engine: CorrelationEngineKind;
+  clustering: ClusterOptions;
+  timeSlides: TimeSlideOptions | null;
+  skyScramble: SkyScrambleOptions | null;
+  eventIds: string[] | null;
+}
+
+export type CorrelationRequestResult =
+  | { ok: true; request: CorrelationRequest }
+  | { ok: false; error: string };
+
+export const MAX_TIME_SLIDES = 1000;
+export const MAX_SKY_SCRAMBLE_TRIALS = 1000;
+
+// Defaults used when a correlation is triggered by ingesting new events
+export const INGEST_CORRELATION_DEFAULTS: Partial<CorrelationParams> = {
+  timeWindowSeconds: 600,
+  angularThresholdDeg: 1.0,
+  minConfidenceScore: 0.1,
+  pairTimeWindows: PHYSICAL_TIME_WINDOWS
+};
+
+// Validate and fill in defaults for a correlation request body. Source rates
+// are not accepted from callers; routes derive them from the catalog.
+export function parseCorrelationRequest(
+  body: any,
+  defaults: Partial<CorrelationParams> = {}
+): CorrelationRequestResult {
+  const {
+    timeWindowSeconds = defaults.timeWindowSeconds ?? 600,
+    angularThresholdDeg = defaults.angularThresholdDeg ?? 1.0,
+    minConfidenceScore = defaults.minConfidenceScore ?? 0.1,
+    pairTimeWindows: requestedTimeWindows = defaults.pairTimeWindows ?? null,
+    scoringMethod = defaults.scoringMethod ?? DEFAULT_SCORER,
+    priorOdds = defaults.priorOdds,
+    distanceConsistency = defaults.distanceConsistency ?? false,
+    timeSlides = null,
+    skyScramble = null,
+    clustering = {},
+    eventIds = null,
+    engine = 'in_process'
+  } = body || {};
+
+  if (!Number.isFinite(timeWindowSeconds) || timeWindowSeconds < 0) {
+    return { ok: false, error: 'timeWindowSeconds must be a non-negative number' };
+  }
+
+  if (!Number.isFinite(angularThresholdDeg) || angularThresholdDeg <= 0) {
+    return { ok: false, error: 'angularThresholdDeg must be a positive number' };
+  }
+
+  // 'physical' selects the built-in per-messenger delay windows
+  const pairTimeWindows = requestedTimeWindows === 'physical'
+    ? PHYSICAL_TIME_WINDOWS
+    : requestedTimeWindows || undefined;
+
+  if (pairTimeWindows && !isValidTimeWindows(pairTimeWindows)) {
+    return {
+      ok: false,
+      error: 'pairTimeWindows must be "physical" or a list of { fromType, toType, minSeconds, maxSeconds } with minSeconds <= maxSeconds'
+    };
+  }
+
+  if (typeof scoringMethod !== 'string' || !ScorerRegistry.has(scoringMethod)) {
+    return { ok: false, error: `scoringMethod must be one of: ${ScorerRegistry.list().map(s => s.name).join(', ')}` };
+  }
+
+  if (priorOdds !== undefined && !(Number.isFinite(priorOdds) && priorOdds > 0)) {
+    return { ok: false, error: 'priorOdds must be a positive number' };
+  }
+
+  if (typeof distanceConsistency !== 'boolean') {
+    return { ok: false, error: 'distanceConsistency must be true or false' };
+  }
+
+  if (timeSlides && !isValidTimeSlides(timeSlides)) {
+    return {
+      ok: false,
+      error: `timeSlides must be { stream, offsetCount, seed } with stream one of ${EVENT_TYPES.join(', ')}, offsetCount an integer from 1 to ${MAX_TIME_SLIDES} and seed an integer`
+    };
+  }
+
+  if (skyScramble && !isValidSkyScramble(skyScramble)) {
+    return {
+      ok: false,
+      error: `skyScramble must be { trials, seed, keepFootprint? } with trials an integer from 1 to ${MAX_SKY_SCRAMBLE_TRIALS} and seed an integer`
+    };
+  }
+
+  if (!isValidClustering(clustering)) {
+    return { ok: false, error: 'clustering must be { mode: "connected" | "density", minClusterSize: integer >= 2 }' };
+  }
+
+  if (!CORRELATION_ENGINES.includes(engine)) {
+    return { ok: false, error: `engine must be one of: ${CORRELATION_ENGINES.join(', ')}` };
+  }
+
+  // Both estimates re-run the search on altered copies of every event, which
+  // the database engine never loads
+  if (engine === 'database' && (timeSlides || skyScramble)) {
+    return { ok: false, error: 'timeSlides and skyScramble require the in_process engine' };
+  }
+
+  if (eventIds !== null && !(Array.isArray(eventIds) && eventIds.every((id: unknown) => typeof id === 'string'))) {
+    return { ok: false, error: 'eventIds must be a list of event ids' };
+  }
+
+  return {
+    ok: true,
+    request: {
+      params: {
+        timeWindowSeconds,
+        angularThresholdDeg,
+        minConfidenceScore,
+        pairTimeWindows,
+        scoringMethod,
+        priorOdds,
+        distanceConsistency
+      },
+      engine,
+      clustering,
+      timeSlides,
+      skyScramble,
+      eventIds
+    }
+  };
+}
+
+function isValidClustering(options: ClusterOptions): boolean {
+  return typeof options === 'object' && options !== null && !Array.isArray(options) &&
+    (options.mode === undefined || options.mode === 'connected' || options.mode === 'density') &&
+    (options.minClusterSize === undefined || (Number.isInteger(options.minClusterSize) && options.minClusterSize >= 2));
+}
+
+function isValidTimeSlides(options: TimeSlideOptions): boolean {
+  return (EVENT_TYPES as readonly string[]).includes(options.stream) &&
+    Number.isInteger(options.offsetCount) &&
+    options.offsetCount >= 1 &&
+    options.offsetCount <= MAX_TIME_SLIDES &&
+    Number.isInteger(options.seed) &&
+    (options.minOffsetSeconds === undefined || (Number.isFinite(options.minOffsetSeconds) && options.minOffsetSeconds > 0));
+}
+
+function isValidSkyScramble(options: SkyScrambleOptions): boolean {
+  return Number.isInteger(options.trials) &&
+    options.trials >= 1 &&
+    options.trials <= MAX_SKY_SCRAMBLE_TRIALS &&
+    Number.isInteger(options.seed) &&
+    (options.keepFootprint === undefined || typeof options.keepFootprint === 'boolean');
+}
+
+function isValidTimeWindows(windows: unknown): windows is PairTimeWindow[] {
+  return Array.isArray(windows) && windows.every(w =>
+    w &&
+    typeof w.fromType === 'string' &&
+    typeof w.toType === 'string' &&
+    Number.isFinite(w.minSeconds) &&
+    Number.isFinite(w.maxSeconds) &&
+    w.minSeconds <= w.maxSeconds
+  );
+}
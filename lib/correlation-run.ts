@@ -0,0 +1,327 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationEngine, CorrelationParams, EventPair } from './correlation-engine';
+import { CorrelationRequest } from './correlation-request';
+import { CorrelationStore, finiteOrNull } from './correlation-store';
+import { DatabaseCorrelator } from './database-correlation';
+import { fetchAllPages } from './paged-query';
+import { DEFAULT_SCORER, ScorerRegistry } from './scorers';
+import { SignificanceCalculator } from './significance';
+import { SkymapStore } from './skymap-store';
+import { SkyScrambleEstimator, SkyScrambleResult } from './sky-scramble';
+import { TimeSlideEstimator, TimeSlideBackground } from './time-slides';
+import { GalaxyCatalog } from './galaxy-catalog';
+import { PriorityStore } from './priority-store';
+import { AstroEvent } from './supabase';
+
+// One full correlation run as served by POST /api/correlate and by
+// correlation jobs: search, host association, backgrounds, clustering,
+// storage and the response body.
+
+export type CorrelationRunOutcome =
+  | { status: 'completed'; response: any }
+  | { status: 'failed'; httpStatus: number; error: string }
+  | { status: 'cancelled' };
+
+export interface CorrelationRunHooks {
+  // Called as each stage starts with the fraction of the run done so far.
+  // Resolving to false stops the run before that stage.
+  onProgress?: (progress: number, stage: string) => Promise<boolean>;
+}
+
+export class CorrelationRunner {
+  static async run(
+    client: SupabaseClient<Database>,
+    request: CorrelationRequest,
+    hooks: CorrelationRunHooks = {}
+  ): Promise<CorrelationRunOutcome> {
+    const { params: requestParams, engine, clustering, timeSlides, skyScramble, eventIds } = request;
+    const {
+      timeWindowSeconds,
+      angularThresholdDeg,
+      minConfidenceScore,
+      pairTimeWindows,
+      scoringMethod = DEFAULT_SCORER,
+      priorOdds,
+      distanceConsistency
+    } = requestParams;
+    const proceed = (progress: number, stage: string) =>
+      hooks.onProgress ? hooks.onProgress(progress, stage) : Promise.resolve(true);
+
+    if (!(await proceed(0, 'Searching for pairs'))) return { status: 'cancelled' };
+
+    const scorer = ScorerRegistry.get(scoringMethod);
+    const run = engine === 'database'
+      ? await correlateInDatabase(client, requestParams, eventIds)
+      : await correlateInProcess(client, requestParams, eventIds);
+
+    if ('outcome' in run) return run.outcome;
+    const { events, totalEvents, correlations, correlationParams, sourceRates } = run;
+
+    if (!(await proceed(0.4, 'Ranking host galaxies'))) return { status: 'cancelled' };
+
+    // Rank candidate host galaxies for optical counterparts of GW events
+    const galaxyCatalog = await GalaxyCatalog.tryLoadDefault();
+    if (galaxyCatalog) {
+      CorrelationEngine.associateHosts(correlations, galaxyCatalog);
+    }
+
+    if (timeSlides && !(await proceed(0.5, 'Estimating time-slide background'))) return { status: 'cancelled' };
+
+    // Empirical background from time-shifted copies of one messenger stream
+    let background: TimeSlideBackground | null = null;
+    if (timeSlides) {
+      const estimate = TimeSlideEstimator.estimateBackground(events, correlationParams, timeSlides);
+      if (!estimate.ok) return { status: 'failed', httpStatus: 400, error: estimate.error };
+      background = estimate.background;
+    }
+
+    // Find event clusters
+    const clusters = CorrelationEngine.findEventClusters(correlations, clustering);
+
+    if (skyScramble && !(await proceed(0.7, 'Scrambling sky positions'))) return { status: 'cancelled' };
+
+    // Whether the run as a whole found more than chance coincidences
+    let runSignificance: SkyScrambleResult | null = null;
+    if (skyScramble) {
+      runSignificance = SkyScrambleEstimator.estimate(
+        events,
+        correlationParams,
+        clustering,
+        { correlations: correlations.length, clusters: clusters.length },
+        skyScramble
+      );
+    }
+
+    // Each pair carries the N-way messenger label of the cluster it belongs to
+    const clusterTypes = new Map<EventPair, string>();
+    clusters.forEach(cluster => {
+      cluster.pairs.forEach(pair => clusterTypes.set(pair, cluster.classification.code));
+    });
+
+    if (!(await proceed(0.9, 'Storing correlations'))) return { status: 'cancelled' };
+
+    // Store correlations in database; re-runs update rows instead of duplicating them
+    const { error: storeError } = await CorrelationStore.upsert(
+      client, correlations, correlationParams, clusterTypes
+    );
+
+    if (storeError) {
+      console.error('Failed to store correlations:', storeError);
+      // Continue anyway, just log the error
+    }
+
+    // Events in the stored correlations get their follow-up priority refreshed
+    if (!storeError) {
+      const { error: priorityError } = await PriorityStore.recompute(
+        client,
+        correlations.flatMap(pair => [pair.event1.id, pair.event2.id])
+      );
+      if (priorityError) {
+        console.error('Failed to update follow-up priorities:', priorityError);
+      }
+    }
+
+    return {
+      status: 'completed',
+      response: {
+        correlations: correlations.map(corr => ({
+          event1: corr.event1,
+          event2: corr.event2,
+          timeDiffSeconds: corr.timeDiffSeconds,
+          angularSeparationDeg: corr.angularSeparationDeg,
+          matchRadiusDeg: corr.matchRadiusDeg,
+          falseAlarmProbability: corr.falseAlarmProbability ?? null,
+          significanceSigma: finiteOrNull(corr.significanceSigma),
+          correlationType: corr.correlationType,
+          clusterType: clusterTypes.get(corr) ?? null,
+          confidenceScore: corr.confidenceScore,
+          skymapCredibleLevel: corr.skymapCredibleLevel ?? null,
+          hostAssociation: corr.hostAssociation ?? null,
+          scoreBreakdown: corr.scoreBreakdown ?? null,
+          // Only pairs with exactly one event from the slid stream have a background
+          timeSlidePValue: background && TimeSlideEstimator.isCrossStreamPair(corr, background.stream)
+            ? TimeSlideEstimator.pValue(corr.confidenceScore, background)
+            : null
+        })),
+        clusters: clusters.map(cluster => ({
+          events: cluster.events,
+          size: cluster.size,
+          memberTypes: cluster.memberTypes,
+          clusterType: cluster.classification.code,
+          clusterLabel: cluster.classification.label,
+          isMultiMessenger: cluster.classification.isMultiMessenger,
+          startTime: cluster.startTime,
+          endTime: cluster.endTime,
+          timeSpanSeconds: cluster.timeSpanSeconds,
+          centroid: cluster.centroid,
+          aggregateScore: cluster.aggregateScore,
+          pairCount: cluster.pairs.length
+        })),
+        parameters: {
+          timeWindowSeconds,
+          angularThresholdDeg,
+          minConfidenceScore,
+          pairTimeWindows: pairTimeWindows || null,
+          scoringMethod,
+          priorOdds: priorOdds ?? null,
+          distanceConsistency,
+          sourceRates,
+          timeSlides,
+          skyScramble,
+          clustering,
+          engine
+        },
+        algorithm: {
+          name: scorer.name,
+          version: scorer.version,
+          description: scorer.description
+        },
+        background,
+        summary: {
+          totalEvents,
+          // Pairs the database engine evaluated; null for the in-process engine
+          candidatePairs: run.candidatePairs,
+          correlationsFound: correlations.length,
+          runSignificance: runSignificance && {
+            trials: runSignificance.trials,
+            seed: runSignificance.seed,
+            keepFootprint: runSignificance.keepFootprint,
+            correlations: runSignificance.correlations,
+            clusters: runSignificance.clusters
+          },
+          clustersFound: clusters.length
+        }
+      }
+    };
+  }
+}
+
+interface SearchResult {
+  // Events the correlations were drawn from; with the database engine only
+  // those appearing in a candidate pair
+  events: AstroEvent[];
+  totalEvents: number;
+  candidatePairs: number | null;
+  correlations: EventPair[];
+  correlationParams: CorrelationParams;
+  sourceRates: Record<string, number>;
+}
+
+function notEnoughEvents(): CorrelationRunOutcome {
+  return {
+    status: 'completed',
+    response: {
+      correlations: [],
+      message: 'Need at least 2 events to find correlations'
+    }
+  };
+}
+
+// Load the selected events and search every pair in this process
+async function correlateInProcess(
+  client: SupabaseClient<Database>,
+  requestParams: CorrelationParams,
+  eventIds: string[] | null
+): Promise<SearchResult | { outcome: CorrelationRunOutcome }> {
+  const { rows: storedEvents, error: fetchError } = await fetchAllPages((from, to) => {
+    let query = client
+      .from('astro_events')
+      .select('*')
+      .order('time_utc', { ascending: true })
+      .order('id', { ascending: true });
+
+    if (eventIds && eventIds.length > 0) {
+      query = query.in('id', eventIds);
+    }
+    return query.range(from, to);
+  });
+
+  if (fetchError) {
+    console.error('Database error:', fetchError);
+    return { outcome: { status: 'failed', httpStatus: 500, error: 'Failed to fetch events' } };
+  }
+
+  if (storedEvents.length < 2) {
+    return { outcome: notEnoughEvents() };
+  }
+
+  // Events with a probability skymap are localized by it instead of a point
+  const events = await SkymapStore.attach(client, storedEvents as AstroEvent[]);
+
+  // Background rates come from the whole catalog, not just the selected events
+  let rateEvents: { source: string; time_utc: string }[] = events;
+  if (eventIds && eventIds.length > 0) {
+    const { rows: catalog, error: catalogError } = await fetchAllPages((from, to) => client
+      .from('astro_events')
+      .select('source, time_utc')
+      .order('id', { ascending: true })
+      .range(from, to));
+
+    if (catalogError) {
+      console.error('Failed to fetch catalog for background rates:', catalogError);
+    } else {
+      rateEvents = catalog;
+    }
+  }
+  const sourceRates = SignificanceCalculator.estimateSourceRates(rateEvents);
+  const correlationParams: CorrelationParams = { ...requestParams, sourceRates };
+
+  // Run correlation analysis in the canonical pair orientation
+  const correlations = CorrelationEngine.correlateEvents(
+    CorrelationStore.sortForCorrelation(events),
+    correlationParams
+  );
+
+  return { events, totalEvents: events.length, candidatePairs: null, correlations, correlationParams, sourceRates };
+}
+
+// Let Postgres find the candidate pairs and load only the events in them.
+// Gives the same correlations as correlateInProcess.
+async function correlateInDatabase(
+  client: SupabaseClient<Database>,
+  requestParams: CorrelationParams,
+  eventIds: string[] | null
+): Promise<SearchResult | { outcome: CorrelationRunOutcome }> {
+  // Background rates still need every event's source and time
+  const { rows, error: catalogError } = await fetchAllPages<{ id: string; source: string; time_utc: string }>(
+    (from, to) => client
+      .from('astro_events')
+      .select('id, source, time_utc')
+      .order('id', { ascending: true })
+      .range(from, to)
+  );
+
+  if (catalogError) {
+    console.error('Database error:', catalogError);
+    return { outcome: { status: 'failed', httpStatus: 500, error: 'Failed to fetch events' } };
+  }
+
+  const selected = eventIds && eventIds.length > 0 ? new Set(eventIds) : null;
+  const totalEvents = selected ? rows.filter(row => selected.has(row.id)).length : rows.length;
+  if (totalEvents < 2) {
+    return { outcome: notEnoughEvents() };
+  }
+
+  const sourceRates = SignificanceCalculator.estimateSourceRates(rows);
+  const correlationParams: CorrelationParams = { ...requestParams, sourceRates };
+
+  const result = await DatabaseCorrelator.correlate(
+    client,
+    correlationParams,
+    selected ? Array.from(selected) : null
+  );
+  if (result.error) {
+    console.error('Database correlation failed:', result.error);
+    return { outcome: { status: 'failed', httpStatus: 500, error: 'Database correlation failed' } };
+  }
+
+  return {
+    events: result.events,
+    totalEvents,
+    candidatePairs: result.candidatePairs,
+    correlations: result.correlations,
+    correlationParams,
+    sourceRates
+  };
+}
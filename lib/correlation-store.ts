@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationParams, EventPair } from './correlation-engine';
+import { DEFAULT_SCORER, ScorerRegistry } from './scorers';
+import { toJson } from './json';
+
+// Rows are unique per pair and scorer, so re-running a correlation updates
+// the existing rows instead of adding duplicates
+export const CORRELATION_CONFLICT_KEY = 'event1_id,event2_id,algorithm,algorithm_version';
+
+// JSON has no Infinity; a FAP that underflows to zero is reported as null sigma
+export function finiteOrNull(value: number | undefined): number | null {
+  return value !== undefined && Number.isFinite(value) ? value : null;
+}
+
+export class CorrelationStore {
+  // Map engine pairs to event_correlations rows
+  static buildRecords(
+    correlations: EventPair[],
+    params: CorrelationParams,
+    clusterTypes: Map<EventPair, string> = new Map()
+  ) {
+    const scorer = ScorerRegistry.get(params.scoringMethod || DEFAULT_SCORER);
+
+    return correlations.map(corr => ({
+      event1_id: corr.event1.id,
+      event2_id: corr.event2.id,
+      time_diff_seconds: corr.timeDiffSeconds,
+      angular_separation_deg: corr.angularSeparationDeg,
+      match_radius_deg: corr.matchRadiusDeg,
+      false_alarm_probability: corr.falseAlarmProbability ?? null,
+      significance_sigma: finiteOrNull(corr.significanceSigma),
+      correlation_type: corr.correlationType,
+      cluster_type: clusterTypes.get(corr) ?? null,
+      confidence_score: corr.confidenceScore,
+      score_breakdown: toJson(corr.scoreBreakdown ?? null),
+      skymap_credible_level: corr.skymapCredibleLevel ?? null,
+      host_association: toJson(corr.hostAssociation ?? null),
+      algorithm: scorer.name,
+      algorithm_version: scorer.version,
+      parameters: toJson(params)
+    }));
+  }
+
+  // Upsert pairs on (pair, algorithm, version). Newly found pairs are inserted
+  // and reach realtime subscribers as INSERT events; pairs stored earlier are
+  // updated in place.
+  static async upsert(
+    client: SupabaseClient<Database>,
+    correlations: EventPair[],
+    params: CorrelationParams,
+    clusterTypes?: Map<EventPair, string>
+  ): Promise<{ error: Error | null }> {
+    if (correlations.length === 0) return { error: null };
+
+    const { error } = await client
+      .from('event_correlations')
+      .upsert(this.buildRecords(correlations, params, clusterTypes), {
+        onConflict: CORRELATION_CONFLICT_KEY
+      });
+
+    return { error: error ? new Error(error.message) : null };
+  }
+
+  // Delete every stored correlation involving the given events, e.g. after
+  // their position changed or their alert was retracted. Returns the other
+  // events of the deleted pairs, whose priorities no longer hold.
+  static async deleteForEvents(
+    client: SupabaseClient<Database>,
+    eventIds: string[]
+  ): Promise<{ partnerIds: string[]; error: Error | null }> {
+    if (eventIds.length === 0) return { partnerIds: [], error: null };
+    const idList = eventIds.join(',');
+    const filter = `event1_id.in.(${idList}),event2_id.in.(${idList})`;
+
+    const { data, error } = await client
+      .from('event_correlations')
+      .delete()
+      .or(filter)
+      .select('event1_id, event2_id');
+    if (error) return { partnerIds: [], error: new Error(error.message) };
+
+    const ids = new Set(eventIds);
+    const partnerIds = ((data || []) as Array<{ event1_id: string; event2_id: string }>)
+      .flatMap(row => [row.event1_id, row.event2_id])
+      .filter(id => !ids.has(id));
+    return { partnerIds: Array.from(new Set(partnerIds)), error: null };
+  }
+
+  // Canonical orientation shared by every correlation run: earliest event
+  // first, ties broken by id, so the same pair always maps to the same row
+  static sortForCorrelation<T extends { id: string; time_utc: string }>(events: T[]): T[] {
+    return [...events].sort((a, b) =>
+      new Date(a.time_utc).getTime() - new Date(b.time_utc).getTime() ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationEngine, CorrelationParams, EventPair } from './correlation-engine';
+import { CorrelationStore } from './correlation-store';
+import { SkymapStore } from './skymap-store';
+import { AstroEvent } from './supabase';
+
+// Correlation with the pair search done by Postgres: the
+// find_correlation_candidates function returns the pairs that may pass the
+// time and angular cuts, and only the events in those pairs are loaded and
+// evaluated with CorrelationEngine.evaluatePair. The result matches
+// CorrelationEngine.correlateEvents over the same events.
+
+export interface DatabaseCorrelationResult {
+  // Events appearing in at least one candidate pair, with skymaps attached
+  events: AstroEvent[];
+  candidatePairs: number;
+  correlations: EventPair[];
+  error: Error | null;
+}
+
+// Rows per RPC page; PostgREST caps responses at 1000 rows by default
+const CANDIDATE_PAGE_SIZE = 1000;
+// Ids per .in() filter, keeping request URLs short
+const ID_BATCH_SIZE = 100;
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    result.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return result;
+}
+
+export class DatabaseCorrelator {
+  // Candidate pairs (event1_id < event2_id) from the database
+  static async findCandidatePairs(
+    client: SupabaseClient<Database>,
+    params: CorrelationParams,
+    eventIds: string[] | null = null
+  ): Promise<{ pairs: Array<[string, string]>; error: Error | null }> {
+    const pairs: Array<[string, string]> = [];
+    const args = {
+      max_time_window_seconds: CorrelationEngine.getMaxTimeWindowSeconds(params),
+      angular_threshold_deg: params.angularThresholdDeg,
+      event_ids: eventIds
+    };
+
+    for (let from = 0; ; from += CANDIDATE_PAGE_SIZE) {
+      const { data, error } = await client
+        .rpc('find_correlation_candidates', args)
+        .range(from, from + CANDIDATE_PAGE_SIZE - 1);
+      if (error) return { pairs, error: new Error(error.message) };
+
+      const rows = data || [];
+      rows.forEach(row => pairs.push([row.event1_id, row.event2_id]));
+      if (rows.length < CANDIDATE_PAGE_SIZE) break;
+    }
+    return { pairs, error: null };
+  }
+
+  static async correlate(
+    client: SupabaseClient<Database>,
+    params: CorrelationParams,
+    eventIds: string[] | null = null
+  ): Promise<DatabaseCorrelationResult> {
+    const fail = (error: Error): DatabaseCorrelationResult => ({ events: [], candidatePairs: 0, correlations: [], error });
+
+    const { pairs, error: searchError } = await this.findCandidatePairs(client, params, eventIds);
+    if (searchError) return fail(searchError);
+
+    const ids = Array.from(new Set(pairs.flat()));
+    const stored: AstroEvent[] = [];
+    for (const batch of batches(ids)) {
+      const { data, error } = await client.from('astro_events').select('*').in('id', batch);
+      if (error) return fail(new Error(error.message));
+      stored.push(...((data || []) as AstroEvent[]));
+    }
+
+    // Same orientation and visiting order as the in-process engine, so the
+    // final stable sort by score agrees with it
+    const events = CorrelationStore.sortForCorrelation(await SkymapStore.attach(client, stored));
+    const index = new Map(events.map((event, i) => [event.id, i]));
+    const ordered = pairs
+      .map(([id1, id2]) => [index.get(id1), index.get(id2)])
+      .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined)
+      .map(([a, b]) => (a < b ? [a, b] : [b, a]) as [number, number])
+      .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+    const correlations: EventPair[] = [];
+    for (const [i, j] of ordered) {
+      const pair = CorrelationEngine.evaluatePair(events[i], events[j], params);
+      if (pair) correlations.push(pair);
+    }
+
+    return {
+      events,
+      candidatePairs: pairs.length,
+      correlations: correlations.sort((a, b) => b.confidenceScore - a.confidenceScore),
+      error: null
+    };
+  }
+}
@@ -9,97 +9,551 @@ export type Json =
 export interface Database {
   public: {
     Tables: {
+      profiles: {
+        Row: {
+          id: string
+          email: string | null
+          full_name: string | null
+          avatar_url: string | null
+          role: 'admin' | 'researcher' | 'observer' | null
+          preferences: Json | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id: string
+          email?: string | null
+          full_name?: string | null
+          avatar_url?: string | null
+          role?: 'admin' | 'researcher' | 'observer' | null
+          preferences?: Json | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          email?: string | null
+          full_name?: string | null
+          avatar_url?: string | null
+          role?: 'admin' | 'researcher' | 'observer' | null
+          preferences?: Json | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       astro_events: {
         Row: {
           id: string
-          created_at: string
-          user_id: string
+          event_id: string
+          source: string
           event_type: string
-          name: string
-          description: string | null
           ra: number
           dec: number
-          magnitude: number | null
-          redshift: number | null
-          discovery_date: string | null
-          source_id: string | null
+          time_utc: string
           metadata: Json | null
-          is_verified: boolean
-          priority: 'low' | 'medium' | 'high' | 'critical'
-          tags: string[]
+          confidence_score: number | null
+          magnitude: number | null
+          error_radius_deg: number | null
+          follow_up_priority: number | null
+          follow_up_rule: string | null
+          follow_up_factors: Json | null
+          follow_up_updated_at: string | null
+          status: 'active' | 'archived' | 'invalid' | 'retracted' | null
+          object_id: string | null
+          duplicate_of: string | null
+          gal_b: number | null
+          sky_position: unknown | null
+          created_by: string | null
+          created_at: string | null
+          updated_at: string | null
         }
         Insert: {
           id?: string
-          created_at?: string
-          user_id: string
+          event_id: string
+          source: string
           event_type: string
-          name: string
-          description?: string | null
           ra: number
           dec: number
-          magnitude?: number | null
-          redshift?: number | null
-          discovery_date?: string | null
-          source_id?: string | null
+          time_utc: string
           metadata?: Json | null
-          is_verified?: boolean
-          priority?: 'low' | 'medium' | 'high' | 'critical'
-          tags?: string[]
+          confidence_score?: number | null
+          magnitude?: number | null
+          error_radius_deg?: number | null
+          follow_up_priority?: number | null
+          follow_up_rule?: string | null
+          follow_up_factors?: Json | null
+          follow_up_updated_at?: string | null
+          status?: 'active' | 'archived' | 'invalid' | 'retracted' | null
+          object_id?: string | null
+          duplicate_of?: string | null
+          gal_b?: never
+          sky_position?: never
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
         Update: {
           id?: string
-          created_at?: string
-          user_id?: string
+          event_id?: string
+          source?: string
           event_type?: string
-          name?: string
-          description?: string | null
           ra?: number
           dec?: number
-          magnitude?: number | null
-          redshift?: number | null
-          discovery_date?: string | null
-          source_id?: string | null
+          time_utc?: string
           metadata?: Json | null
-          is_verified?: boolean
-          priority?: 'low' | 'medium' | 'high' | 'critical'
-          tags?: string[]
+          confidence_score?: number | null
+          magnitude?: number | null
+          error_radius_deg?: number | null
+          follow_up_priority?: number | null
+          follow_up_rule?: string | null
+          follow_up_factors?: Json | null
+          follow_up_updated_at?: string | null
+          status?: 'active' | 'archived' | 'invalid' | 'retracted' | null
+          object_id?: string | null
+          duplicate_of?: string | null
+          gal_b?: never
+          sky_position?: never
+          created_by?: string | null
+          created_at?: string | null
+          updated_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "astro_events_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "astro_events_duplicate_of_fkey"
+            columns: ["duplicate_of"]
+            isOneToOne: false
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "astro_events_object_id_fkey"
+            columns: ["object_id"]
+            isOneToOne: false
+            referencedRelation: "astro_objects"
+            referencedColumns: ["id"]
+          }
+        ]
       }
       event_correlations: {
         Row: {
           id: string
-          created_at: string
-          event1_id: string
-          event2_id: string
+          event1_id: string | null
+          event2_id: string | null
+          time_diff_seconds: number
+          angular_separation_deg: number
           correlation_type: string
+          cluster_type: string | null
           confidence_score: number
-          description: string | null
+          match_radius_deg: number | null
+          false_alarm_probability: number | null
+          significance_sigma: number | null
+          score_breakdown: Json | null
+          skymap_credible_level: number | null
+          host_association: Json | null
+          algorithm: string
+          algorithm_version: string
           parameters: Json | null
-          user_id: string
+          status: 'pending' | 'confirmed' | 'rejected' | null
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string | null
         }
         Insert: {
           id?: string
-          created_at?: string
-          event1_id: string
-          event2_id: string
+          event1_id?: string | null
+          event2_id?: string | null
+          time_diff_seconds: number
+          angular_separation_deg: number
           correlation_type: string
+          cluster_type?: string | null
           confidence_score: number
-          description?: string | null
+          match_radius_deg?: number | null
+          false_alarm_probability?: number | null
+          significance_sigma?: number | null
+          score_breakdown?: Json | null
+          skymap_credible_level?: number | null
+          host_association?: Json | null
+          algorithm?: string
+          algorithm_version?: string
           parameters?: Json | null
-          user_id: string
+          status?: 'pending' | 'confirmed' | 'rejected' | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string | null
         }
         Update: {
           id?: string
-          created_at?: string
-          event1_id?: string
-          event2_id?: string
+          event1_id?: string | null
+          event2_id?: string | null
+          time_diff_seconds?: number
+          angular_separation_deg?: number
           correlation_type?: string
+          cluster_type?: string | null
           confidence_score?: number
-          description?: string | null
+          match_radius_deg?: number | null
+          false_alarm_probability?: number | null
+          significance_sigma?: number | null
+          score_breakdown?: Json | null
+          skymap_credible_level?: number | null
+          host_association?: Json | null
+          algorithm?: string
+          algorithm_version?: string
           parameters?: Json | null
-          user_id?: string
+          status?: 'pending' | 'confirmed' | 'rejected' | null
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_correlations_event1_id_fkey"
+            columns: ["event1_id"]
+            isOneToOne: false
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_correlations_event2_id_fkey"
+            columns: ["event2_id"]
+            isOneToOne: false
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "event_correlations_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      saved_filters: {
+        Row: {
+          id: string
+          user_id: string | null
+          name: string
+          description: string | null
+          filter_config: Json
+          is_default: boolean | null
+          created_at: string | null
+          updated_at: string | null
         }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          name: string
+          description?: string | null
+          filter_config: Json
+          is_default?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          name?: string
+          description?: string | null
+          filter_config?: Json
+          is_default?: boolean | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "saved_filters_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      data_exports: {
+        Row: {
+          id: string
+          user_id: string | null
+          export_type: 'csv' | 'json' | 'fits'
+          filter_config: Json | null
+          record_count: number | null
+          file_size_bytes: number | null
+          download_url: string | null
+          expires_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          export_type: 'csv' | 'json' | 'fits'
+          filter_config?: Json | null
+          record_count?: number | null
+          file_size_bytes?: number | null
+          download_url?: string | null
+          expires_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          export_type?: 'csv' | 'json' | 'fits'
+          filter_config?: Json | null
+          record_count?: number | null
+          file_size_bytes?: number | null
+          download_url?: string | null
+          expires_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "data_exports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
       }
+      user_subscriptions: {
+        Row: {
+          id: string
+          user_id: string | null
+          subscription_type: string
+          filter_criteria: Json | null
+          is_active: boolean | null
+          last_notification_at: string | null
+          created_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          subscription_type: string
+          filter_criteria?: Json | null
+          is_active?: boolean | null
+          last_notification_at?: string | null
+          created_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          subscription_type?: string
+          filter_criteria?: Json | null
+          is_active?: boolean | null
+          last_notification_at?: string | null
+          created_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      event_skymaps: {
+        Row: {
+          id: string
+          event_id: string
+          uniq: number[]
+          probdensity: number[]
+          area_90_deg2: number | null
+          metadata: Json | null
+          source_file: string | null
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          event_id: string
+          uniq: number[]
+          probdensity: number[]
+          area_90_deg2?: number | null
+          metadata?: Json | null
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          event_id?: string
+          uniq?: number[]
+          probdensity?: number[]
+          area_90_deg2?: number | null
+          metadata?: Json | null
+          source_file?: string | null
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "event_skymaps_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: true
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      astro_objects: {
+        Row: {
+          id: string
+          canonical_event_id: string
+          name: string
+          event_type: string
+          aliases: string[]
+          matched_by: string[]
+          member_count: number
+          created_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          canonical_event_id: string
+          name: string
+          event_type: string
+          aliases?: string[]
+          matched_by?: string[]
+          member_count?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          canonical_event_id?: string
+          name?: string
+          event_type?: string
+          aliases?: string[]
+          matched_by?: string[]
+          member_count?: number
+          created_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "astro_objects_canonical_event_id_fkey"
+            columns: ["canonical_event_id"]
+            isOneToOne: true
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      correlation_jobs: {
+        Row: {
+          id: string
+          user_id: string | null
+          job_type: string
+          status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+          parameters: Json
+          results: Json | null
+          error_message: string | null
+          progress: number
+          progress_message: string | null
+          created_at: string | null
+          started_at: string | null
+          completed_at: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          job_type?: string
+          status?: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+          parameters?: Json
+          results?: Json | null
+          error_message?: string | null
+          progress?: number
+          progress_message?: string | null
+          created_at?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          job_type?: string
+          status?: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled'
+          parameters?: Json
+          results?: Json | null
+          error_message?: string | null
+          progress?: number
+          progress_message?: string | null
+          created_at?: string | null
+          started_at?: string | null
+          completed_at?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "correlation_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      gcn_notices: {
+        Row: {
+          id: string
+          notice_id: string
+          format: 'voevent' | 'json'
+          role: 'observation' | 'prediction' | 'utility' | 'test'
+          stream: string
+          action: 'pending' | 'created' | 'updated' | 'superseded' | 'retracted' | 'unmatched_retraction' | 'test'
+          event_id: string | null
+          issued_at: string | null
+          parsed: Json
+          payload: string
+          received_at: string | null
+        }
+        Insert: {
+          id?: string
+          notice_id: string
+          format: 'voevent' | 'json'
+          role: 'observation' | 'prediction' | 'utility' | 'test'
+          stream: string
+          action: 'pending' | 'created' | 'updated' | 'superseded' | 'retracted' | 'unmatched_retraction' | 'test'
+          event_id?: string | null
+          issued_at?: string | null
+          parsed?: Json
+          payload: string
+          received_at?: string | null
+        }
+        Update: {
+          id?: string
+          notice_id?: string
+          format?: 'voevent' | 'json'
+          role?: 'observation' | 'prediction' | 'utility' | 'test'
+          stream?: string
+          action?: 'pending' | 'created' | 'updated' | 'superseded' | 'retracted' | 'unmatched_retraction' | 'test'
+          event_id?: string | null
+          issued_at?: string | null
+          parsed?: Json
+          payload?: string
+          received_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gcn_notices_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "astro_events"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+
       data_sources: {
         Row: {
           id: string
@@ -143,6 +597,7 @@ export interface Database {
           sync_frequency?: string | null
           config?: Json | null
         }
+        Relationships: []
       }
       user_preferences: {
         Row: {
@@ -175,51 +630,42 @@ export interface Database {
           display_preferences?: Json | null
           export_preferences?: Json | null
         }
-      }
-      correlation_jobs: {
-        Row: {
-          id: string
-          created_at: string
-          user_id: string
-          status: 'pending' | 'running' | 'completed' | 'failed'
-          job_type: string
-          parameters: Json | null
-          results: Json | null
-          error_message: string | null
-          started_at: string | null
-          completed_at: string | null
-        }
-        Insert: {
-          id?: string
-          created_at?: string
-          user_id: string
-          status?: 'pending' | 'running' | 'completed' | 'failed'
-          job_type: string
-          parameters?: Json | null
-          results?: Json | null
-          error_message?: string | null
-          started_at?: string | null
-          completed_at?: string | null
-        }
-        Update: {
-          id?: string
-          created_at?: string
-          user_id?: string
-          status?: 'pending' | 'running' | 'completed' | 'failed'
-          job_type?: string
-          parameters?: Json | null
-          results?: Json | null
-          error_message?: string | null
-          started_at?: string | null
-          completed_at?: string | null
-        }
+        Relationships: []
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      search_events_in_sky_region: {
+        Args: {
+          cone_ra?: number | null
+          cone_dec?: number | null
+          cone_radius_deg?: number | null
+          box_ra_min?: number | null
+          box_ra_max?: number | null
+          box_dec_min?: number | null
+          box_dec_max?: number | null
+        }
+        Returns: Database['public']['Tables']['astro_events']['Row'][]
+      }
+      find_correlation_candidates: {
+        Args: {
+          max_time_window_seconds: number
+          angular_threshold_deg: number
+          event_ids?: string[] | null
+        }
+        Returns: {
+          event1_id: string
+          event2_id: string
+        }[]
+      }
+      set_follow_up_priorities: {
+        Args: {
+          updates: Json
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,122 @@
+import { AstroEvent } from './supabase';
+
+// Distances are luminosity distances in Mpc
+export interface DistanceEstimate {
+  distanceMpc: number;
+  sigmaMpc: number;
+  // Whether the uncertainty came from the data or from the default fraction
+  sigmaStated: boolean;
+}
+
+export interface DistanceComparison {
+  distance1: DistanceEstimate;
+  distance2: DistanceEstimate;
+  // |d1 - d2| in units of the combined 1-sigma uncertainty
+  tensionSigma: number;
+  // Multiplier applied to the score, 1 when the distances agree within 1 sigma
+  weight: number;
+}
+
+// Contextual objects such as candidate host galaxies
+export interface DistanceSource {
+  distance?: number | null;
+  distance_error?: number | null;
+  redshift?: number | null;
+}
+
+const SPEED_OF_LIGHT_KM_S = 299792.458;
+const HUBBLE_CONSTANT_KM_S_MPC = 70;
+
+// Half-width of a 90% interval in Gaussian sigmas
+const SIGMA_PER_90_HALF_WIDTH = 1.645;
+
+// Fractional 1-sigma uncertainty assumed when none is stated. GW luminosity
+// distances are typically uncertain by tens of percent.
+const DEFAULT_FRACTIONAL_ERROR: Record<string, number> = {
+  gravitational_wave: 0.3
+};
+const FALLBACK_FRACTIONAL_ERROR = 0.1;
+
+function positive(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : null;
+}
+
+export class DistanceConsistency {
+  // Distance from event metadata: `distance` with `distance_error` (1 sigma)
+  // or a 90% interval `distance_lower`/`distance_upper`, else from
+  // `redshift` through the Hubble law (adequate for the local volume GW
+  // detectors reach)
+  static getEventDistance(event: Pick<AstroEvent, 'event_type' | 'metadata'>): DistanceEstimate | null {
+    const metadata = event.metadata || {};
+    return this.getDistance(
+      metadata,
+      DEFAULT_FRACTIONAL_ERROR[event.event_type] ?? FALLBACK_FRACTIONAL_ERROR
+    );
+  }
+
+  static getDistance(
+    source: DistanceSource & { distance_lower?: number | null; distance_upper?: number | null },
+    defaultFractionalError: number = FALLBACK_FRACTIONAL_ERROR
+  ): DistanceEstimate | null {
+    let distanceMpc = positive(source.distance);
+    if (distanceMpc === null) {
+      const redshift = positive(source.redshift);
+      if (redshift === null) return null;
+      distanceMpc = SPEED_OF_LIGHT_KM_S * redshift / HUBBLE_CONSTANT_KM_S_MPC;
+    }
+
+    const stated = positive(source.distance_error);
+    if (stated !== null) {
+      return { distanceMpc, sigmaMpc: stated, sigmaStated: true };
+    }
+
+    const lower = positive(source.distance_lower);
+    const upper = positive(source.distance_upper);
+    if (lower !== null && upper !== null && upper > lower) {
+      return { distanceMpc, sigmaMpc: (upper - lower) / (2 * SIGMA_PER_90_HALF_WIDTH), sigmaStated: true };
+    }
+
+    return { distanceMpc, sigmaMpc: distanceMpc * defaultFractionalError, sigmaStated: false };
+  }
+
+  // Compare two distance estimates. Agreement within the combined 1-sigma
+  // uncertainty leaves the score alone; beyond that the weight falls as a
+  // Gaussian in the tension (continuous at 1 sigma).
+  static compare(distance1: DistanceEstimate, distance2: DistanceEstimate): DistanceComparison {
+    const sigma = Math.sqrt(distance1.sigmaMpc ** 2 + distance2.sigmaMpc ** 2);
+    const tensionSigma = sigma > 0
+      ? Math.abs(distance1.distanceMpc - distance2.distanceMpc) / sigma
+      : 0;
+    const weight = tensionSigma <= 1 ? 1 : Math.exp(-0.5 * (tensionSigma * tensionSigma - 1));
+
+    return { distance1, distance2, tensionSigma, weight };
+  }
+
+  // Comparison for a correlated pair, or null when either distance is unknown
+  static comparePair(event1: AstroEvent, event2: AstroEvent): DistanceComparison | null {
+    const distance1 = this.getEventDistance(event1);
+    const distance2 = this.getEventDistance(event2);
+    if (!distance1 || !distance2) return null;
+    return this.compare(distance1, distance2);
+  }
+
+  // Attach a distance weight to candidate hosts of an event and order them
+  // by it. Hosts without a distance keep weight 1 (no evidence either way).
+  static weighHostCandidates<T extends DistanceSource>(
+    event: AstroEvent,
+    hosts: T[]
+  ): Array<T & { distanceComparison: DistanceComparison | null; distanceWeight: number }> {
+    const eventDistance = this.getEventDistance(event);
+
+    return hosts
+      .map(host => {
+        const hostDistance = this.getDistance(host);
+        const distanceComparison = eventDistance && hostDistance
+          ? this.compare(eventDistance, hostDistance)
+          : null;
+        return { ...host, distanceComparison, distanceWeight: distanceComparison?.weight ?? 1 };
+      })
+      .sort((a, b) => b.distanceWeight - a.distanceWeight);
+  }
+}
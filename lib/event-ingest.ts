@@ -0,0 +1,321 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationEngine, CorrelationParams } from './correlation-engine';
+import { CorrelationStore } from './correlation-store';
+import { IncrementalCorrelator } from './incremental-correlation';
+import { SignificanceCalculator } from './significance';
+import { SkymapStore } from './skymap-store';
+import { HealpixSkymap } from './healpix';
+import { GalaxyCatalog } from './galaxy-catalog';
+import { MANUAL_PRIORITY_RULE } from './follow-up-priority';
+import { PriorityStore } from './priority-store';
+import { IdentityResolver } from './identity-resolution';
+import { IdentityStore } from './identity-store';
+import { fetchAllPages } from './paged-query';
+import { AstroTime, EventTime, TIME_FORMATS } from './astro-time';
+import { AstroEvent } from './supabase';
+
+// The insert path shared by POST /api/events and the alert ingest routes:
+// validate, insert, store skymaps, link identities, correlate against the
+// catalog and recompute follow-up priorities.
+
+export type EventValidation =
+  | { ok: true; times: EventTime[] }
+  | { ok: false; error: string };
+
+export interface EventIngestResult {
+  events: AstroEvent[];
+  count: number;
+  skymaps: Awaited<ReturnType<typeof storeEventSkymaps>>;
+  identities: {
+    objectsLinked: number;
+    duplicates: Array<{ eventId: string; canonicalId: string }>;
+    error: string | null;
+  };
+  correlation: Awaited<ReturnType<typeof correlateIngestedEvents>> | null;
+  prioritiesUpdated: number;
+}
+
+export class EventIngest {
+  // Check the required fields of each event. The time may be given as
+  // time_utc or in GPS, Fermi MET, JD or MJD (see AstroTime.resolveEventTime).
+  static validate(events: any[]): EventValidation {
+    const times: EventTime[] = [];
+    for (const event of events) {
+      const { event_id, source, event_type, ra, dec } = event || {};
+      if (!event_id || !source || !event_type || ra === undefined || dec === undefined) {
+        return { ok: false, error: 'Missing required fields: event_id, source, event_type, ra, dec, time_utc' };
+      }
+
+      const eventTime = AstroTime.resolveEventTime(event);
+      if (!eventTime) {
+        return {
+          ok: false,
+          error: `Event ${event_id} needs a valid time: time_utc (ISO 8601, or a number with time_format ${TIME_FORMATS.join('/')}), time_gps, time_met, time_jd or time_mjd`
+        };
+      }
+      times.push(eventTime);
+    }
+    return { ok: true, times };
+  }
+
+  // Insert validated events and run everything that follows an insert.
+  // Only a failed insert is an error; later steps report their failures in
+  // the result without undoing it. Skymaps delivered with the alert itself
+  // are passed in keyed by event_id.
+  static async ingest(
+    client: SupabaseClient<Database>,
+    events: any[],
+    eventTimes: EventTime[],
+    correlationParams: CorrelationParams | null,
+    alertSkymaps: Map<string, HealpixSkymap> = new Map()
+  ): Promise<{ result: EventIngestResult | null; error: Error | null }> {
+    // Insert events; times given in another format are kept in metadata
+    const eventsToInsert = events.map((event: any, i: number) => ({
+      event_id: event.event_id,
+      source: event.source,
+      event_type: event.event_type,
+      ra: event.ra,
+      dec: event.dec,
+      time_utc: eventTimes[i].timeUtc,
+      metadata: eventTimes[i].format === 'utc'
+        ? event.metadata || {}
+        : { ...event.metadata, time_input: { format: eventTimes[i].format, value: eventTimes[i].value } },
+      confidence_score: event.confidence_score || 0,
+      magnitude: event.magnitude,
+      error_radius_deg: event.error_radius_deg,
+      // A posted priority is kept as is; otherwise it is computed below
+      follow_up_priority: event.follow_up_priority ?? 0,
+      follow_up_rule: event.follow_up_priority != null ? MANUAL_PRIORITY_RULE : null,
+    }));
+
+    const { data: insertedEvents, error } = await client
+      .from('astro_events')
+      .insert(eventsToInsert)
+      .select();
+
+    if (error) return { result: null, error: new Error(error.message) };
+    const inserted = (insertedEvents || []) as AstroEvent[];
+
+    // Events naming a skymap file (metadata.skymap_file) get it loaded from
+    // the local skymap directory and stored alongside
+    const skymaps = await storeEventSkymaps(client, inserted, alertSkymaps);
+
+    // New reports of objects already in the catalog are linked to them, and
+    // duplicates are left out of the correlation below
+    const identities = inserted.length > 0
+      ? await resolveIngestedIdentities(client, inserted)
+      : { objectsLinked: 0, duplicateOf: new Map<string, string>(), error: null };
+    const newEvents = inserted.map(event =>
+      identities.duplicateOf.has(event.id) ? { ...event, duplicate_of: identities.duplicateOf.get(event.id) } : event
+    );
+
+    const correlation = correlationParams && newEvents.length > 0
+      ? await correlateIngestedEvents(client, newEvents, correlationParams)
+      : null;
+
+    // Priorities of the new events, and of catalog events that gained
+    // correlations, reflect the correlations just stored
+    const priorityEventIds = [
+      ...inserted.map(e => e.id),
+      ...(correlation?.correlatedEventIds || [])
+    ];
+    const priorities = await PriorityStore.recompute(client, priorityEventIds);
+    if (priorities.error) {
+      console.error('Failed to update follow-up priorities:', priorities.error);
+    }
+
+    // Fetch the events again so the result carries their computed priorities
+    const { data: storedEvents } = priorities.updated > 0
+      ? await client.from('astro_events').select('*').in('id', inserted.map(e => e.id))
+      : { data: null };
+
+    return {
+      result: {
+        events: (storedEvents as AstroEvent[] | null) || inserted,
+        count: inserted.length,
+        skymaps,
+        identities: {
+          objectsLinked: identities.objectsLinked,
+          duplicates: Array.from(identities.duplicateOf, ([eventId, canonicalId]) => ({ eventId, canonicalId })),
+          error: identities.error
+        },
+        correlation,
+        prioritiesUpdated: priorities.updated
+      },
+      error: null
+    };
+  }
+
+  // Stored events whose position, time or skymap changed: their old pairs
+  // are deleted and they are correlated again as if just inserted (when
+  // correlationParams is null the pairs are only deleted). Priorities of the
+  // events, their former partners and their new partners are recomputed.
+  static async recorrelate(
+    client: SupabaseClient<Database>,
+    events: AstroEvent[],
+    correlationParams: CorrelationParams | null
+  ): Promise<{ correlation: EventIngestResult['correlation']; prioritiesUpdated: number; error: Error | null }> {
+    const ids = events.map(e => e.id);
+    const removed = await CorrelationStore.deleteForEvents(client, ids);
+    if (removed.error) return { correlation: null, prioritiesUpdated: 0, error: removed.error };
+
+    const correlation = correlationParams && events.length > 0
+      ? await correlateIngestedEvents(client, events, correlationParams)
+      : null;
+
+    const priorities = await PriorityStore.recompute(client, [
+      ...ids,
+      ...removed.partnerIds,
+      ...(correlation?.correlatedEventIds || [])
+    ]);
+    if (priorities.error) {
+      console.error('Failed to update follow-up priorities:', priorities.error);
+    }
+    return { correlation, prioritiesUpdated: priorities.updated, error: null };
+  }
+}
+
+// Correlate freshly inserted events against the stored catalog within the
+// correlation windows and upsert the resulting pairs. Failures are reported
+// in the response but do not undo the insert.
+async function correlateIngestedEvents(
+  client: SupabaseClient<Database>,
+  newEvents: AstroEvent[],
+  requestParams: CorrelationParams
+) {
+
+  const range = IncrementalCorrelator.getCatalogTimeRange(newEvents, requestParams);
+  if (!range) {
+    return { correlationsFound: 0, clustersFound: 0, catalogEventsConsidered: 0 };
+  }
+
+  const { rows: catalog, error: catalogError } = await fetchAllPages((from, to) => client
+    .from('astro_events')
+    .select('*')
+    .gte('time_utc', range.start)
+    .lte('time_utc', range.end)
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  if (catalogError) {
+    console.error('Failed to fetch catalog for incremental correlation:', catalogError);
+    return { error: 'Failed to correlate new events' };
+  }
+
+  // Background rates come from the whole catalog, as in /api/correlate
+  const { rows: rateEvents, error: ratesError } = await fetchAllPages((from, to) => client
+    .from('astro_events')
+    .select('source, time_utc')
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  if (ratesError) {
+    console.error('Failed to fetch catalog for background rates:', ratesError);
+  }
+
+  const params: CorrelationParams = {
+    ...requestParams,
+    sourceRates: SignificanceCalculator.estimateSourceRates(ratesError ? [...catalog, ...newEvents] : rateEvents)
+  };
+
+  const localized = await SkymapStore.attach(client, [...(catalog as AstroEvent[]), ...newEvents]);
+  const localizedNew = localized.slice(localized.length - newEvents.length);
+  const localizedCatalog = localized.slice(0, localized.length - newEvents.length);
+
+  const result = IncrementalCorrelator.correlateNewEvents(localizedNew, localizedCatalog, params);
+
+  const galaxyCatalog = await GalaxyCatalog.tryLoadDefault();
+  if (galaxyCatalog) {
+    CorrelationEngine.associateHosts(result.correlations, galaxyCatalog);
+  }
+
+  const { error: storeError } = await CorrelationStore.upsert(
+    client, result.correlations, params, result.clusterTypes
+  );
+
+  if (storeError) {
+    console.error('Failed to store incremental correlations:', storeError);
+    return { error: 'Failed to store correlations for new events' };
+  }
+
+  return {
+    correlationsFound: result.correlations.length,
+    clustersFound: result.clusters.length,
+    catalogEventsConsidered: result.catalogEventsConsidered,
+    timeRange: range,
+    correlatedEventIds: result.correlations.flatMap(pair => [pair.event1.id, pair.event2.id])
+  };
+}
+
+// Match freshly inserted events against catalog reports of the same type
+// close in time, and store any groups they join
+async function resolveIngestedIdentities(client: SupabaseClient<Database>, newEvents: AstroEvent[]) {
+  const duplicateOf = new Map<string, string>();
+  const unmatched = (error: string | null) => ({ objectsLinked: 0, duplicateOf, error });
+
+  const times = newEvents.map(e => new Date(e.time_utc).getTime()).filter(t => Number.isFinite(t));
+  if (times.length === 0) return unmatched(null);
+  const paddingMs = IdentityResolver.getMaxTimeTolerance() * 1000;
+
+  const eventTypes = Array.from(new Set(newEvents.map(e => e.event_type)));
+  const { rows: catalog, error: catalogError } = await fetchAllPages((from, to) => client
+    .from('astro_events')
+    .select('*')
+    .in('event_type', eventTypes)
+    .gte('time_utc', new Date(Math.min(...times) - paddingMs).toISOString())
+    .lte('time_utc', new Date(Math.max(...times) + paddingMs).toISOString())
+    .order('id', { ascending: true })
+    .range(from, to));
+
+  if (catalogError) {
+    console.error('Failed to fetch catalog for identity matching:', catalogError);
+    return unmatched('Failed to match new events against the catalog');
+  }
+
+  const newIds = new Set(newEvents.map(e => e.id));
+  const candidates = [...(catalog as AstroEvent[]).filter(e => !newIds.has(e.id)), ...newEvents];
+  const groups = IdentityResolver.resolve(candidates).filter(group => group.members.some(e => newIds.has(e.id)));
+
+  const { error } = await IdentityStore.save(client, groups);
+  if (error) {
+    console.error('Failed to store identity matches:', error);
+    return unmatched('Failed to store identity matches');
+  }
+
+  groups.forEach(group => group.duplicates.forEach(e => duplicateOf.set(e.id, group.canonical.id)));
+  return { objectsLinked: groups.length, duplicateOf, error: null };
+}
+
+async function storeEventSkymaps(
+  client: SupabaseClient<Database>,
+  events: AstroEvent[],
+  alertSkymaps: Map<string, HealpixSkymap>
+) {
+  const results: { event_id: string; file: string | null; error?: string }[] = [];
+
+  for (const event of events) {
+    const alertSkymap = alertSkymaps.get(event.event_id);
+    if (alertSkymap) {
+      const { error } = await SkymapStore.save(client, event.id, alertSkymap);
+      if (error) console.error(`Failed to store the alert skymap for ${event.event_id}:`, error);
+      results.push({ event_id: event.event_id, file: null, ...(error ? { error: error.message } : {}) });
+      continue;
+    }
+
+    const file = event.metadata?.skymap_file;
+    if (typeof file !== 'string' || !file) continue;
+
+    try {
+      const skymap = await SkymapStore.loadFile(file);
+      const { error } = await SkymapStore.save(client, event.id, skymap, file);
+      if (error) throw error;
+      results.push({ event_id: event.event_id, file });
+    } catch (error) {
+      console.error(`Failed to store skymap ${file} for ${event.event_id}:`, error);
+      results.push({ event_id: event.event_id, file, error: (error as Error).message });
+    }
+  }
+
+  return results;
+}
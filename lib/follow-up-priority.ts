@@ -0,0 +1,213 @@
+// Rules that turn what we know about an event into a follow-up priority (0-10)
+
+export const MAX_FOLLOW_UP_PRIORITY = 10;
+
+// Rule name stored for priorities set by whoever posted the event; those are
+// never recomputed
+export const MANUAL_PRIORITY_RULE = 'manual';
+
+export interface PriorityEvent {
+  id: string;
+  event_type: string;
+  time_utc: string;
+  ra: number;
+  dec: number;
+  confidence_score?: number | null;
+  error_radius_deg?: number | null;
+  metadata?: any;
+}
+
+// One stored correlation of the event, with the type of the other event
+export interface PriorityCorrelation {
+  partnerEventType: string;
+  confidenceScore: number;
+}
+
+export interface PriorityContext {
+  event: PriorityEvent;
+  correlations: PriorityCorrelation[];
+  // 90% credible area of the event's skymap, when it has one
+  skymapAreaDeg2: number | null;
+  now: Date;
+  // Latitude of the observatory doing the follow-up; skips the altitude
+  // check when unset
+  observerLatitudeDeg: number | null;
+}
+
+export interface PriorityFactor {
+  rule: string;
+  points: number;
+  reason: string;
+}
+
+export interface PriorityRule {
+  name: string;
+  label: string;
+  evaluate(context: PriorityContext): PriorityFactor | null;
+}
+
+export interface PriorityResult {
+  priority: number;
+  // Rule contributing the most points, or null when nothing raised it
+  rule: string | null;
+  factors: PriorityFactor[];
+}
+
+const toRad = Math.PI / 180;
+const DAY_MS = 86400 * 1000;
+
+// Follow-up below this altitude at transit is impractical
+const MIN_TRANSIT_ALTITUDE_DEG = 20;
+
+function factor(rule: string, points: number, reason: string): PriorityFactor {
+  return { rule, points, reason };
+}
+
+function separationDeg(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const cos = Math.sin(dec1 * toRad) * Math.sin(dec2 * toRad) +
+    Math.cos(dec1 * toRad) * Math.cos(dec2 * toRad) * Math.cos((ra1 - ra2) * toRad);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) / toRad;
+}
+
+// Low-precision solar position (about 0.01 deg), good enough for Sun
+// avoidance
+export function sunPosition(date: Date): { ra: number; dec: number } {
+  const n = date.getTime() / DAY_MS + 2440587.5 - 2451545.0;
+  const meanLongitude = 280.460 + 0.9856474 * n;
+  const meanAnomaly = (357.528 + 0.9856003 * n) * toRad;
+  const longitude = (meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)) * toRad;
+  const obliquity = (23.439 - 0.0000004 * n) * toRad;
+
+  const ra = Math.atan2(Math.cos(obliquity) * Math.sin(longitude), Math.cos(longitude)) / toRad;
+  const dec = Math.asin(Math.sin(obliquity) * Math.sin(longitude)) / toRad;
+  return { ra: (ra + 360) % 360, dec };
+}
+
+function localizationAreaDeg2(context: PriorityContext): number | null {
+  if (context.skymapAreaDeg2 !== null && context.skymapAreaDeg2 > 0) return context.skymapAreaDeg2;
+  const radius = Number(context.event.error_radius_deg);
+  return Number.isFinite(radius) && radius > 0 ? Math.PI * radius * radius : null;
+}
+
+export const PRIORITY_RULES: PriorityRule[] = [
+  {
+    name: 'correlation_membership',
+    label: 'Multi-messenger correlation',
+    evaluate({ event, correlations }) {
+      if (correlations.length === 0) return null;
+      const messengers = new Set([event.event_type, ...correlations.map(c => c.partnerEventType)]);
+      if (messengers.size >= 3) return factor('correlation_membership', 4, `Correlated across ${messengers.size} messengers`);
+      if (messengers.size === 2) return factor('correlation_membership', 3, 'Correlated with another messenger');
+      return factor('correlation_membership', 1, 'Correlated with events of the same messenger');
+    }
+  },
+  {
+    name: 'correlation_confidence',
+    label: 'Strong correlation',
+    evaluate({ correlations }) {
+      if (correlations.length === 0) return null;
+      const best = Math.max(...correlations.map(c => c.confidenceScore));
+      return factor('correlation_confidence', 2 * best, `Best correlation score ${best.toFixed(2)}`);
+    }
+  },
+  {
+    name: 'detection_confidence',
+    label: 'Confident detection',
+    evaluate({ event }) {
+      const confidence = Number(event.confidence_score);
+      if (!Number.isFinite(confidence) || confidence <= 0) return null;
+      return factor('detection_confidence', Math.min(1, confidence), `Detection confidence ${confidence.toFixed(2)}`);
+    }
+  },
+  {
+    name: 'recency',
+    label: 'Recent event',
+    evaluate({ event, now }) {
+      const ageMs = now.getTime() - new Date(event.time_utc).getTime();
+      if (!Number.isFinite(ageMs)) return null;
+      const ageDays = Math.max(0, ageMs) / DAY_MS;
+      if (ageDays < 1) return factor('recency', 2, 'Detected within the last day');
+      if (ageDays < 3) return factor('recency', 1, 'Detected within the last 3 days');
+      if (ageDays < 14) return factor('recency', 0.5, 'Detected within the last 2 weeks');
+      return null;
+    }
+  },
+  {
+    name: 'localization',
+    label: 'Well localized',
+    evaluate(context) {
+      const area = localizationAreaDeg2(context);
+      if (area === null) return null;
+      const shown = area < 0.01 ? area.toExponential(1) : area < 1 ? area.toFixed(2) : area.toFixed(0);
+      const reason = `Localized to ${shown} deg²`;
+      if (area <= 1) return factor('localization', 1.5, reason);
+      if (area <= 100) return factor('localization', 1, reason);
+      if (area <= 1000) return factor('localization', 0.5, reason);
+      return null;
+    }
+  },
+  {
+    name: 'classification',
+    label: 'Promising classification',
+    evaluate({ event }) {
+      const classification = String(event.metadata?.classification ?? '').toLowerCase();
+      const mass2 = Number(event.metadata?.mass2);
+
+      if (classification === 'kilonova') return factor('classification', 2, 'Classified as a kilonova');
+      if (['bns', 'nsbh'].includes(classification) ||
+          (event.event_type === 'gravitational_wave' && Number.isFinite(mass2) && mass2 > 0 && mass2 < 3)) {
+        return factor('classification', 2, 'Merger involving a neutron star');
+      }
+      if (event.event_type === 'gamma_ray_burst' && classification === 'short') {
+        return factor('classification', 1.5, 'Short gamma-ray burst');
+      }
+      return null;
+    }
+  },
+  {
+    name: 'observability',
+    label: 'Hard to observe',
+    evaluate({ event, now, observerLatitudeDeg }) {
+      // Unlocalized events sit at a placeholder position
+      if (event.metadata?.localization === 'none') return null;
+      if (observerLatitudeDeg !== null) {
+        const transitAltitude = 90 - Math.abs(observerLatitudeDeg - event.dec);
+        if (transitAltitude < MIN_TRANSIT_ALTITUDE_DEG) {
+          return factor('observability', -3, `Transits at ${transitAltitude.toFixed(0)}° altitude`);
+        }
+      }
+
+      const sun = sunPosition(now);
+      const sunSeparation = separationDeg(event.ra, event.dec, sun.ra, sun.dec);
+      if (sunSeparation < 30) return factor('observability', -3, `${sunSeparation.toFixed(0)}° from the Sun`);
+      if (sunSeparation < 50) return factor('observability', -1, `${sunSeparation.toFixed(0)}° from the Sun`);
+      return null;
+    }
+  }
+];
+
+export class FollowUpPriority {
+  // Sum the points of every rule, clamped to 0-10 and rounded to the
+  // integer stored in astro_events.follow_up_priority
+  static compute(context: PriorityContext, rules: PriorityRule[] = PRIORITY_RULES): PriorityResult {
+    const factors = rules
+      .map(rule => rule.evaluate(context))
+      .filter((f): f is PriorityFactor => f !== null && f.points !== 0);
+
+    const total = factors.reduce((sum, f) => sum + f.points, 0);
+    const priority = Math.round(Math.max(0, Math.min(MAX_FOLLOW_UP_PRIORITY, total)));
+
+    const trigger = factors
+      .filter(f => f.points > 0)
+      .reduce<PriorityFactor | null>((best, f) => (best === null || f.points > best.points ? f : best), null);
+
+    return { priority, rule: trigger?.rule ?? null, factors };
+  }
+
+  // Display label for a stored rule name
+  static describeRule(rule: string | null | undefined): string | null {
+    if (!rule) return null;
+    if (rule === MANUAL_PRIORITY_RULE) return 'Set manually';
+    return PRIORITY_RULES.find(r => r.name === rule)?.label ?? rule;
+  }
+}
@@ -0,0 +1,167 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SkyGrid } from './sky-index';
+
+// Local galaxy catalog for host searches, read from a GLADE-style CSV
+// (GLADE+ column names: ra, dec, d_L, d_L_err, B, B_Abs, z_cmb). Only ra
+// and dec are required; a name column (name, GWGC, HyperLEDA or GLADE_no)
+// labels the rows.
+
+export const GALAXY_CATALOG_PATH = process.env.GALAXY_CATALOG_PATH ||
+  path.join(process.cwd(), 'fixtures', 'galaxies', 'glade-subset.csv');
+
+export interface Galaxy {
+  name: string;
+  ra: number;
+  dec: number;
+  // Luminosity distance and its 1-sigma uncertainty (Mpc)
+  distanceMpc: number | null;
+  distanceErrorMpc: number | null;
+  // Apparent and absolute B-band magnitudes
+  magnitudeB: number | null;
+  absoluteMagnitudeB: number | null;
+  redshift: number | null;
+}
+
+export interface ConeSearchResult {
+  galaxy: Galaxy;
+  separationDeg: number;
+}
+
+const NAME_COLUMNS = ['name', 'gwgc', 'hyperleda', 'pgc', 'glade_no'];
+
+// Grid cell size for cone searches
+const INDEX_CELL_DEG = 1;
+
+const toRad = Math.PI / 180;
+
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function numberOrNull(value: string | undefined): number | null {
+  if (value === undefined || value === '' || /^(nan|null)$/i.test(value)) return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function separationDeg(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const cos = Math.sin(dec1 * toRad) * Math.sin(dec2 * toRad) +
+    Math.cos(dec1 * toRad) * Math.cos(dec2 * toRad) * Math.cos((ra1 - ra2) * toRad);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) / toRad;
+}
+
+export class GalaxyCatalog {
+  readonly galaxies: Galaxy[];
+  private readonly index: SkyGrid<number>;
+
+  private static defaultCatalog: Promise<GalaxyCatalog> | null = null;
+
+  constructor(galaxies: Galaxy[]) {
+    this.galaxies = galaxies;
+    this.index = new SkyGrid<number>(INDEX_CELL_DEG);
+    galaxies.forEach((galaxy, i) => this.index.insert(galaxy.ra, galaxy.dec, i));
+  }
+
+  static parseCsv(text: string): GalaxyCatalog {
+    const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.startsWith('#'));
+    if (lines.length === 0) return new GalaxyCatalog([]);
+
+    const header = splitCsvLine(lines[0]).map(h => h.toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const raIndex = column('ra');
+    const decIndex = column('dec');
+    if (raIndex === -1 || decIndex === -1) {
+      throw new Error('Galaxy catalog needs ra and dec columns');
+    }
+    const nameIndex = NAME_COLUMNS.map(column).find(i => i !== -1) ?? -1;
+
+    const galaxies: Galaxy[] = [];
+    lines.slice(1).forEach((line, row) => {
+      const fields = splitCsvLine(line);
+      const ra = numberOrNull(fields[raIndex]);
+      const dec = numberOrNull(fields[decIndex]);
+      if (ra === null || dec === null || Math.abs(dec) > 90) return;
+
+      const get = (name: string) => numberOrNull(fields[column(name)]);
+      galaxies.push({
+        name: (nameIndex !== -1 && fields[nameIndex]) || `row ${row + 1}`,
+        ra,
+        dec,
+        distanceMpc: get('d_l'),
+        distanceErrorMpc: get('d_l_err'),
+        magnitudeB: get('b'),
+        absoluteMagnitudeB: get('b_abs'),
+        redshift: get('z_cmb') ?? get('z_helio') ?? get('z')
+      });
+    });
+
+    return new GalaxyCatalog(galaxies);
+  }
+
+  static async fromFile(filePath: string): Promise<GalaxyCatalog> {
+    return this.parseCsv(await fs.readFile(filePath, 'utf8'));
+  }
+
+  // Catalog at GALAXY_CATALOG_PATH, read once per process
+  static loadDefault(): Promise<GalaxyCatalog> {
+    if (!this.defaultCatalog) {
+      this.defaultCatalog = this.fromFile(GALAXY_CATALOG_PATH).catch(error => {
+        this.defaultCatalog = null;
+        throw error;
+      });
+    }
+    return this.defaultCatalog;
+  }
+
+  // Default catalog, or null (logged) when it cannot be read; host ranking is
+  // optional and should not fail a correlation run
+  static async tryLoadDefault(): Promise<GalaxyCatalog | null> {
+    try {
+      return await this.loadDefault();
+    } catch (error) {
+      console.error(`Galaxy catalog unavailable at ${GALAXY_CATALOG_PATH}:`, error);
+      return null;
+    }
+  }
+
+  // Galaxies within radiusDeg of a position, nearest first
+  coneSearch(ra: number, dec: number, radiusDeg: number): ConeSearchResult[] {
+    const results: ConeSearchResult[] = [];
+
+    for (const bucket of this.index.bucketsNear(ra, dec, radiusDeg)) {
+      for (const i of bucket.items) {
+        const galaxy = this.galaxies[i];
+        const separation = separationDeg(ra, dec, galaxy.ra, galaxy.dec);
+        if (separation <= radiusDeg) results.push({ galaxy, separationDeg: separation });
+      }
+    }
+
+    return results.sort((a, b) => a.separationDeg - b.separationDeg);
+  }
+}
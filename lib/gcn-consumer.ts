@@ -0,0 +1,187 @@
+import { promises as fs } from 'fs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationParams } from './correlation-engine';
+import { GCN_JSON_TOPICS, GcnJsonAlerts } from './gcn-json-alerts';
+import { GcnNotices, NoticeAction, NoticeIngestResult } from './gcn-notices';
+
+// Consumes GCN Kafka JSON alerts and applies them like any other notice.
+// The broker is reached through a GcnTransport, so a Kafka client, a file of
+// recorded alerts or an in-memory queue can feed the same consumer.
+
+export interface GcnMessage {
+  topic: string;
+  // Message value as received: the alert's JSON text
+  value: string;
+  // Position of the message within its topic
+  offset: number;
+}
+
+export interface GcnTransport {
+  subscribe(topics: string[]): Promise<void>;
+  // The next messages on the subscribed topics, waiting until some arrive.
+  // null once the transport is closed or a replay has been read through.
+  poll(): Promise<GcnMessage[] | null>;
+  close(): Promise<void>;
+}
+
+export interface GcnConsumeOptions {
+  // Topics to read, default every supported one (GCN_JSON_TOPICS)
+  topics?: string[];
+  // Correlation run for newly created events; null skips it
+  correlationParams: CorrelationParams | null;
+  onResult?: (message: GcnMessage, result: NoticeIngestResult) => void;
+}
+
+export interface GcnConsumeSummary {
+  received: number;
+  actions: Partial<Record<NoticeAction, number>>;
+  failures: Array<{ topic: string; offset: number; error: string }>;
+}
+
+// Next offset for a topic, counting from 0
+function nextOffset(offsets: Map<string, number>, topic: string): number {
+  const offset = offsets.get(topic) ?? 0;
+  offsets.set(topic, offset + 1);
+  return offset;
+}
+
+// A broker stand-in: messages published to it are delivered to its
+// subscriber in order. poll() waits for a publish until the queue is closed.
+export class InMemoryTransport implements GcnTransport {
+  private queue: GcnMessage[] = [];
+  private topics = new Set<string>();
+  private offsets = new Map<string, number>();
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  publish(topic: string, alert: string | object): void {
+    if (this.closed) throw new Error('Transport is closed');
+    const value = typeof alert === 'string' ? alert : JSON.stringify(alert);
+    this.queue.push({ topic, value, offset: nextOffset(this.offsets, topic) });
+    this.notify();
+  }
+
+  async subscribe(topics: string[]): Promise<void> {
+    this.topics = new Set(topics);
+  }
+
+  async poll(): Promise<GcnMessage[] | null> {
+    for (;;) {
+      const batch = this.queue.filter(message => this.topics.has(message.topic));
+      this.queue = [];
+      if (batch.length > 0) return batch;
+      if (this.closed) return null;
+      await new Promise<void>(resolve => { this.wake = resolve; });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.notify();
+  }
+
+  private notify() {
+    const wake = this.wake;
+    this.wake = null;
+    if (wake) wake();
+  }
+}
+
+// Replays recorded alerts from a JSON Lines file, one message per line:
+// { "topic": "igwn.gwalert", "value": { ...alert } }. The value may also be
+// the alert's JSON text. Lines on other topics are skipped.
+export class FileReplayTransport implements GcnTransport {
+  private topics = new Set<string>();
+  // Messages not yet returned; null until the file has been read
+  private pending: GcnMessage[] | null = null;
+  private closed = false;
+
+  constructor(private readonly path: string, private readonly batchSize: number = 50) {}
+
+  async subscribe(topics: string[]): Promise<void> {
+    this.topics = new Set(topics);
+  }
+
+  async poll(): Promise<GcnMessage[] | null> {
+    if (this.closed) return null;
+    if (!this.pending) this.pending = await this.read();
+    return this.pending.length > 0 ? this.pending.splice(0, this.batchSize) : null;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.pending = [];
+  }
+
+  private async read(): Promise<GcnMessage[]> {
+    const lines = (await fs.readFile(this.path, 'utf8')).split('\n');
+    const offsets = new Map<string, number>();
+    const messages: GcnMessage[] = [];
+
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      let record: { topic?: unknown; value?: unknown };
+      try {
+        record = JSON.parse(line);
+      } catch (error) {
+        throw new Error(`${this.path}:${index + 1}: ${(error as Error).message}`);
+      }
+      if (typeof record.topic !== 'string' || record.value === undefined) {
+        throw new Error(`${this.path}:${index + 1}: expected { "topic": ..., "value": ... }`);
+      }
+      const offset = nextOffset(offsets, record.topic);
+      if (!this.topics.has(record.topic)) return;
+      const value = typeof record.value === 'string' ? record.value : JSON.stringify(record.value);
+      messages.push({ topic: record.topic, value, offset });
+    });
+
+    return messages;
+  }
+}
+
+export class GcnConsumer {
+  // Read alerts until the transport runs dry or closes. A message that fails
+  // to parse or ingest is counted in failures and does not stop the run.
+  static async consume(
+    client: SupabaseClient<Database>,
+    transport: GcnTransport,
+    options: GcnConsumeOptions
+  ): Promise<GcnConsumeSummary> {
+    const topics = options.topics ?? GCN_JSON_TOPICS;
+    const unsupported = topics.filter(topic => !GcnJsonAlerts.supports(topic));
+    if (unsupported.length > 0) {
+      throw new Error(`Unsupported alert topics: ${unsupported.join(', ')}; supported: ${GCN_JSON_TOPICS.join(', ')}`);
+    }
+
+    const summary: GcnConsumeSummary = { received: 0, actions: {}, failures: [] };
+    await transport.subscribe(topics);
+
+    try {
+      for (;;) {
+        const batch = await transport.poll();
+        if (!batch) break;
+
+        for (const message of batch) {
+          summary.received++;
+          try {
+            const notice = GcnJsonAlerts.fromMessage(message.topic, message.value);
+            const { result, error } = await GcnNotices.ingest(client, notice, options.correlationParams);
+            if (error || !result) throw error ?? new Error('Failed to ingest notice');
+
+            const action = result.notice.action;
+            summary.actions[action] = (summary.actions[action] ?? 0) + 1;
+            if (options.onResult) options.onResult(message, result);
+          } catch (error) {
+            console.error(`Failed to ingest ${message.topic} message ${message.offset}:`, error);
+            summary.failures.push({ topic: message.topic, offset: message.offset, error: (error as Error).message });
+          }
+        }
+      }
+    } finally {
+      await transport.close();
+    }
+
+    return summary;
+  }
+}
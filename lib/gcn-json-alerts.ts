@@ -0,0 +1,228 @@
+import type { RawAstroEvent } from './astro-apis';
+import { UNLOCALIZED_ERROR_RADIUS_DEG } from './correlation-engine';
+import { GcnNotice, NoticeRole, SECONDS_PER_YEAR } from './gcn-notices';
+import { HealpixSkymap } from './healpix';
+import { SkymapLoader } from './skymap-loader';
+
+// Maps the JSON alerts GCN distributes over Kafka to notices. Each topic has
+// its own schema:
+// - igwn.gwalert: LVK alerts (alert_type, superevent_id, time_created and an
+//   event with the FAR in Hz, classification and a base64 multi-order FITS
+//   skymap). Mock superevents (ids starting with 'M') are test notices.
+// - gcn.notices.icecube.gold_bronze_track_alerts: IceCube tracks in the GCN
+//   unified schema (trigger_time, ra, dec, ra_dec_error in degrees, far in
+//   Hz, run_id and event_id)
+
+export const LVK_ALERT_TOPIC = 'igwn.gwalert';
+export const ICECUBE_TRACK_TOPIC = 'gcn.notices.icecube.gold_bronze_track_alerts';
+
+export const GCN_JSON_TOPICS = [LVK_ALERT_TOPIC, ICECUBE_TRACK_TOPIC];
+
+// Keys holding base64 skymaps. They are parsed into the notice and left out
+// of the copy stored in gcn_notices.
+const SKYMAP_KEYS = ['skymap', 'combined_skymap'];
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function finite(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+function text(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function toIso(value: unknown): string | null {
+  const time = text(value);
+  if (!time) return null;
+  const ms = Date.parse(time);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+// The alert with every base64 skymap replaced by its size
+function withoutSkymaps(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(withoutSkymaps);
+  if (!isObject(value)) return value;
+  const copy: JsonObject = {};
+  for (const [key, entry] of Object.entries(value)) {
+    copy[key] = SKYMAP_KEYS.includes(key) && typeof entry === 'string'
+      ? `<${Buffer.byteLength(entry, 'base64')} bytes omitted>`
+      : withoutSkymaps(entry);
+  }
+  return copy;
+}
+
+// Most probable class from a { class: probability } object
+function mostProbable(probabilities: JsonObject): string | null {
+  let best: string | null = null;
+  let bestProbability = -Infinity;
+  for (const [name, value] of Object.entries(probabilities)) {
+    const probability = finite(value);
+    if (probability !== null && probability > bestProbability) {
+      best = name;
+      bestProbability = probability;
+    }
+  }
+  return best;
+}
+
+export class GcnJsonAlerts {
+  static supports(topic: string): boolean {
+    return GCN_JSON_TOPICS.includes(topic);
+  }
+
+  // Parse a message value from a topic and map it to a notice. Throws when
+  // the topic is not supported or the alert does not follow its schema.
+  static fromMessage(topic: string, value: string): GcnNotice {
+    let alert: unknown;
+    try {
+      alert = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`Alert on ${topic} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (!isObject(alert)) throw new Error(`Alert on ${topic} is not a JSON object`);
+
+    const stored = withoutSkymaps(alert);
+    const base = { format: 'json' as const, parsed: stored, payload: JSON.stringify(stored) };
+
+    switch (topic) {
+      case LVK_ALERT_TOPIC:
+        return { ...base, ...this.fromLvkAlert(topic, alert) };
+      case ICECUBE_TRACK_TOPIC:
+        return { ...base, ...this.fromIceCubeTrack(topic, alert) };
+      default:
+        throw new Error(`Unsupported alert topic ${topic}; supported: ${GCN_JSON_TOPICS.join(', ')}`);
+    }
+  }
+
+  private static fromLvkAlert(topic: string, alert: JsonObject): Omit<GcnNotice, 'format' | 'parsed' | 'payload'> {
+    const supereventId = text(alert.superevent_id);
+    const alertType = text(alert.alert_type)?.toUpperCase();
+    if (!supereventId || !alertType) throw new Error('LVK alert needs superevent_id and alert_type');
+
+    const issued = toIso(alert.time_created);
+    const id = `${topic}:${supereventId}:${alertType}:${issued ?? text(alert.time_created) ?? ''}`;
+    const role: NoticeRole = supereventId.startsWith('M') ? 'test' : 'observation';
+    const base = { id, role, stream: 'LIGO-Virgo', issued };
+
+    if (alertType === 'RETRACTION') {
+      return { ...base, event: null, retracts: { eventIds: [supereventId], noticeIds: [] } };
+    }
+
+    const event = alert.event;
+    if (!isObject(event)) throw new Error(`LVK ${alertType} alert for ${supereventId} has no event`);
+    const time = toIso(event.time);
+    if (!time) throw new Error(`LVK alert for ${supereventId} has no valid event time`);
+
+    let skymap: HealpixSkymap | null = null;
+    const encoded = text(event.skymap);
+    if (encoded) {
+      try {
+        skymap = SkymapLoader.parseFits(Buffer.from(encoded, 'base64'));
+      } catch (error) {
+        throw new Error(`LVK alert for ${supereventId} has an unreadable skymap: ${(error as Error).message}`);
+      }
+    }
+    const position = skymap?.peak() ?? null;
+
+    const metadata: JsonObject = {
+      notice_ids: [id],
+      notice_role: role,
+      notice_issued: issued,
+      gcn_topic: topic,
+      alert_type: alertType,
+      localization: position ? 'skymap_peak' : 'none'
+    };
+    const far = finite(event.far);
+    if (far !== null) metadata.false_alarm_rate_per_year = far * SECONDS_PER_YEAR;
+    if (typeof event.significant === 'boolean') metadata.significant = event.significant;
+    if (Array.isArray(event.instruments)) metadata.instruments = event.instruments;
+    for (const key of ['group', 'pipeline', 'search']) {
+      const value = text(event[key]);
+      if (value) metadata[key] = value;
+    }
+    if (isObject(event.classification)) {
+      metadata.classification = mostProbable(event.classification);
+      metadata.classification_probabilities = event.classification;
+    }
+    if (isObject(event.properties)) metadata.properties = event.properties;
+    if (isObject(alert.urls) && text(alert.urls.gracedb)) metadata.gracedb_url = text(alert.urls.gracedb);
+    if (isObject(alert.external_coinc)) metadata.external_coinc = withoutSkymaps(alert.external_coinc);
+
+    const raw: RawAstroEvent = {
+      event_id: supereventId,
+      source: 'LIGO-Virgo',
+      event_type: 'gravitational_wave',
+      ra: position ? position.ra : 0,
+      dec: position ? position.dec : 0,
+      time_utc: time,
+      ...(position ? {} : { error_radius_deg: UNLOCALIZED_ERROR_RADIUS_DEG }),
+      metadata
+    };
+    return { ...base, event: raw, retracts: null, skymap };
+  }
+
+  private static fromIceCubeTrack(topic: string, alert: JsonObject): Omit<GcnNotice, 'format' | 'parsed' | 'payload'> {
+    const run = text(alert.run_id);
+    const number = text(alert.event_id);
+    if (!run || !number) throw new Error('IceCube alert needs run_id and event_id');
+
+    // Same event_id as the AMON VOEvent stream, so both routes meet
+    const eventId = `IceCube_${run}_${number}`;
+    const issued = toIso(alert.alert_datetime);
+    const revision = text(alert.record_number) ?? issued ?? '';
+    const id = `${topic}:${run}_${number}:${revision}`;
+    const role: NoticeRole = text(alert.alert_tense) === 'test' ? 'test' : 'observation';
+    const base = { id, role, stream: 'IceCube', issued };
+
+    if (text(alert.alert_type)?.toLowerCase() === 'retraction') {
+      return { ...base, event: null, retracts: { eventIds: [eventId], noticeIds: [] } };
+    }
+
+    const time = toIso(alert.trigger_time);
+    const ra = finite(alert.ra);
+    const dec = finite(alert.dec);
+    if (!time || ra === null || dec === null) {
+      throw new Error(`IceCube alert ${eventId} needs trigger_time, ra and dec`);
+    }
+
+    // Scalar fields as sent, like gcn_params for VOEvent notices
+    const params: JsonObject = {};
+    for (const [key, value] of Object.entries(alert)) {
+      if (value === null || typeof value !== 'object') params[key] = value;
+    }
+
+    const metadata: JsonObject = {
+      notice_ids: [id],
+      notice_role: role,
+      notice_issued: issued,
+      gcn_topic: topic,
+      gcn_params: params
+    };
+    const far = finite(alert.far);
+    if (far !== null) metadata.false_alarm_rate_per_year = far * SECONDS_PER_YEAR;
+    const signalness = finite(alert.signalness);
+    if (signalness !== null) metadata.signalness = signalness;
+    const containment = finite(alert.containment_probability);
+    if (containment !== null) metadata.containment_probability = containment;
+
+    const errorRadius = finite(alert.ra_dec_error);
+    const raw: RawAstroEvent = {
+      event_id: eventId,
+      source: 'IceCube',
+      event_type: 'neutrino',
+      ra: ra >= 0 && ra < 360 ? ra : ((ra % 360) + 360) % 360,
+      dec,
+      time_utc: time,
+      ...(errorRadius !== null && errorRadius > 0 ? { error_radius_deg: errorRadius } : {}),
+      metadata
+    };
+    return { ...base, event: raw, retracts: null };
+  }
+}
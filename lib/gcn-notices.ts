@@ -0,0 +1,449 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { toJson } from './json';
+import type { RawAstroEvent } from './astro-apis';
+import { CorrelationParams, UNLOCALIZED_ERROR_RADIUS_DEG } from './correlation-engine';
+import { CorrelationStore } from './correlation-store';
+import { EventIngest, EventIngestResult } from './event-ingest';
+import { HealpixSkymap } from './healpix';
+import { PriorityStore } from './priority-store';
+import { SkymapStore } from './skymap-store';
+import { AstroEvent } from './supabase';
+import { VOEventNotice, VOEventParser, VOEventRole } from './voevent';
+
+// Alert notices from GCN. Each notice is recorded in gcn_notices and then:
+// - role "test": recorded only
+// - a retraction: the events it withdraws get status 'retracted' and lose
+//   their stored correlations
+// - otherwise: creates its event through the POST /api/events insert path,
+//   or updates and re-correlates the event when an earlier notice already
+//   created it (e.g. a Fermi-GBM ground position refining the flight
+//   position); a notice issued before the one already applied only fills
+//   in missing metadata
+
+export type NoticeFormat = 'voevent' | 'json';
+
+export type NoticeRole = VOEventRole;
+
+export type NoticeAction =
+  | 'created'
+  | 'updated'
+  | 'superseded'
+  | 'retracted'
+  | 'unmatched_retraction'
+  | 'test'
+  | 'duplicate';
+
+// Actions stored in gcn_notices; a duplicate is never stored again
+type AppliedNoticeAction = Exclude<NoticeAction, 'duplicate'>;
+
+export interface GcnNotice {
+  // VOEvent IVORN or the stream's own notice identifier
+  id: string;
+  format: NoticeFormat;
+  role: NoticeRole;
+  // Instrument stream, e.g. 'Fermi-GBM'
+  stream: string;
+  issued: string | null;
+  // The event the notice reports; null for retractions
+  event: RawAstroEvent | null;
+  // What a retraction withdraws: events by event_id, and events created or
+  // updated by the cited notices
+  retracts: { eventIds: string[]; noticeIds: string[] } | null;
+  // Skymap carried in the notice itself (LVK JSON alerts)
+  skymap?: HealpixSkymap | null;
+  parsed: unknown;
+  payload: string;
+}
+
+export interface NoticeIngestResult {
+  notice: { id: string; role: NoticeRole; stream: string; action: NoticeAction };
+  // Events created, updated or retracted
+  events: AstroEvent[];
+  // The full insert result when the notice created its event
+  ingest: EventIngestResult | null;
+  // Correlations found again for an event the notice updated
+  correlation?: EventIngestResult['correlation'];
+}
+
+interface VOEventStream {
+  ivorn: RegExp;
+  source: string;
+  eventType: string;
+  // event_id shared by every notice about the same trigger
+  eventId(notice: VOEventNotice): string | null;
+}
+
+export const SECONDS_PER_YEAR = 365.25 * 86400;
+
+const VOEVENT_STREAMS: VOEventStream[] = [
+  {
+    ivorn: /^ivo:\/\/gwnet\/LVC#/,
+    source: 'LIGO-Virgo',
+    eventType: 'gravitational_wave',
+    eventId: notice => VOEventParser.param(notice, 'GraceID')
+  },
+  {
+    ivorn: /^ivo:\/\/nasa\.gsfc\.gcn\/Fermi#GBM_/,
+    source: 'Fermi-GBM',
+    eventType: 'gamma_ray_burst',
+    eventId: notice => prefixed('GBM', VOEventParser.param(notice, 'TrigID'))
+  },
+  {
+    ivorn: /^ivo:\/\/nasa\.gsfc\.gcn\/SWIFT#BAT_/,
+    source: 'Swift-BAT',
+    eventType: 'gamma_ray_burst',
+    eventId: notice => prefixed('BAT', VOEventParser.param(notice, 'TrigID'))
+  },
+  {
+    ivorn: /^ivo:\/\/nasa\.gsfc\.gcn\/AMON#ICECUBE_/,
+    source: 'IceCube',
+    eventType: 'neutrino',
+    eventId: notice => {
+      const run = VOEventParser.param(notice, 'run_id');
+      const event = VOEventParser.param(notice, 'event_id');
+      return run && event ? `IceCube_${run}_${event}` : null;
+    }
+  }
+];
+
+function noticeSummary(notice: GcnNotice, action: NoticeAction): NoticeIngestResult['notice'] {
+  return { id: notice.id, role: notice.role, stream: notice.stream, action };
+}
+
+function prefixed(prefix: string, id: string | null): string | null {
+  return id ? `${prefix}_${id}` : null;
+}
+
+// Most probable source class from an LVK Classification group
+function lvkClassification(notice: VOEventNotice): string | null {
+  const classes = notice.params
+    .filter(param => param.group === 'Classification')
+    .map(param => ({ name: param.name, probability: Number(param.value) }))
+    .filter(entry => Number.isFinite(entry.probability));
+  if (classes.length === 0) return null;
+  return classes.reduce((best, entry) => entry.probability > best.probability ? entry : best).name;
+}
+
+export class GcnNotices {
+  // Parse a VOEvent notice and map it to its stream's event
+  static fromVOEvent(xml: string): GcnNotice {
+    const notice = VOEventParser.parse(xml);
+    const stream = VOEVENT_STREAMS.find(s => s.ivorn.test(notice.ivorn));
+    if (!stream) {
+      throw new Error(`Unsupported notice stream for ${notice.ivorn}; supported: LVK, Fermi-GBM, Swift-BAT, IceCube`);
+    }
+
+    const eventId = stream.eventId(notice);
+    const base = {
+      id: notice.ivorn,
+      format: 'voevent' as const,
+      role: notice.role,
+      stream: stream.source,
+      issued: notice.issued,
+      parsed: notice,
+      payload: xml
+    };
+
+    if (VOEventParser.isRetraction(notice)) {
+      return {
+        ...base,
+        event: null,
+        retracts: {
+          eventIds: eventId ? [eventId] : [],
+          noticeIds: notice.citations.filter(c => c.cite === 'retraction').map(c => c.ivorn)
+        }
+      };
+    }
+
+    if (!eventId) throw new Error(`Notice ${notice.ivorn} does not identify its trigger`);
+    if (!notice.time) throw new Error(`Notice ${notice.ivorn} has no event time`);
+
+    return { ...base, event: this.voEventToRawEvent(notice, stream, eventId, notice.time), retracts: null };
+  }
+
+  private static voEventToRawEvent(
+    notice: VOEventNotice,
+    stream: VOEventStream,
+    eventId: string,
+    time: string
+  ): RawAstroEvent {
+    const params: Record<string, string> = {};
+    notice.params.forEach(param => {
+      const key = param.group && params[param.name] !== undefined ? `${param.group}.${param.name}` : param.name;
+      params[key] = param.value;
+    });
+
+    const metadata: Record<string, unknown> = {
+      ivorn: notice.ivorn,
+      notice_ids: [notice.ivorn],
+      notice_role: notice.role,
+      notice_issued: notice.issued,
+      gcn_params: params
+    };
+    if (notice.importance !== null) metadata.importance = notice.importance;
+    if (notice.description) metadata.description = notice.description;
+    if (notice.citations.length > 0) metadata.citations = notice.citations;
+    if (notice.position?.coordSystem) metadata.coord_system = notice.position.coordSystem;
+
+    if (stream.eventType === 'gamma_ray_burst') {
+      metadata.trigger_id = VOEventParser.param(notice, 'TrigID');
+    }
+    if (stream.eventType === 'gravitational_wave') {
+      const far = VOEventParser.numericParam(notice, 'FAR');
+      if (far !== null) metadata.false_alarm_rate_per_year = far * SECONDS_PER_YEAR;
+      const classification = lvkClassification(notice);
+      if (classification) metadata.classification = classification;
+      const skymapUrl = VOEventParser.param(notice, 'skymap_fits');
+      if (skymapUrl) metadata.skymap_url = skymapUrl;
+    }
+
+    // GW notices carry their localization in a skymap, not WhereWhen
+    const position = stream.eventType === 'gravitational_wave' ? null : notice.position;
+    if (!position) metadata.localization = 'none';
+
+    const errorRadius = position ? position.errorRadiusDeg : UNLOCALIZED_ERROR_RADIUS_DEG;
+    return {
+      event_id: eventId,
+      source: stream.source,
+      event_type: stream.eventType,
+      ra: position ? position.ra : 0,
+      dec: position ? position.dec : 0,
+      time_utc: time,
+      ...(errorRadius !== null && errorRadius > 0 ? { error_radius_deg: errorRadius } : {}),
+      metadata
+    };
+  }
+
+  // Apply a notice. The notice is claimed in gcn_notices first, so one
+  // already received (or being applied by a concurrent delivery) is not
+  // applied again; a notice that fails to apply is released for a retry.
+  static async ingest(
+    client: SupabaseClient<Database>,
+    notice: GcnNotice,
+    correlationParams: CorrelationParams | null
+  ): Promise<{ result: NoticeIngestResult | null; error: Error | null }> {
+    const { claimed, error: claimError } = await this.claim(client, notice);
+    if (claimError) return { result: null, error: claimError };
+    if (!claimed) {
+      return { result: { notice: noticeSummary(notice, 'duplicate'), events: [], ingest: null }, error: null };
+    }
+
+    const { result, error } = await this.apply(client, notice, correlationParams);
+    if (error || !result) {
+      const released = await this.release(client, notice);
+      if (released.error) console.error(`Failed to release notice ${notice.id}:`, released.error);
+      return { result: null, error: error ?? new Error(`Failed to apply notice ${notice.id}`) };
+    }
+
+    const { error: recordError } = await this.record(
+      client, notice, result.notice.action as AppliedNoticeAction, result.events[0]?.id ?? null
+    );
+    return recordError ? { result: null, error: recordError } : { result, error: null };
+  }
+
+  private static async apply(
+    client: SupabaseClient<Database>,
+    notice: GcnNotice,
+    correlationParams: CorrelationParams | null
+  ): Promise<{ result: NoticeIngestResult | null; error: Error | null }> {
+    if (notice.role === 'test') {
+      return { result: { notice: noticeSummary(notice, 'test'), events: [], ingest: null }, error: null };
+    }
+
+    if (notice.retracts) {
+      const { events, error } = await this.retract(client, notice);
+      if (error) return { result: null, error };
+      const action = events.length > 0 ? 'retracted' : 'unmatched_retraction';
+      return { result: { notice: noticeSummary(notice, action), events, ingest: null }, error: null };
+    }
+
+    if (!notice.event) return { result: null, error: new Error(`Notice ${notice.id} reports no event`) };
+
+    const { data: existing, error: existingError } = await client
+      .from('astro_events')
+      .select('*')
+      .eq('event_id', notice.event.event_id)
+      .maybeSingle();
+    if (existingError) return { result: null, error: new Error(existingError.message) };
+
+    if (existing) {
+      const { event, superseded, correlation, error } = await this.update(
+        client, existing as AstroEvent, notice, correlationParams
+      );
+      if (error || !event) return { result: null, error: error ?? new Error('Failed to update event') };
+      const action = superseded ? 'superseded' : 'updated';
+      return { result: { notice: noticeSummary(notice, action), events: [event], ingest: null, correlation }, error: null };
+    }
+
+    const validation = EventIngest.validate([notice.event]);
+    if (!validation.ok) return { result: null, error: new Error(validation.error) };
+    const skymaps = new Map<string, HealpixSkymap>();
+    if (notice.skymap) skymaps.set(notice.event.event_id, notice.skymap);
+    const { result: ingest, error } = await EventIngest.ingest(client, [notice.event], validation.times, correlationParams, skymaps);
+    if (error || !ingest) return { result: null, error: error ?? new Error('Failed to create event') };
+
+    return { result: { notice: noticeSummary(notice, 'created'), events: ingest.events, ingest }, error: null };
+  }
+
+  // A later notice about a stored event: its position, time and parameters
+  // replace the earlier ones, unless it has no position of its own. The
+  // event is then correlated again from its new localization. A notice
+  // issued before the one already applied (notices can arrive out of order)
+  // only fills in metadata the event lacks.
+  private static async update(
+    client: SupabaseClient<Database>,
+    existing: AstroEvent,
+    notice: GcnNotice,
+    correlationParams: CorrelationParams | null
+  ): Promise<{
+    event: AstroEvent | null;
+    superseded: boolean;
+    correlation: EventIngestResult['correlation'];
+    error: Error | null;
+  }> {
+    const reported = notice.event!;
+    const previous = existing.metadata || {};
+    const { localization, ...reportedMetadata } = reported.metadata || {};
+    const noticeIds = Array.from(new Set([...(previous.notice_ids || []), notice.id]));
+
+    const issuedMs = notice.issued ? Date.parse(notice.issued) : NaN;
+    const appliedMs = previous.notice_issued ? Date.parse(previous.notice_issued) : NaN;
+    if (issuedMs < appliedMs) {
+      const { data, error } = await client
+        .from('astro_events')
+        .update({ metadata: { ...reportedMetadata, ...previous, notice_ids: noticeIds } })
+        .eq('id', existing.id)
+        .select()
+        .single();
+      if (error) return { event: null, superseded: true, correlation: null, error: new Error(error.message) };
+      return { event: data as AstroEvent, superseded: true, correlation: null, error: null };
+    }
+
+    const localized = localization !== 'none';
+    const metadata = { ...previous, ...reportedMetadata, notice_ids: noticeIds };
+    // A point position supersedes an earlier 'none'; a skymap peak says so
+    if (localized && localization) metadata.localization = localization;
+    else if (localized) delete metadata.localization;
+
+    const { data, error } = await client
+      .from('astro_events')
+      .update({
+        time_utc: reported.time_utc,
+        ...(localized ? { ra: reported.ra, dec: reported.dec, error_radius_deg: reported.error_radius_deg ?? null } : {}),
+        metadata
+      })
+      .eq('id', existing.id)
+      .select()
+      .single();
+    if (error) return { event: null, superseded: false, correlation: null, error: new Error(error.message) };
+
+    // A newer skymap replaces the stored one
+    if (notice.skymap) {
+      const saved = await SkymapStore.save(client, existing.id, notice.skymap);
+      if (saved.error) console.error(`Failed to store the skymap from ${notice.id}:`, saved.error);
+    }
+
+    // Stored pairs were scored against the old localization
+    const recorrelated = await EventIngest.recorrelate(client, [data as AstroEvent], correlationParams);
+    if (recorrelated.error) {
+      console.error(`Failed to correlate ${existing.event_id} again:`, recorrelated.error);
+    }
+    return { event: data as AstroEvent, superseded: false, correlation: recorrelated.correlation, error: null };
+  }
+
+  private static async retract(
+    client: SupabaseClient<Database>,
+    notice: GcnNotice
+  ): Promise<{ events: AstroEvent[]; error: Error | null }> {
+    const { eventIds, noticeIds } = notice.retracts!;
+    const targets = new Map<string, AstroEvent>();
+
+    if (eventIds.length > 0) {
+      const { data, error } = await client.from('astro_events').select('*').in('event_id', eventIds);
+      if (error) return { events: [], error: new Error(error.message) };
+      ((data || []) as AstroEvent[]).forEach(event => targets.set(event.id, event));
+    }
+    for (const noticeId of noticeIds) {
+      const { data, error } = await client
+        .from('astro_events')
+        .select('*')
+        .contains('metadata', { notice_ids: [noticeId] });
+      if (error) return { events: [], error: new Error(error.message) };
+      ((data || []) as AstroEvent[]).forEach(event => targets.set(event.id, event));
+    }
+
+    const retracted: AstroEvent[] = [];
+    for (const event of Array.from(targets.values())) {
+      const { data, error } = await client
+        .from('astro_events')
+        .update({
+          status: 'retracted',
+          metadata: { ...event.metadata, retracted_by: notice.id, retracted_at: notice.issued ?? new Date().toISOString() }
+        })
+        .eq('id', event.id)
+        .select()
+        .single();
+      if (error) return { events: retracted, error: new Error(error.message) };
+      retracted.push(data as AstroEvent);
+    }
+    if (retracted.length === 0) return { events: retracted, error: null };
+
+    // A withdrawn alert no longer supports its correlations, nor the
+    // priority its partners gained from them
+    const ids = retracted.map(event => event.id);
+    const removed = await CorrelationStore.deleteForEvents(client, ids);
+    if (removed.error) return { events: retracted, error: removed.error };
+    const priorities = await PriorityStore.recompute(client, [...ids, ...removed.partnerIds]);
+    if (priorities.error) {
+      console.error('Failed to update follow-up priorities:', priorities.error);
+    }
+    return { events: retracted, error: null };
+  }
+
+  // Insert the notice's row with action 'pending'. Returns claimed: false
+  // when a row for the notice id already exists.
+  private static async claim(
+    client: SupabaseClient<Database>,
+    notice: GcnNotice
+  ): Promise<{ claimed: boolean; error: Error | null }> {
+    const { data, error } = await client
+      .from('gcn_notices')
+      .upsert({
+        notice_id: notice.id,
+        format: notice.format,
+        role: notice.role,
+        stream: notice.stream,
+        action: 'pending',
+        issued_at: notice.issued,
+        parsed: toJson(notice.parsed),
+        payload: notice.payload
+      }, { onConflict: 'notice_id', ignoreDuplicates: true })
+      .select('id');
+    if (error) return { claimed: false, error: new Error(error.message) };
+    return { claimed: (data || []).length > 0, error: null };
+  }
+
+  // Store the action a claimed notice led to
+  private static async record(
+    client: SupabaseClient<Database>,
+    notice: GcnNotice,
+    action: AppliedNoticeAction,
+    eventId: string | null
+  ): Promise<{ error: Error | null }> {
+    const { error } = await client
+      .from('gcn_notices')
+      .update({ action, event_id: eventId })
+      .eq('notice_id', notice.id);
+    return { error: error ? new Error(error.message) : null };
+  }
+
+  private static async release(client: SupabaseClient<Database>, notice: GcnNotice): Promise<{ error: Error | null }> {
+    const { error } = await client
+      .from('gcn_notices')
+      .delete()
+      .eq('notice_id', notice.id)
+      .eq('action', 'pending');
+    return { error: error ? new Error(error.message) : null };
+  }
+}
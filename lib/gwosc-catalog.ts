@@ -0,0 +1,231 @@
+import { promises as fs } from 'fs';
+import { AstroTime } from './astro-time';
+import { UNLOCALIZED_ERROR_RADIUS_DEG } from './correlation-engine';
+import { SKYMAP_DIR, SkymapStore } from './skymap-store';
+import type { RawAstroEvent } from './astro-apis';
+
+// Reads the GWOSC event catalog (GWTC) JSON served at
+// https://gwosc.org/eventapi/json/GWTC/: { events: { "<name>-v<n>": {...} } }
+// with one entry per event version. Parameters are medians with their 90%
+// credible interval given as offsets (`<param>_lower` negative,
+// `<param>_upper` positive); masses are source-frame solar masses, the
+// luminosity distance is in Mpc and the FAR is per year.
+
+export const GWOSC_CATALOG_URL = process.env.GWOSC_CATALOG_URL || 'https://gwosc.org/eventapi/json/GWTC/';
+
+// Fetches a URL and returns its parsed JSON body. Injected so the catalog
+// can be read from recorded responses.
+export type HttpGetJson = (url: string) => Promise<unknown>;
+
+// A median with the absolute bounds of its 90% credible interval
+export interface GwoscMeasurement {
+  value: number;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface GwoscEvent {
+  name: string;
+  version: number;
+  catalog: string | null;
+  gps: number;
+  timeUtc: string;
+  mass1: GwoscMeasurement | null;
+  mass2: GwoscMeasurement | null;
+  chirpMass: GwoscMeasurement | null;
+  totalMass: GwoscMeasurement | null;
+  finalMass: GwoscMeasurement | null;
+  distance: GwoscMeasurement | null;
+  redshift: GwoscMeasurement | null;
+  chiEff: GwoscMeasurement | null;
+  snr: GwoscMeasurement | null;
+  falseAlarmRatePerYear: number | null;
+  pAstro: number | null;
+}
+
+export interface GwoscFetchOptions {
+  startTime?: string;
+  endTime?: string;
+  http?: HttpGetJson;
+  url?: string;
+}
+
+function finite(value: unknown): number | null {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+// Bounds are median + offset; drop the float noise the addition leaves
+function offset(value: number, delta: number | null): number | null {
+  return delta === null ? null : Number((value + delta).toPrecision(12));
+}
+
+function measurement(entry: Record<string, unknown>, key: string): GwoscMeasurement | null {
+  const value = finite(entry[key]);
+  if (value === null) return null;
+  return {
+    value,
+    lower: offset(value, finite(entry[`${key}_lower`])),
+    upper: offset(value, finite(entry[`${key}_upper`]))
+  };
+}
+
+function parseTimeBound(value: string | undefined, label: string): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid ${label}: ${value}`);
+  return ms;
+}
+
+// Fetch over HTTP, or read GWOSC_CATALOG_FILE when it is set so the
+// catalog can be served from a recorded response offline
+export const defaultHttpGetJson: HttpGetJson = async (url: string) => {
+  const file = process.env.GWOSC_CATALOG_FILE;
+  if (file) return JSON.parse(await fs.readFile(file, 'utf8'));
+
+  const response = await fetch(url, { headers: { Accept: 'application/json' } });
+  if (!response.ok) throw new Error(`GET ${url} failed with HTTP ${response.status}`);
+  return response.json();
+};
+
+// Serve recorded responses, keyed by URL, from local files
+export function recordedHttpGetJson(recordings: Record<string, string>): HttpGetJson {
+  return async (url: string) => {
+    const file = recordings[url];
+    if (!file) throw new Error(`No recorded response for ${url}`);
+    return JSON.parse(await fs.readFile(file, 'utf8'));
+  };
+}
+
+export class GwoscCatalog {
+  // Catalog entries, latest version of each event only, in time order.
+  // Entries without a usable name or GPS time are skipped.
+  static parse(json: unknown): GwoscEvent[] {
+    const entries = (json as { events?: unknown })?.events;
+    if (!entries || typeof entries !== 'object') {
+      throw new Error('GWOSC catalog response has no events object');
+    }
+
+    const latest = new Map<string, GwoscEvent>();
+    for (const [key, raw] of Object.entries(entries as Record<string, unknown>)) {
+      if (!raw || typeof raw !== 'object') continue;
+      const entry = raw as Record<string, unknown>;
+
+      const name = typeof entry.commonName === 'string' && entry.commonName
+        ? entry.commonName
+        : key.replace(/-v\d+$/, '');
+      const gps = finite(entry.GPS);
+      if (!name || gps === null) continue;
+
+      const event: GwoscEvent = {
+        name,
+        version: finite(entry.version) ?? 1,
+        catalog: typeof entry['catalog.shortName'] === 'string' ? entry['catalog.shortName'] as string : null,
+        gps,
+        timeUtc: new Date(AstroTime.gpsToUtc(gps)).toISOString(),
+        mass1: measurement(entry, 'mass_1_source'),
+        mass2: measurement(entry, 'mass_2_source'),
+        chirpMass: measurement(entry, 'chirp_mass_source'),
+        totalMass: measurement(entry, 'total_mass_source'),
+        finalMass: measurement(entry, 'final_mass_source'),
+        distance: measurement(entry, 'luminosity_distance'),
+        redshift: measurement(entry, 'redshift'),
+        chiEff: measurement(entry, 'chi_eff'),
+        snr: measurement(entry, 'network_matched_filter_snr'),
+        falseAlarmRatePerYear: finite(entry.far),
+        pAstro: finite(entry.p_astro)
+      };
+
+      const existing = latest.get(name);
+      if (!existing || event.version > existing.version) latest.set(name, event);
+    }
+
+    return Array.from(latest.values()).sort((a, b) => a.gps - b.gps);
+  }
+
+  // Map an entry to the ingest shape. Medians keep the metadata names the
+  // rest of the app reads (mass1, mass2, distance, snr); 90% bounds go in
+  // `<name>_lower`/`<name>_upper`, which DistanceConsistency reads for the
+  // distance. The catalog carries no sky position, so an event without a
+  // skymap is left unlocalized.
+  static toRawEvent(event: GwoscEvent, skymapFile: string | null = null, position: { ra: number; dec: number } | null = null): RawAstroEvent {
+    const metadata: Record<string, unknown> = {
+      gps_time: event.gps,
+      catalog: event.catalog,
+      catalog_version: event.version
+    };
+    const add = (name: string, value: GwoscMeasurement | null) => {
+      if (!value) return;
+      metadata[name] = value.value;
+      if (value.lower !== null) metadata[`${name}_lower`] = value.lower;
+      if (value.upper !== null) metadata[`${name}_upper`] = value.upper;
+    };
+    add('mass1', event.mass1);
+    add('mass2', event.mass2);
+    add('chirp_mass', event.chirpMass);
+    add('total_mass', event.totalMass);
+    add('final_mass', event.finalMass);
+    add('distance', event.distance);
+    add('redshift', event.redshift);
+    add('chi_eff', event.chiEff);
+    add('snr', event.snr);
+    if (event.falseAlarmRatePerYear !== null) metadata.false_alarm_rate_per_year = event.falseAlarmRatePerYear;
+    if (event.pAstro !== null) metadata.p_astro = event.pAstro;
+
+    if (skymapFile && position) {
+      metadata.skymap_file = skymapFile;
+      metadata.localization = 'skymap_peak';
+    } else {
+      metadata.localization = 'none';
+    }
+
+    return {
+      event_id: event.name,
+      source: 'LIGO-Virgo',
+      event_type: 'gravitational_wave',
+      ra: position ? position.ra : 0,
+      dec: position ? position.dec : 0,
+      time_utc: event.timeUtc,
+      ...(position ? {} : { error_radius_deg: UNLOCALIZED_ERROR_RADIUS_DEG }),
+      metadata
+    };
+  }
+
+  // Catalog events between startTime and endTime (inclusive ISO 8601 bounds,
+  // either optional). An event is placed at the peak of its skymap when
+  // SKYMAP_DIR holds `<name>.multiorder.fits`.
+  static async fetchEvents(options: GwoscFetchOptions = {}): Promise<RawAstroEvent[]> {
+    const start = parseTimeBound(options.startTime, 'start time');
+    const end = parseTimeBound(options.endTime, 'end time');
+    const http = options.http ?? defaultHttpGetJson;
+
+    const events = this.parse(await http(options.url ?? GWOSC_CATALOG_URL)).filter(event => {
+      const ms = Date.parse(event.timeUtc);
+      return (start === null || ms >= start) && (end === null || ms <= end);
+    });
+
+    const skymapFiles = await this.listSkymapFiles();
+    const results: RawAstroEvent[] = [];
+    for (const event of events) {
+      const file = `${event.name}.multiorder.fits`;
+      let position: { ra: number; dec: number } | null = null;
+      if (skymapFiles.has(file)) {
+        try {
+          position = (await SkymapStore.loadFile(file)).peak();
+        } catch (error) {
+          console.error(`Failed to read skymap ${file}:`, error);
+        }
+      }
+      results.push(this.toRawEvent(event, position ? file : null, position));
+    }
+    return results;
+  }
+
+  private static async listSkymapFiles(): Promise<Set<string>> {
+    try {
+      return new Set(await fs.readdir(SKYMAP_DIR));
+    } catch {
+      return new Set();
+    }
+  }
+}
@@ -0,0 +1,305 @@
+// HEALPix pixelisation (NESTED scheme) and multi-order probability skymaps.
+// Follows Gorski et al. 2005 and the NUNIQ indexing used by LIGO/Virgo/KAGRA
+// multi-order sky maps: uniq = 4 * 4^order + ipix.
+
+const HALF_PI = Math.PI / 2;
+const toRad = Math.PI / 180;
+const toDeg = 180 / Math.PI;
+
+// Highest order whose NESTED indices stay exact in a double (12 * 4^24 < 2^53)
+export const MAX_HEALPIX_ORDER = 24;
+
+// Credible level that defines a skymap's localization region
+export const SKYMAP_CREDIBLE_LEVEL = 0.9;
+
+const JRLL = [2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4];
+const JPLL = [1, 3, 5, 7, 0, 2, 4, 6, 1, 3, 5, 7];
+
+// Interleave the bits of x and y (x in the even bits)
+function interleave(x: number, y: number, bits: number): number {
+  let result = 0;
+  let scale = 1;
+  for (let b = 0; b < bits; b++) {
+    result += ((x % 2) + 2 * (y % 2)) * scale;
+    x = Math.floor(x / 2);
+    y = Math.floor(y / 2);
+    scale *= 4;
+  }
+  return result;
+}
+
+function deinterleave(value: number, bits: number): [number, number] {
+  let x = 0;
+  let y = 0;
+  let scale = 1;
+  for (let b = 0; b < bits; b++) {
+    const pair = value % 4;
+    x += (pair % 2) * scale;
+    y += Math.floor(pair / 2) * scale;
+    value = Math.floor(value / 4);
+    scale *= 2;
+  }
+  return [x, y];
+}
+
+export class Healpix {
+  static npix(order: number): number {
+    return 12 * 4 ** order;
+  }
+
+  // Area of one pixel at this order, in steradians
+  static pixelArea(order: number): number {
+    return 4 * Math.PI / this.npix(order);
+  }
+
+  static decodeUniq(uniq: number): { order: number; ipix: number } {
+    const order = Math.floor(Math.log2(uniq / 4) / 2);
+    return { order, ipix: uniq - 4 * 4 ** order };
+  }
+
+  static encodeUniq(order: number, ipix: number): number {
+    return 4 * 4 ** order + ipix;
+  }
+
+  // NESTED pixel index containing the position
+  static ang2pix(order: number, raDeg: number, decDeg: number): number {
+    const nside = 2 ** order;
+    const z = Math.sin(decDeg * toRad);
+    const za = Math.abs(z);
+    const phi = ((raDeg % 360) + 360) % 360 * toRad;
+    const tt = (phi / HALF_PI) % 4;
+
+    let face: number;
+    let ix: number;
+    let iy: number;
+
+    if (za <= 2 / 3) {
+      // Equatorial region
+      const temp1 = nside * (0.5 + tt);
+      const temp2 = nside * z * 0.75;
+      const jp = Math.floor(temp1 - temp2);
+      const jm = Math.floor(temp1 + temp2);
+      const ifp = Math.floor(jp / nside);
+      const ifm = Math.floor(jm / nside);
+      face = ifp === ifm ? (ifp % 4) + 4 : ifp < ifm ? ifp % 4 : (ifm % 4) + 8;
+      ix = ((jm % nside) + nside) % nside;
+      iy = nside - (((jp % nside) + nside) % nside) - 1;
+    } else {
+      // Polar caps
+      const ntt = Math.min(3, Math.floor(tt));
+      const tp = tt - ntt;
+      const tmp = nside * Math.sqrt(3 * (1 - za));
+      const jp = Math.min(nside - 1, Math.floor(tp * tmp));
+      const jm = Math.min(nside - 1, Math.floor((1 - tp) * tmp));
+      if (z >= 0) {
+        face = ntt;
+        ix = nside - jm - 1;
+        iy = nside - jp - 1;
+      } else {
+        face = ntt + 8;
+        ix = jp;
+        iy = jm;
+      }
+    }
+
+    return face * nside * nside + interleave(ix, iy, order);
+  }
+
+  // Centre of a NESTED pixel
+  static pix2ang(order: number, ipix: number): { ra: number; dec: number } {
+    const nside = 2 ** order;
+    const npface = nside * nside;
+    const face = Math.floor(ipix / npface);
+    const [ix, iy] = deinterleave(ipix % npface, order);
+    const fact2 = 4 / this.npix(order);
+
+    const jr = JRLL[face] * nside - ix - iy - 1;
+    let nr: number;
+    let z: number;
+    let kshift: number;
+
+    if (jr < nside) {
+      nr = jr;
+      z = 1 - nr * nr * fact2;
+      kshift = 0;
+    } else if (jr > 3 * nside) {
+      nr = 4 * nside - jr;
+      z = nr * nr * fact2 - 1;
+      kshift = 0;
+    } else {
+      nr = nside;
+      z = (2 * nside - jr) * 2 * nside * fact2;
+      kshift = (jr - nside) % 2;
+    }
+
+    let jp = (JPLL[face] * nr + ix - iy + 1 + kshift) / 2;
+    if (jp > 4 * nside) jp -= 4 * nside;
+    if (jp < 1) jp += 4 * nside;
+
+    const phi = (jp - (kshift + 1) * 0.5) * (HALF_PI / nr);
+    return { ra: phi * toDeg, dec: Math.asin(Math.max(-1, Math.min(1, z))) * toDeg };
+  }
+
+  // Generous bound on the distance from a pixel's centre to any point inside it
+  static maxPixelRadiusDeg(order: number): number {
+    return 2 * Math.sqrt(this.pixelArea(order)) * toDeg;
+  }
+}
+
+export interface SkymapMetadata {
+  // Posterior mean and standard deviation of the luminosity distance (Mpc)
+  distanceMeanMpc?: number;
+  distanceStdMpc?: number;
+  [key: string]: unknown;
+}
+
+interface PixelRange {
+  order: number;
+  ipix: number;
+  // NESTED index range at MAX_HEALPIX_ORDER, end exclusive
+  start: number;
+  end: number;
+  credibleLevel: number;
+  probDensity: number;
+}
+
+// A multi-order probability map. Every pixel carries a probability density
+// per steradian; pixels may have different orders but must not overlap.
+export class HealpixSkymap {
+  readonly uniq: number[];
+  readonly probDensity: number[];
+  readonly metadata: SkymapMetadata;
+
+  private ranges: PixelRange[];
+  private totalProbability: number;
+  private regionRadii = new Map<string, number>();
+
+  constructor(uniq: number[], probDensity: number[], metadata: SkymapMetadata = {}) {
+    if (uniq.length !== probDensity.length) {
+      throw new Error('Skymap UNIQ and PROBDENSITY columns differ in length');
+    }
+    this.uniq = uniq;
+    this.probDensity = probDensity;
+    this.metadata = metadata;
+
+    const pixels = uniq.map((u, i) => {
+      const { order, ipix } = Healpix.decodeUniq(u);
+      if (order > MAX_HEALPIX_ORDER) {
+        throw new Error(`Skymap order ${order} exceeds the supported maximum of ${MAX_HEALPIX_ORDER}`);
+      }
+      const shift = 4 ** (MAX_HEALPIX_ORDER - order);
+      const density = Math.max(0, probDensity[i]);
+      return {
+        order,
+        ipix,
+        start: ipix * shift,
+        end: (ipix + 1) * shift,
+        probDensity: density,
+        probability: density * Healpix.pixelArea(order),
+        credibleLevel: 0
+      };
+    });
+
+    // Credible level of a pixel: total probability of all pixels at least as
+    // dense, i.e. the smallest credible region that contains it
+    this.totalProbability = pixels.reduce((sum, p) => sum + p.probability, 0);
+    const byDensity = [...pixels].sort((a, b) => b.probDensity - a.probDensity);
+    let cumulative = 0;
+    for (let i = 0; i < byDensity.length; ) {
+      // Pixels of equal density share one level
+      let j = i;
+      while (j < byDensity.length && byDensity[j].probDensity === byDensity[i].probDensity) {
+        cumulative += byDensity[j].probability;
+        j++;
+      }
+      // Summation rounding can push the last level just past 1
+      const level = this.totalProbability > 0 ? Math.min(1, cumulative / this.totalProbability) : 1;
+      for (let k = i; k < j; k++) byDensity[k].credibleLevel = level;
+      i = j;
+    }
+
+    this.ranges = pixels
+      .map(({ probability, ...range }) => range)
+      .sort((a, b) => a.start - b.start);
+  }
+
+  private findRange(raDeg: number, decDeg: number): PixelRange | null {
+    const ipix = Healpix.ang2pix(MAX_HEALPIX_ORDER, raDeg, decDeg);
+    let lo = 0;
+    let hi = this.ranges.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const range = this.ranges[mid];
+      if (ipix < range.start) hi = mid - 1;
+      else if (ipix >= range.end) lo = mid + 1;
+      else return range;
+    }
+    return null;
+  }
+
+  // Smallest credible level whose region contains the position (0 at the
+  // peak, 1 outside the map); a position inside the 90% region has <= 0.9
+  credibleLevelAt(raDeg: number, decDeg: number): number {
+    return this.findRange(raDeg, decDeg)?.credibleLevel ?? 1;
+  }
+
+  // Normalised probability density per steradian at the position
+  probDensityAt(raDeg: number, decDeg: number): number {
+    const density = this.findRange(raDeg, decDeg)?.probDensity ?? 0;
+    return this.totalProbability > 0 ? density / this.totalProbability : 0;
+  }
+
+  // Centre of the densest pixel, the map's most probable position
+  peak(): { ra: number; dec: number } | null {
+    let best: PixelRange | null = null;
+    for (const range of this.ranges) {
+      if (!best || range.probDensity > best.probDensity) best = range;
+    }
+    return best ? Healpix.pix2ang(best.order, best.ipix) : null;
+  }
+
+  // Solid angle (steradians) of the credible region at a given level
+  credibleArea(level: number): number {
+    return this.ranges.reduce(
+      (area, range) => range.credibleLevel <= level ? area + Healpix.pixelArea(range.order) : area,
+      0
+    );
+  }
+
+  // Angular radius around a point that encloses the whole credible region
+  regionRadiusDeg(raDeg: number, decDeg: number, level: number = SKYMAP_CREDIBLE_LEVEL): number {
+    const key = `${raDeg},${decDeg},${level}`;
+    const cached = this.regionRadii.get(key);
+    if (cached !== undefined) return cached;
+
+    let radius = 0;
+    for (const range of this.ranges) {
+      if (range.credibleLevel > level) continue;
+      const centre = Healpix.pix2ang(range.order, range.ipix);
+      radius = Math.max(
+        radius,
+        separationDeg(raDeg, decDeg, centre.ra, centre.dec) + Healpix.maxPixelRadiusDeg(range.order)
+      );
+    }
+
+    radius = Math.min(180, radius);
+    this.regionRadii.set(key, radius);
+    return radius;
+  }
+
+  // Keep API responses small: events carrying a skymap serialise a summary
+  toJSON() {
+    return {
+      pixelCount: this.uniq.length,
+      area90Deg2: this.credibleArea(SKYMAP_CREDIBLE_LEVEL) * toDeg * toDeg,
+      ...this.metadata
+    };
+  }
+}
+
+function separationDeg(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const d1 = dec1 * toRad;
+  const d2 = dec2 * toRad;
+  const cos = Math.sin(d1) * Math.sin(d2) + Math.cos(d1) * Math.cos(d2) * Math.cos((ra1 - ra2) * toRad);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) * toDeg;
+}
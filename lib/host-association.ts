@@ -0,0 +1,136 @@
+import { AstroEvent } from './supabase';
+import { DistanceConsistency, DistanceEstimate } from './distance-consistency';
+import type { Galaxy, GalaxyCatalog } from './galaxy-catalog';
+
+export interface HostCandidate {
+  name: string;
+  ra: number;
+  dec: number;
+  separationArcsec: number;
+  // Projected offset at the galaxy's (or the GW's) distance
+  offsetKpc: number | null;
+  distanceMpc: number | null;
+  absoluteMagnitudeB: number | null;
+  // Factors combined into the probability; each is relative, not normalised
+  offsetWeight: number;
+  luminosityWeight: number;
+  distanceWeight: number;
+  // Probability that this is the host, given the host is in the catalog
+  probability: number;
+}
+
+export interface HostAssociationResult {
+  transientId: string;
+  gwEventId: string;
+  searchRadiusDeg: number;
+  // Most probable first, at most MAX_REPORTED_CANDIDATES
+  candidates: HostCandidate[];
+  candidateCount: number;
+}
+
+// Typical projected offset of compact-merger transients from their hosts
+const TYPICAL_OFFSET_KPC = 5;
+// Offsets beyond this are not searched
+const MAX_OFFSET_KPC = 50;
+// Bounds on the cone searched around the transient
+const MIN_SEARCH_RADIUS_DEG = 30 / 3600;
+const MAX_SEARCH_RADIUS_DEG = 1;
+// Positional width used when no distance is known at all
+const FALLBACK_OFFSET_SIGMA_DEG = 10 / 3600;
+// Characteristic absolute B magnitude (L*), so luminosity weights are in L* units
+const ABSOLUTE_MAGNITUDE_B_STAR = -20.5;
+const MAX_REPORTED_CANDIDATES = 5;
+
+const toRad = Math.PI / 180;
+
+function positionError(event: AstroEvent): number {
+  const radius = Number(event.error_radius_deg);
+  return Number.isFinite(radius) && radius > 0 ? radius : 0;
+}
+
+function absoluteMagnitude(galaxy: Galaxy): number | null {
+  if (galaxy.absoluteMagnitudeB !== null) return galaxy.absoluteMagnitudeB;
+  if (galaxy.magnitudeB !== null && galaxy.distanceMpc !== null && galaxy.distanceMpc > 0) {
+    return galaxy.magnitudeB - 5 * Math.log10(galaxy.distanceMpc) - 25;
+  }
+  return null;
+}
+
+export class HostAssociation {
+  // Cone radius covering MAX_OFFSET_KPC at the near edge of the GW distance
+  // posterior, widened by the transient's own position error
+  static getSearchRadius(transient: AstroEvent, gwDistance: DistanceEstimate | null): number {
+    const errorDeg = positionError(transient);
+    if (!gwDistance) return Math.min(MAX_SEARCH_RADIUS_DEG, MIN_SEARCH_RADIUS_DEG + errorDeg);
+
+    const nearestMpc = Math.max(1, gwDistance.distanceMpc - 2 * gwDistance.sigmaMpc);
+    const offsetDeg = MAX_OFFSET_KPC / (nearestMpc * 1000) / toRad;
+    return Math.min(MAX_SEARCH_RADIUS_DEG, Math.max(MIN_SEARCH_RADIUS_DEG, offsetDeg) + errorDeg);
+  }
+
+  // Probability that each nearby catalog galaxy hosts the transient, from
+  // its projected offset, B-band luminosity (a proxy for stellar mass) and
+  // agreement with the GW luminosity distance
+  static associate(transient: AstroEvent, gwEvent: AstroEvent, catalog: GalaxyCatalog): HostAssociationResult {
+    const gwDistance = DistanceConsistency.getEventDistance(gwEvent);
+    const searchRadiusDeg = this.getSearchRadius(transient, gwDistance);
+    const positionErrorDeg = positionError(transient);
+
+    const weighted = catalog.coneSearch(transient.ra, transient.dec, searchRadiusDeg).map(({ galaxy, separationDeg }) => {
+      const galaxyDistance = DistanceConsistency.getDistance({
+        distance: galaxy.distanceMpc,
+        distance_error: galaxy.distanceErrorMpc,
+        redshift: galaxy.redshift
+      });
+      const distanceMpc = galaxyDistance?.distanceMpc ?? gwDistance?.distanceMpc ?? null;
+
+      let offsetKpc: number | null = null;
+      let offsetWeight: number;
+      if (distanceMpc !== null) {
+        const kpcPerRad = distanceMpc * 1000;
+        offsetKpc = separationDeg * toRad * kpcPerRad;
+        const errorKpc = positionErrorDeg * toRad * kpcPerRad;
+        const sigma2 = TYPICAL_OFFSET_KPC ** 2 + errorKpc ** 2;
+        offsetWeight = Math.exp(-(offsetKpc * offsetKpc) / (2 * sigma2));
+      } else {
+        const sigma = Math.max(FALLBACK_OFFSET_SIGMA_DEG, positionErrorDeg);
+        offsetWeight = Math.exp(-(separationDeg * separationDeg) / (2 * sigma * sigma));
+      }
+
+      // Galaxies without photometry count as L* (no evidence either way)
+      const magnitude = absoluteMagnitude(galaxy);
+      const luminosityWeight = magnitude !== null ? 10 ** (-0.4 * (magnitude - ABSOLUTE_MAGNITUDE_B_STAR)) : 1;
+
+      const distanceWeight = gwDistance && galaxyDistance
+        ? DistanceConsistency.compare(gwDistance, galaxyDistance).weight
+        : 1;
+
+      return {
+        name: galaxy.name,
+        ra: galaxy.ra,
+        dec: galaxy.dec,
+        separationArcsec: separationDeg * 3600,
+        offsetKpc,
+        distanceMpc: galaxyDistance?.distanceMpc ?? null,
+        absoluteMagnitudeB: magnitude,
+        offsetWeight,
+        luminosityWeight,
+        distanceWeight,
+        probability: offsetWeight * luminosityWeight * distanceWeight
+      };
+    });
+
+    const total = weighted.reduce((sum, c) => sum + c.probability, 0);
+    const candidates = weighted
+      .map(c => ({ ...c, probability: total > 0 ? c.probability / total : 0 }))
+      .sort((a, b) => b.probability - a.probability);
+
+    return {
+      transientId: transient.id,
+      gwEventId: gwEvent.id,
+      searchRadiusDeg,
+      candidates: candidates.slice(0, MAX_REPORTED_CANDIDATES),
+      candidateCount: candidates.length
+    };
+  }
+}
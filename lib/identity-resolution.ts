@@ -0,0 +1,218 @@
+import { AstroEvent } from './supabase';
+
+// Detects rows that are the same physical object reported by several
+// surveys or brokers (e.g. AT2017gfo from ZTF and TNS). Two events of the
+// same type are one object when they share a designation, or when they are
+// close enough on the sky and in time.
+
+export interface IdentityOptions {
+  // Positions always match within this, however small the error radii
+  minSeparationArcsec?: number;
+  // Report time tolerance per event type (seconds); others use the default
+  timeToleranceSeconds?: Record<string, number>;
+  defaultTimeToleranceSeconds?: number;
+}
+
+export type IdentityMatch = 'designation' | 'position';
+
+export interface IdentityGroup {
+  canonical: AstroEvent;
+  // Every member, canonical first
+  members: AstroEvent[];
+  duplicates: AstroEvent[];
+  // Distinct designations across members, canonical's first
+  aliases: string[];
+  matchedBy: IdentityMatch[];
+}
+
+export const DEFAULT_IDENTITY_OPTIONS: Required<IdentityOptions> = {
+  minSeparationArcsec: 5,
+  // Brokers report optical discoveries up to days apart; prompt messengers
+  // are timestamped to the second
+  timeToleranceSeconds: {
+    optical_transient: 3 * 86400,
+    radio_burst: 86400
+  },
+  defaultTimeToleranceSeconds: 60
+};
+
+// Metadata keys that may carry other names of the same object
+const ALIAS_KEYS = ['aliases', 'alias', 'internal_names', 'tns_name', 'designation', 'superevent_id'];
+
+const toRad = Math.PI / 180;
+
+function separationDeg(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const cos = Math.sin(dec1 * toRad) * Math.sin(dec2 * toRad) +
+    Math.cos(dec1 * toRad) * Math.cos(dec2 * toRad) * Math.cos((ra1 - ra2) * toRad);
+  return Math.acos(Math.max(-1, Math.min(1, cos))) / toRad;
+}
+
+function errorRadius(event: AstroEvent): number {
+  const radius = Number(event.error_radius_deg);
+  return Number.isFinite(radius) && radius > 0 ? radius : 0;
+}
+
+class UnionFind {
+  private readonly parent: number[];
+
+  constructor(size: number) {
+    this.parent = Array.from({ length: size }, (_, i) => i);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number): void {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA !== rootB) this.parent[Math.max(rootA, rootB)] = Math.min(rootA, rootB);
+  }
+}
+
+export class IdentityResolver {
+  // Comparable form of a designation: case and spacing removed, and the
+  // TNS type prefix dropped so AT 2017gfo and SN2017gfo agree
+  static normalizeDesignation(name: string): string {
+    const compact = name.replace(/[\s_-]+/g, '').toLowerCase();
+    return compact.replace(/^(at|sn)(?=\d{4}[a-z]+$)/, '');
+  }
+
+  // The event's own id plus any names listed in its metadata
+  static getDesignations(event: AstroEvent): string[] {
+    const names: string[] = [event.event_id];
+    for (const key of ALIAS_KEYS) {
+      const value = event.metadata?.[key];
+      const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+      values.forEach(v => {
+        if (typeof v === 'string' && v.trim()) names.push(v.trim());
+      });
+    }
+    return Array.from(new Set(names));
+  }
+
+  static getTimeTolerance(eventType: string, options: IdentityOptions = {}): number {
+    const tolerances = { ...DEFAULT_IDENTITY_OPTIONS.timeToleranceSeconds, ...options.timeToleranceSeconds };
+    return tolerances[eventType] ?? options.defaultTimeToleranceSeconds ?? DEFAULT_IDENTITY_OPTIONS.defaultTimeToleranceSeconds;
+  }
+
+  static getMaxTimeTolerance(options: IdentityOptions = {}): number {
+    const tolerances = { ...DEFAULT_IDENTITY_OPTIONS.timeToleranceSeconds, ...options.timeToleranceSeconds };
+    return Math.max(
+      options.defaultTimeToleranceSeconds ?? DEFAULT_IDENTITY_OPTIONS.defaultTimeToleranceSeconds,
+      ...Object.values(tolerances)
+    );
+  }
+
+  // Whether two events of the same type are close enough in position and
+  // time to be one object. The position tolerance grows with the events'
+  // error radii so poorly localized reports still merge.
+  static isPositionalMatch(event1: AstroEvent, event2: AstroEvent, options: IdentityOptions = {}): boolean {
+    if (event1.event_type !== event2.event_type) return false;
+
+    const dtSeconds = Math.abs(new Date(event1.time_utc).getTime() - new Date(event2.time_utc).getTime()) / 1000;
+    if (!(dtSeconds <= this.getTimeTolerance(event1.event_type, options))) return false;
+
+    const minSeparationDeg = (options.minSeparationArcsec ?? DEFAULT_IDENTITY_OPTIONS.minSeparationArcsec) / 3600;
+    const toleranceDeg = Math.max(minSeparationDeg, Math.hypot(errorRadius(event1), errorRadius(event2)));
+    return separationDeg(event1.ra, event1.dec, event2.ra, event2.dec) <= toleranceDeg;
+  }
+
+  // The member reported first stands for the object; ties go to the
+  // better-localized report, then to id for a stable choice
+  static chooseCanonical(members: AstroEvent[]): AstroEvent {
+    return [...members].sort((a, b) =>
+      new Date(a.time_utc).getTime() - new Date(b.time_utc).getTime() ||
+      errorRadius(a) - errorRadius(b) ||
+      (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+    )[0];
+  }
+
+  // Group the events into physical objects. Only groups with more than one
+  // member are returned.
+  static resolve(events: AstroEvent[], options: IdentityOptions = {}): IdentityGroup[] {
+    const sets = new UnionFind(events.length);
+    const matchedBy = new Map<number, Set<IdentityMatch>>();
+    const link = (i: number, j: number, match: IdentityMatch) => {
+      sets.union(i, j);
+      const root = sets.find(i);
+      const matches = matchedBy.get(root) ?? new Set<IdentityMatch>();
+      matches.add(match);
+      matchedBy.set(root, matches);
+    };
+
+    // Shared designations within an event type
+    const byDesignation = new Map<string, number>();
+    events.forEach((event, i) => {
+      for (const name of this.getDesignations(event)) {
+        const key = `${event.event_type}:${this.normalizeDesignation(name)}`;
+        const first = byDesignation.get(key);
+        if (first === undefined) byDesignation.set(key, i);
+        else link(first, i, 'designation');
+      }
+    });
+
+    // Position and time: a sweep over time-sorted events of each type
+    const times = events.map(e => new Date(e.time_utc).getTime());
+    const order = events
+      .map((_, i) => i)
+      .filter(i => Number.isFinite(times[i]))
+      .sort((a, b) => times[a] - times[b] || a - b);
+
+    const byType = new Map<string, number[]>();
+    for (const i of order) {
+      const list = byType.get(events[i].event_type) ?? [];
+      list.push(i);
+      byType.set(events[i].event_type, list);
+    }
+
+    byType.forEach((indices, eventType) => {
+      const toleranceMs = this.getTimeTolerance(eventType, options) * 1000;
+      for (let a = 0; a < indices.length; a++) {
+        for (let b = a + 1; b < indices.length && times[indices[b]] - times[indices[a]] <= toleranceMs; b++) {
+          if (this.isPositionalMatch(events[indices[a]], events[indices[b]], options)) {
+            link(indices[a], indices[b], 'position');
+          }
+        }
+      }
+    });
+
+    // Collect the groups; match kinds recorded under a root that was later
+    // merged are carried over to the final root
+    const members = new Map<number, AstroEvent[]>();
+    const matches = new Map<number, Set<IdentityMatch>>();
+    events.forEach((event, i) => {
+      const root = sets.find(i);
+      const group = members.get(root);
+      if (group) group.push(event);
+      else members.set(root, [event]);
+    });
+    matchedBy.forEach((kinds, root) => {
+      const finalRoot = sets.find(root);
+      const merged = matches.get(finalRoot) ?? new Set<IdentityMatch>();
+      kinds.forEach(kind => merged.add(kind));
+      matches.set(finalRoot, merged);
+    });
+
+    const groups: IdentityGroup[] = [];
+    members.forEach((group, root) => {
+      if (group.length < 2) return;
+      const canonical = this.chooseCanonical(group);
+      const duplicates = group.filter(e => e !== canonical);
+      const aliases = Array.from(new Set([canonical, ...duplicates].flatMap(e => this.getDesignations(e))));
+      groups.push({
+        canonical,
+        members: [canonical, ...duplicates],
+        duplicates,
+        aliases,
+        matchedBy: Array.from(matches.get(root) ?? [])
+      });
+    });
+
+    return groups;
+  }
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { IdentityGroup } from './identity-resolution';
+
+// Ids per .in() filter, keeping request URLs short
+const ID_BATCH_SIZE = 100;
+
+export interface IdentitySaveResult {
+  objectsSaved: number;
+  duplicatesLinked: number;
+  error: Error | null;
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    result.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return result;
+}
+
+export class IdentityStore {
+  // Store each group as an astro_objects row keyed by its canonical event,
+  // point every member at it and mark the duplicates. Objects whose
+  // canonical event has become a duplicate of another are removed, as are
+  // stored correlations involving duplicates.
+  static async save(client: SupabaseClient<Database>, groups: IdentityGroup[]): Promise<IdentitySaveResult> {
+    let objectsSaved = 0;
+    let duplicatesLinked = 0;
+    const fail = (message: string): IdentitySaveResult => ({ objectsSaved, duplicatesLinked, error: new Error(message) });
+
+    const duplicateIds = groups.flatMap(group => group.duplicates.map(e => e.id));
+    for (const batch of batches(duplicateIds)) {
+      const { error } = await client.from('astro_objects').delete().in('canonical_event_id', batch);
+      if (error) return fail(error.message);
+    }
+
+    for (const group of groups) {
+      const { data: object, error: objectError } = await client
+        .from('astro_objects')
+        .upsert({
+          canonical_event_id: group.canonical.id,
+          name: group.canonical.event_id,
+          event_type: group.canonical.event_type,
+          aliases: group.aliases,
+          matched_by: group.matchedBy,
+          member_count: group.members.length,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'canonical_event_id' })
+        .select('id')
+        .single();
+      if (objectError || !object) return fail(objectError?.message ?? 'Failed to store object');
+      objectsSaved++;
+
+      const objectId = object.id;
+      const { error: canonicalError } = await client
+        .from('astro_events')
+        .update({ object_id: objectId, duplicate_of: null })
+        .eq('id', group.canonical.id);
+      if (canonicalError) return fail(canonicalError.message);
+
+      const { error: duplicateError } = await client
+        .from('astro_events')
+        .update({ object_id: objectId, duplicate_of: group.canonical.id })
+        .in('id', group.duplicates.map(e => e.id));
+      if (duplicateError) return fail(duplicateError.message);
+      duplicatesLinked += group.duplicates.length;
+    }
+
+    for (const batch of batches(duplicateIds)) {
+      const idList = batch.join(',');
+      const { error } = await client
+        .from('event_correlations')
+        .delete()
+        .or(`event1_id.in.(${idList}),event2_id.in.(${idList})`);
+      if (error) return fail(error.message);
+    }
+
+    return { objectsSaved, duplicatesLinked, error: null };
+  }
+
+  // Detach events that no longer belong to any object, removing objects
+  // they stood for
+  static async unlink(client: SupabaseClient<Database>, eventIds: string[]): Promise<{ error: Error | null }> {
+    for (const batch of batches(eventIds)) {
+      const { error: objectError } = await client.from('astro_objects').delete().in('canonical_event_id', batch);
+      if (objectError) return { error: new Error(objectError.message) };
+
+      const { error } = await client
+        .from('astro_events')
+        .update({ object_id: null, duplicate_of: null })
+        .in('id', batch);
+      if (error) return { error: new Error(error.message) };
+    }
+    return { error: null };
+  }
+}
@@ -0,0 +1,67 @@
+import { AstroEvent } from './supabase';
+import { CorrelationEngine, CorrelationParams, EventCluster, EventPair } from './correlation-engine';
+import { CorrelationStore } from './correlation-store';
+
+export interface IncrementalCorrelationResult {
+  // Pairs that involve at least one of the new events
+  correlations: EventPair[];
+  // Clusters containing at least one new event
+  clusters: EventCluster[];
+  clusterTypes: Map<EventPair, string>;
+  catalogEventsConsidered: number;
+}
+
+export class IncrementalCorrelator {
+  // Span of existing events that can pair with any of the new events: the
+  // new events' time range widened by the widest correlation window
+  static getCatalogTimeRange(
+    newEvents: AstroEvent[],
+    params: CorrelationParams
+  ): { start: string; end: string } | null {
+    const times = newEvents
+      .map(e => new Date(e.time_utc).getTime())
+      .filter(t => Number.isFinite(t));
+    if (times.length === 0) return null;
+
+    const paddingMs = CorrelationEngine.getMaxTimeWindowSeconds(params) * 1000;
+    const startMs = times.reduce((min, t) => Math.min(min, t), times[0]);
+    const endMs = times.reduce((max, t) => Math.max(max, t), times[0]);
+
+    return {
+      start: new Date(startMs - paddingMs).toISOString(),
+      end: new Date(endMs + paddingMs).toISOString()
+    };
+  }
+
+  // Correlate new events against each other and against the catalog events
+  // in their time range. Catalog-only pairs were found when those events
+  // arrived and are left out.
+  static correlateNewEvents(
+    newEvents: AstroEvent[],
+    catalogEvents: AstroEvent[],
+    params: CorrelationParams
+  ): IncrementalCorrelationResult {
+    const newIds = new Set(newEvents.map(e => e.id));
+    const catalog = catalogEvents.filter(e => !newIds.has(e.id));
+    const events = CorrelationStore.sortForCorrelation([...catalog, ...newEvents]);
+
+    const allPairs = CorrelationEngine.correlateEvents(events, params);
+
+    // Cluster over the whole neighbourhood so a new event joining an
+    // existing group gets that group's messenger label
+    const clusters = CorrelationEngine.findEventClusters(allPairs)
+      .filter(cluster => cluster.events.some(e => newIds.has(e.id)));
+
+    const clusterTypes = new Map<EventPair, string>();
+    clusters.forEach(cluster => {
+      cluster.pairs.forEach(pair => clusterTypes.set(pair, cluster.classification.code));
+    });
+
+    return {
+      correlations: allPairs.filter(pair => newIds.has(pair.event1.id) || newIds.has(pair.event2.id)),
+      clusters,
+      clusterTypes,
+      catalogEventsConsidered: catalog.length
+    };
+  }
+}
@@ -0,0 +1,7 @@
+import type { Json } from './database.types';
+
+// Plain JSON copy of a value for a jsonb column, as the client would send it:
+// undefined properties are dropped and non-finite numbers become null
+export function toJson(value: unknown): Json {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,64 @@
+// Labels for correlations by the set of messengers they contain
+
+export interface Messenger {
+  eventType: string;
+  code: string;
+  label: string;
+}
+
+// Canonical order used when building combined codes and labels
+export const MESSENGERS: Messenger[] = [
+  { eventType: 'gravitational_wave', code: 'gw', label: 'GW' },
+  { eventType: 'gamma_ray_burst', code: 'grb', label: 'GRB' },
+  { eventType: 'optical_transient', code: 'optical', label: 'Optical' },
+  { eventType: 'neutrino', code: 'neutrino', label: 'Neutrino' },
+  { eventType: 'radio_burst', code: 'radio', label: 'Radio' }
+];
+
+// Code for groups that contain a single messenger
+export const SAME_TYPE_CODE = 'same_type';
+
+export interface MessengerClassification {
+  // e.g. 'gw_grb_optical_neutrino', or 'same_type' for a single messenger
+  code: string;
+  // e.g. 'GW + GRB + Optical + Neutrino'
+  label: string;
+  messengers: string[];
+  // Three or more distinct messengers
+  isMultiMessenger: boolean;
+}
+
+function findMessenger(eventType: string): Messenger {
+  return MESSENGERS.find(m => m.eventType === eventType) ||
+    { eventType, code: eventType, label: eventType.replace(/_/g, ' ') };
+}
+
+function rank(messenger: Messenger): number {
+  const index = MESSENGERS.indexOf(messenger);
+  return index === -1 ? MESSENGERS.length : index;
+}
+
+// Classify a pair or cluster by the full set of event types it contains
+export function classifyMessengers(eventTypes: string[]): MessengerClassification {
+  const messengers = Array.from(new Set(eventTypes))
+    .map(findMessenger)
+    .sort((a, b) => rank(a) - rank(b) || a.code.localeCompare(b.code));
+
+  const labels = messengers.map(m => m.label);
+
+  return {
+    code: messengers.length > 1 ? messengers.map(m => m.code).join('_') : SAME_TYPE_CODE,
+    label: messengers.length > 1 ? labels.join(' + ') : `${labels[0] || 'Unknown'} only`,
+    messengers: messengers.map(m => m.eventType),
+    isMultiMessenger: messengers.length >= 3
+  };
+}
+
+// Turn a stored classification code back into its display label
+export function describeCorrelationType(code: string): string {
+  if (code === SAME_TYPE_CODE) return 'Same messenger';
+
+  const messengers = code.split('_').map(part => MESSENGERS.find(m => m.code === part));
+  if (messengers.some(m => !m)) return code;
+  return messengers.map(m => m!.label).join(' + ');
+}
@@ -0,0 +1,29 @@
+// Reading result sets larger than one PostgREST response
+
+// PostgREST answers at most this many rows (max-rows) per request
+export const QUERY_PAGE_SIZE = 1000;
+
+interface PageResult<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+// Fetch every row by requesting consecutive ranges until a short page comes
+// back. `page` builds the query for rows from..to (inclusive); it must apply
+// a total order (e.g. by id) so pages neither overlap nor skip rows.
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<{ rows: T[]; error: Error | null }> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += QUERY_PAGE_SIZE) {
+    const { data, error } = await page(from, from + QUERY_PAGE_SIZE - 1);
+    if (error) return { rows, error: new Error(error.message) };
+
+    const pageRows = data || [];
+    pageRows.forEach(row => rows.push(row));
+    if (pageRows.length < QUERY_PAGE_SIZE) break;
+  }
+
+  return { rows, error: null };
+}
@@ -0,0 +1,155 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import {
+  FollowUpPriority,
+  MANUAL_PRIORITY_RULE,
+  PriorityCorrelation,
+  PriorityEvent,
+  PriorityResult
+} from './follow-up-priority';
+import { toJson } from './json';
+import { fetchAllPages } from './paged-query';
+
+// Ids per .in() filter, keeping request URLs short
+const ID_BATCH_SIZE = 100;
+
+// Observatory latitude used for the altitude check, e.g. 33.36 for Palomar
+const OBSERVER_LATITUDE_DEG = process.env.FOLLOW_UP_OBSERVER_LATITUDE_DEG
+  ? Number(process.env.FOLLOW_UP_OBSERVER_LATITUDE_DEG)
+  : null;
+
+// Recency and Sun separation change with time, so a stored priority is
+// recomputed once it is older than this
+export const PRIORITY_MAX_AGE_MS = 60 * 60 * 1000;
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_BATCH_SIZE) {
+    result.push(items.slice(i, i + ID_BATCH_SIZE));
+  }
+  return result;
+}
+
+export class PriorityStore {
+  // Recompute and store follow_up_priority for the given events from their
+  // stored correlations and skymaps. Priorities set manually are kept.
+  static async recompute(
+    client: SupabaseClient<Database>,
+    eventIds: string[],
+    now: Date = new Date()
+  ): Promise<{ updated: number; priorities: Map<string, PriorityResult>; error: Error | null }> {
+    const ids = Array.from(new Set(eventIds));
+    const priorities = new Map<string, PriorityResult>();
+    let updated = 0;
+
+    for (const batch of batches(ids)) {
+      const { data: events, error: eventsError } = await client
+        .from('astro_events')
+        .select('id, event_type, time_utc, ra, dec, confidence_score, error_radius_deg, metadata, follow_up_rule')
+        .in('id', batch);
+      if (eventsError) return { updated, priorities, error: new Error(eventsError.message) };
+
+      const candidates = (events || []).filter(e => e.follow_up_rule !== MANUAL_PRIORITY_RULE);
+      if (candidates.length === 0) continue;
+      const candidateIds = candidates.map(e => e.id);
+      const idList = candidateIds.join(',');
+
+      const { rows: correlationRows, error: correlationsError } = await fetchAllPages((from, to) => client
+        .from('event_correlations')
+        .select('event1_id, event2_id, confidence_score')
+        .or(`event1_id.in.(${idList}),event2_id.in.(${idList})`)
+        .order('id', { ascending: true })
+        .range(from, to));
+      if (correlationsError) return { updated, priorities, error: correlationsError };
+
+      const partnerIds = Array.from(new Set(correlationRows.flatMap(c => [c.event1_id, c.event2_id])))
+        .filter((id): id is string => id !== null);
+      const partnerTypes = await this.getEventTypes(client, partnerIds);
+
+      const { data: skymaps, error: skymapsError } = await client
+        .from('event_skymaps')
+        .select('event_id, area_90_deg2')
+        .in('event_id', candidateIds);
+      if (skymapsError) console.error('Failed to fetch skymap areas for priorities:', skymapsError);
+      const skymapAreas = new Map((skymaps || []).map(s => [s.event_id, Number(s.area_90_deg2)]));
+
+      const updates: Json[] = [];
+      for (const event of candidates as PriorityEvent[]) {
+        const eventCorrelations: PriorityCorrelation[] = correlationRows
+          .filter(c => c.event1_id === event.id || c.event2_id === event.id)
+          .map(c => {
+            const partnerId = c.event1_id === event.id ? c.event2_id : c.event1_id;
+            return {
+              partnerEventType: (partnerId && partnerTypes.get(partnerId)) || 'unknown',
+              confidenceScore: Number(c.confidence_score) || 0
+            };
+          });
+
+        const result = FollowUpPriority.compute({
+          event,
+          correlations: eventCorrelations,
+          skymapAreaDeg2: skymapAreas.get(event.id) ?? null,
+          now,
+          observerLatitudeDeg: OBSERVER_LATITUDE_DEG
+        });
+        priorities.set(event.id, result);
+        updates.push({
+          id: event.id,
+          follow_up_priority: result.priority,
+          follow_up_rule: result.rule,
+          follow_up_factors: toJson(result.factors),
+          follow_up_updated_at: now.toISOString()
+        });
+      }
+
+      // One statement per batch instead of one update per event
+      const { data: count, error: updateError } = await client
+        .rpc('set_follow_up_priorities', { updates });
+      if (updateError) return { updated, priorities, error: new Error(updateError.message) };
+      updated += Number(count) || 0;
+    }
+
+    return { updated, priorities, error: null };
+  }
+
+  // Recompute every priority last computed more than PRIORITY_MAX_AGE_MS
+  // ago. Meant to run on a schedule (POST /api/events/priorities) so reads
+  // and sorts by priority see current values without recomputing them.
+  static async refreshStale(
+    client: SupabaseClient<Database>,
+    now: Date = new Date()
+  ): Promise<{ updated: number; error: Error | null }> {
+    const cutoff = new Date(now.getTime() - PRIORITY_MAX_AGE_MS).toISOString();
+
+    // Collect the ids first: refreshed events leave the filter, which would
+    // shift later pages
+    const { rows, error: listError } = await fetchAllPages<{ id: string; follow_up_rule: string | null }>((from, to) => client
+      .from('astro_events')
+      .select('id, follow_up_rule')
+      .or(`follow_up_updated_at.is.null,follow_up_updated_at.lt.${cutoff}`)
+      .order('id', { ascending: true })
+      .range(from, to));
+    if (listError) return { updated: 0, error: listError };
+
+    const staleIds = rows.filter(row => row.follow_up_rule !== MANUAL_PRIORITY_RULE).map(row => row.id);
+    if (staleIds.length === 0) return { updated: 0, error: null };
+    const { updated, error } = await this.recompute(client, staleIds, now);
+    return { updated, error };
+  }
+
+  private static async getEventTypes(client: SupabaseClient<Database>, ids: string[]): Promise<Map<string, string>> {
+    const types = new Map<string, string>();
+    for (const batch of batches(ids)) {
+      const { data, error } = await client
+        .from('astro_events')
+        .select('id, event_type')
+        .in('id', batch);
+      if (error) {
+        console.error('Failed to fetch correlated event types for priorities:', error);
+        continue;
+      }
+      (data || []).forEach(e => types.set(e.id, e.event_type));
+    }
+    return types;
+  }
+}
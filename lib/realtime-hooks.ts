@@ -1,7 +1,14 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { supabase, AstroEvent, EventCorrelation, isSupabaseConfigured } from '@/lib/supabase';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  supabase,
+  AstroEvent,
+  EventCorrelation,
+  CorrelationJobSummary,
+  FINISHED_JOB_STATUSES,
+  isSupabaseConfigured
+} from '@/lib/supabase';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 interface UseRealtimeEventsOptions {
@@ -127,6 +134,9 @@ export function useEventsWithRealtime(initialEvents: AstroEvent[] = []) {
   const [events, setEvents] = useState<AstroEvent[]>(initialEvents);
   const [realtimeEnabled, setRealtimeEnabled] = useState(true);
   const [loading, setLoading] = useState(true);
+  // Set once the caller supplies its own (e.g. filtered) list, which the
+  // initial fetch must not overwrite
+  const replacedRef = useRef(false);
 
   // Fetch initial events
   useEffect(() => {
@@ -134,7 +144,7 @@ export function useEventsWithRealtime(initialEvents: AstroEvent[] = []) {
       try {
         const response = await fetch('/api/events');
         const data = await response.json();
-        if (data.events) {
+        if (data.events && !replacedRef.current) {
           setEvents(data.events);
         }
       } catch (error) {
@@ -193,6 +203,11 @@ export function useEventsWithRealtime(initialEvents: AstroEvent[] = []) {
     setEvents(prev => prev.filter(event => event.id !== eventId));
   };
 
+  const replaceEvents = useCallback((nextEvents: AstroEvent[]) => {
+    replacedRef.current = true;
+    setEvents(nextEvents);
+  }, []);
+
   return {
     events,
     isConnected,
@@ -203,6 +218,7 @@ export function useEventsWithRealtime(initialEvents: AstroEvent[] = []) {
     addEvent,
     updateEvent,
     removeEvent,
+    replaceEvents,
     loading
   };
 }
@@ -261,3 +277,101 @@ export function useCorrelationsWithRealtime(initialCorrelations: EventCorrelatio
     removeCorrelation
   };
 }
+
+// How often job statuses are re-fetched while a job is pending or running,
+// for clients whose realtime subscription does not deliver job updates
+const JOB_POLL_INTERVAL_MS = 5000;
+
+interface UseCorrelationJobsOptions {
+  // Called once when a job seen pending or running reaches a final state
+  onJobFinished?: (job: CorrelationJobSummary) => void;
+  enabled?: boolean;
+}
+
+// Hook for the correlation job list, kept current through realtime updates
+// on correlation_jobs and, while a job is active, polling
+export function useCorrelationJobs({ onJobFinished, enabled = true }: UseCorrelationJobsOptions = {}) {
+  const [jobs, setJobs] = useState<CorrelationJobSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const statusesRef = useRef<Map<string, CorrelationJobSummary['status']>>(new Map());
+  const onJobFinishedRef = useRef(onJobFinished);
+  onJobFinishedRef.current = onJobFinished;
+
+  // Record the latest state of some jobs, reporting the ones that finished
+  const applyJobs = useCallback((updates: CorrelationJobSummary[], replace: boolean) => {
+    updates.forEach(job => {
+      const previous = statusesRef.current.get(job.id);
+      statusesRef.current.set(job.id, job.status);
+      const wasActive = previous === 'pending' || previous === 'running';
+      if (wasActive && FINISHED_JOB_STATUSES.includes(job.status)) {
+        onJobFinishedRef.current?.(job);
+      }
+    });
+
+    setJobs(prev => {
+      if (replace) return updates;
+      const byId = new Map(updates.map(job => [job.id, job]));
+      const merged = prev.map(job => byId.get(job.id) ?? job);
+      const added = updates.filter(job => !prev.some(existing => existing.id === job.id));
+      return [...added, ...merged];
+    });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch('/api/correlate/jobs');
+      if (!response.ok) return;
+      const data = await response.json();
+      applyJobs(data.jobs || [], true);
+    } catch (error) {
+      console.error('Failed to fetch correlation jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [applyJobs]);
+
+  // Track a job the client has just submitted
+  const trackJob = useCallback((job: CorrelationJobSummary) => {
+    applyJobs([job], false);
+  }, [applyJobs]);
+
+  useEffect(() => {
+    if (enabled) refresh();
+  }, [enabled, refresh]);
+
+  useEffect(() => {
+    if (!enabled || !isSupabaseConfigured || !supabase) return;
+
+    const client = supabase;
+    const handleChange = (payload: { new: unknown }) => {
+      if (!payload.new) return;
+      const { results: _results, ...job } = payload.new as CorrelationJobSummary & { results?: unknown };
+      applyJobs([job], false);
+    };
+
+    const channel = client
+      .channel('skyweaver-correlation-jobs')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'correlation_jobs' }, handleChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'correlation_jobs' }, handleChange)
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }, [enabled, applyJobs]);
+
+  const hasActiveJob = jobs.some(job => job.status === 'pending' || job.status === 'running');
+
+  useEffect(() => {
+    if (!enabled || !hasActiveJob) return;
+    const timer = setInterval(refresh, JOB_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [enabled, hasActiveJob, refresh]);
+
+  return {
+    jobs,
+    loading,
+    refresh,
+    trackJob
+  };
+}
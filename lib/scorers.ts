@@ -0,0 +1,183 @@
+import type { AstroEvent } from './supabase';
+import type { CorrelationParams, PairSignificance, SkymapLocalization, TimeWindow } from './correlation-engine';
+
+// Everything a scorer may use to rate a pair that already passed the cuts
+export interface ScoringContext {
+  event1: AstroEvent;
+  event2: AstroEvent;
+  // Delay oriented to the pair's time window (see getPairTimeWindow)
+  delaySeconds: number;
+  timeWindow: TimeWindow;
+  angularSeparationDeg: number;
+  matchRadiusDeg: number;
+  // Localization error radii of event1 and event2, null when unknown
+  errorRadiiDeg: [number | null, number | null];
+  // Set when either event has a probability skymap
+  skymap: SkymapLocalization | null;
+  significance: PairSignificance | null;
+  params: CorrelationParams;
+}
+
+export interface CorrelationScorer {
+  name: string;
+  version: string;
+  description: string;
+  // Returns a score in [0, 1]
+  score(context: ScoringContext): number;
+}
+
+export const DEFAULT_SCORER = 'linear';
+
+// Prior odds that a pair passing the cuts shares a common origin, used by
+// the Bayesian scorer when the caller does not supply one
+const DEFAULT_PRIOR_ODDS = 1e-3;
+
+const toRad = Math.PI / 180;
+
+// How close a delay sits to zero relative to its side of the window (1 at zero, 0 at the edge)
+export function timeProximity(delaySeconds: number, window: TimeWindow): number {
+  const bound = delaySeconds >= 0 ? window.maxSeconds : -window.minSeconds;
+  if (bound <= 0) return delaySeconds === 0 ? 1 : 0;
+  return Math.max(0, 1 - (Math.abs(delaySeconds) / bound));
+}
+
+// How close a separation sits to zero relative to the match radius (1 at
+// zero, 0 at the edge); a zero radius only accepts coincident positions
+function separationProximity(angularSepDeg: number, matchRadiusDeg: number): number {
+  if (matchRadiusDeg <= 0) return angularSepDeg === 0 ? 1 : 0;
+  return Math.max(0, 1 - (angularSepDeg / matchRadiusDeg));
+}
+
+// Weighted combination (time is more important for multi-messenger events)
+export function linearConfidence(
+  delaySeconds: number,
+  angularSepDeg: number,
+  matchRadiusDeg: number,
+  window: TimeWindow
+): number {
+  const timeScore = timeProximity(delaySeconds, window);
+  const spatialScore = separationProximity(angularSepDeg, matchRadiusDeg);
+  return 0.7 * timeScore + 0.3 * spatialScore;
+}
+
+// Spatial agreement in [0, 1]: with a skymap, the probability mass outside
+// the smallest credible region reaching the counterpart; otherwise linear
+// in separation up to the match radius
+export function spatialProximity(context: ScoringContext): number {
+  if (context.skymap) return 1 - context.skymap.credibleLevel;
+  return separationProximity(context.angularSeparationDeg, context.matchRadiusDeg);
+}
+
+// Gaussian widths implied by the cuts: error radii, the match radius and
+// each side of the time window are all treated as 2-sigma bounds. Returns
+// the combined positional variance sigma1^2 + sigma2^2 in square degrees.
+function spatialVarianceDeg2(context: ScoringContext): number {
+  const [radius1, radius2] = context.errorRadiiDeg;
+  const variance = ((radius1 ?? 0) / 2) ** 2 + ((radius2 ?? 0) / 2) ** 2;
+  return variance > 0 ? variance : (context.matchRadiusDeg / 2) ** 2;
+}
+
+function timeSigmaSeconds(context: ScoringContext): number {
+  return (context.timeWindow.maxSeconds - context.timeWindow.minSeconds) / 4;
+}
+
+function timeCenterSeconds(context: ScoringContext): number {
+  return (context.timeWindow.maxSeconds + context.timeWindow.minSeconds) / 2;
+}
+
+const linearScorer: CorrelationScorer = {
+  name: 'linear',
+  version: 'v1.1',
+  description: '0.7 x time proximity + 0.3 x spatial proximity, each falling linearly to zero at the cut (1 - credible level with a skymap)',
+  score: context => 0.7 * timeProximity(context.delaySeconds, context.timeWindow) + 0.3 * spatialProximity(context)
+};
+
+const falseAlarmScorer: CorrelationScorer = {
+  name: 'false_alarm',
+  version: 'v1.1',
+  description: '1 - false-alarm probability from per-source background rates; linear when rates are unknown',
+  score: context => context.significance
+    ? 1 - context.significance.falseAlarmProbability
+    : linearScorer.score(context)
+};
+
+const gaussianScorer: CorrelationScorer = {
+  name: 'gaussian_likelihood',
+  version: 'v1.2',
+  description: 'Joint Gaussian likelihood of the offset in sky position and in delay from the window centre',
+  score: context => {
+    const sigmaT = timeSigmaSeconds(context);
+    const temporal = sigmaT > 0 ? (context.delaySeconds - timeCenterSeconds(context)) / sigmaT : 0;
+    // For a 2D Gaussian, exp(-r^2 / 2) equals 1 - credible level, which
+    // carries over to skymaps of any shape
+    if (context.skymap) {
+      return (1 - context.skymap.credibleLevel) * Math.exp(-0.5 * temporal * temporal);
+    }
+    const variance = spatialVarianceDeg2(context);
+    const separation = context.angularSeparationDeg;
+    const spatial = variance > 0
+      ? separation * separation / variance
+      : separation === 0 ? 0 : Infinity;
+    return Math.exp(-0.5 * (spatial + temporal * temporal));
+  }
+};
+
+const bayesianScorer: CorrelationScorer = {
+  name: 'bayesian_odds',
+  version: 'v1.2',
+  description: 'Posterior probability of a common origin: prior odds x positional Bayes factor (Budavari & Szalay 2008) x timing Bayes factor',
+  score: context => {
+    // Positional Bayes factor: skymap density against an isotropic prior,
+    // or two Gaussian localizations in the small-angle form
+    // B = 2 / S x exp(-psi^2 / (2 S)) with S = sigma1^2 + sigma2^2 in rad^2
+    let positional: number;
+    if (context.skymap) {
+      positional = 4 * Math.PI * context.skymap.probDensity;
+    } else {
+      const variance = spatialVarianceDeg2(context) * toRad * toRad;
+      const separation = context.angularSeparationDeg * toRad;
+      // A zero width only accepts coincident positions
+      positional = variance > 0
+        ? (2 / variance) * Math.exp(-(separation * separation) / (2 * variance))
+        : separation === 0 ? Infinity : 0;
+    }
+
+    // Timing Bayes factor: Gaussian around the window centre against a
+    // delay drawn uniformly across the window
+    const sigmaT = timeSigmaSeconds(context);
+    const windowLength = context.timeWindow.maxSeconds - context.timeWindow.minSeconds;
+    const offset = context.delaySeconds - timeCenterSeconds(context);
+    const timing = sigmaT > 0
+      ? windowLength * Math.exp(-(offset * offset) / (2 * sigmaT * sigmaT)) / (sigmaT * Math.sqrt(2 * Math.PI))
+      : 1;
+
+    const odds = (context.params.priorOdds ?? DEFAULT_PRIOR_ODDS) * positional * timing;
+    return Number.isFinite(odds) ? odds / (1 + odds) : 1;
+  }
+};
+
+export class ScorerRegistry {
+  private static scorers = new Map<string, CorrelationScorer>();
+
+  static register(scorer: CorrelationScorer): void {
+    this.scorers.set(scorer.name, scorer);
+  }
+
+  static has(name: string): boolean {
+    return this.scorers.has(name);
+  }
+
+  static get(name: string): CorrelationScorer {
+    const scorer = this.scorers.get(name);
+    if (!scorer) {
+      throw new Error(`Unknown correlation scorer: ${name}`);
+    }
+    return scorer;
+  }
+
+  static list(): CorrelationScorer[] {
+    return Array.from(this.scorers.values());
+  }
+}
+
+[linearScorer, falseAlarmScorer, gaussianScorer, bayesianScorer].forEach(scorer => ScorerRegistry.register(scorer));
@@ -0,0 +1,96 @@
+import { AstroEvent } from './supabase';
+
+const FULL_SKY_SR = 4 * Math.PI;
+
+// Shortest span used when deriving a rate, so a source with one event (or
+// several at the same instant) does not get an infinite rate
+const MIN_RATE_SPAN_SECONDS = 86400;
+
+export class SignificanceCalculator {
+  // Events per second for each source, from the count and time span of that
+  // source's events in the catalog
+  static estimateSourceRates(events: Pick<AstroEvent, 'source' | 'time_utc'>[]): Record<string, number> {
+    const spans: Record<string, { count: number; first: number; last: number }> = {};
+
+    for (const event of events) {
+      const time = new Date(event.time_utc).getTime();
+      if (!Number.isFinite(time)) continue;
+
+      const span = spans[event.source];
+      if (!span) {
+        spans[event.source] = { count: 1, first: time, last: time };
+      } else {
+        span.count++;
+        span.first = Math.min(span.first, time);
+        span.last = Math.max(span.last, time);
+      }
+    }
+
+    const rates: Record<string, number> = {};
+    for (const [source, span] of Object.entries(spans)) {
+      const seconds = Math.max(MIN_RATE_SPAN_SECONDS, (span.last - span.first) / 1000);
+      rates[source] = span.count / seconds;
+    }
+    return rates;
+  }
+
+  // Solid angle (steradians) of a cone with the given angular radius
+  static coneSolidAngle(radiusDeg: number): number {
+    const radius = Math.min(180, Math.max(0, radiusDeg)) * Math.PI / 180;
+    return 2 * Math.PI * (1 - Math.cos(radius));
+  }
+
+  // Expected number of unrelated events from a Poisson stream of the given
+  // rate falling inside the searched time window and sky cone
+  static expectedChanceCoincidences(ratePerSecond: number, windowSeconds: number, radiusDeg: number): number {
+    return this.expectedChanceCoincidencesInArea(ratePerSecond, windowSeconds, this.coneSolidAngle(radiusDeg));
+  }
+
+  // Same, for a searched sky region of arbitrary shape (solid angle in steradians)
+  static expectedChanceCoincidencesInArea(ratePerSecond: number, windowSeconds: number, solidAngleSr: number): number {
+    return ratePerSecond * Math.max(0, windowSeconds) * (Math.min(FULL_SKY_SR, Math.max(0, solidAngleSr)) / FULL_SKY_SR);
+  }
+
+  // Probability of at least one chance coincidence given the expected count
+  static falseAlarmProbability(expectedCount: number): number {
+    return -Math.expm1(-Math.max(0, expectedCount));
+  }
+
+  // Two-sided Gaussian-equivalent significance of a false-alarm probability
+  static fapToSigma(fap: number): number {
+    if (!(fap < 1)) return 0;
+    if (fap <= 0) return Infinity;
+    return -this.normalQuantile(fap / 2);
+  }
+
+  // Inverse of the standard normal CDF (Acklam's rational approximation,
+  // relative error below 1.2e-9 across the full range)
+  static normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2,
+      1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2,
+      6.680131188771972e1, -1.328068155288572e1];
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838,
+      -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996,
+      3.754408661907416];
+    const pLow = 0.02425;
+
+    if (p < pLow) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+      return -this.normalQuantile(1 - p);
+    }
+
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+}
@@ -0,0 +1,107 @@
+// Declination-band grid for narrowing sky-position candidate searches
+
+// Padding applied to search radii so floating point rounding in the cell
+// lookup can never exclude a pair that the exact separation test accepts
+const RADIUS_PADDING_DEG = 1e-6;
+
+// Cells smaller than this blow up the per-band cell count without pruning more
+const MIN_CELL_SIZE_DEG = 0.05;
+
+export class SkyGrid<T> {
+  private readonly cellSizeDeg: number;
+  private readonly bandCount: number;
+  private readonly raCellCount: number;
+  // band index -> RA cell index -> bucket of items (in insertion order)
+  private readonly bands = new Map<number, Map<number, SkyGridBucket<T>>>();
+
+  constructor(cellSizeDeg: number) {
+    this.cellSizeDeg = Math.min(180, Math.max(MIN_CELL_SIZE_DEG, cellSizeDeg));
+    this.bandCount = Math.ceil(180 / this.cellSizeDeg);
+    this.raCellCount = Math.ceil(360 / this.cellSizeDeg);
+  }
+
+  private bandIndex(dec: number): number {
+    const band = Math.floor((dec + 90) / this.cellSizeDeg);
+    return Math.min(this.bandCount - 1, Math.max(0, band));
+  }
+
+  private raCellIndex(ra: number): number {
+    const normalized = ((ra % 360) + 360) % 360;
+    return Math.min(this.raCellCount - 1, Math.floor(normalized / this.cellSizeDeg));
+  }
+
+  // Add an item at the given position; items must be inserted in the order
+  // the caller later wants to expire them (see SkyGridBucket.expire)
+  insert(ra: number, dec: number, item: T): void {
+    const bandIdx = this.bandIndex(dec);
+    let band = this.bands.get(bandIdx);
+    if (!band) {
+      band = new Map();
+      this.bands.set(bandIdx, band);
+    }
+
+    const cellIdx = this.raCellIndex(ra);
+    let bucket = band.get(cellIdx);
+    if (!bucket) {
+      bucket = new SkyGridBucket<T>();
+      band.set(cellIdx, bucket);
+    }
+    bucket.items.push(item);
+  }
+
+  // Collect every bucket that may hold an item within radiusDeg of (ra, dec).
+  // The result is a superset: callers still apply the exact separation test.
+  bucketsNear(ra: number, dec: number, radiusDeg: number): SkyGridBucket<T>[] {
+    const radius = radiusDeg + RADIUS_PADDING_DEG;
+    const minBand = this.bandIndex(dec - radius);
+    const maxBand = this.bandIndex(dec + radius);
+
+    // Half-width in RA of the search cone, widened to the full circle near the poles
+    let raHalfWidth = 180;
+    if (Math.abs(dec) + radius < 90) {
+      const toRad = Math.PI / 180;
+      const ratio = Math.sin(radius * toRad) / Math.cos(dec * toRad);
+      if (ratio < 1) {
+        raHalfWidth = Math.asin(ratio) / toRad + RADIUS_PADDING_DEG;
+      }
+    }
+
+    const buckets: SkyGridBucket<T>[] = [];
+    for (let bandIdx = minBand; bandIdx <= maxBand; bandIdx++) {
+      const band = this.bands.get(bandIdx);
+      if (!band) continue;
+
+      const firstCell = Math.floor((ra - raHalfWidth) / this.cellSizeDeg);
+      const lastCell = Math.floor((ra + raHalfWidth) / this.cellSizeDeg);
+      const span = lastCell - firstCell + 1;
+
+      if (raHalfWidth >= 180 || span >= this.raCellCount || span >= band.size) {
+        // Cheaper (or required) to walk every occupied cell in the band
+        band.forEach(bucket => buckets.push(bucket));
+        continue;
+      }
+
+      for (let cell = firstCell; cell <= lastCell; cell++) {
+        const wrapped = ((cell % this.raCellCount) + this.raCellCount) % this.raCellCount;
+        const bucket = band.get(wrapped);
+        if (bucket) buckets.push(bucket);
+      }
+    }
+
+    return buckets;
+  }
+}
+
+export class SkyGridBucket<T> {
+  items: T[] = [];
+  // Items before this offset have been expired by the caller's sweep
+  head = 0;
+
+  // Drop leading items for which isExpired returns true. Valid because items
+  // are inserted in sweep order, so expired items always form a prefix.
+  expire(isExpired: (item: T) => boolean): void {
+    while (this.head < this.items.length && isExpired(this.items[this.head])) {
+      this.head++;
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { SkyCoordinates } from './coordinates';
+
+// Sky regions accepted by GET /api/events: a cone around a center, an RA/Dec
+// box, or both (events must then fall in each). The search itself runs in
+// the database through search_events_in_sky_region.
+
+export interface ConeRegion {
+  ra: number;
+  dec: number;
+  radiusDeg: number;
+}
+
+// A box with raMin greater than raMax wraps through RA 0 (e.g. 350 to 10)
+export interface BoxRegion {
+  raMin: number;
+  raMax: number;
+  decMin: number;
+  decMax: number;
+}
+
+export interface SkyRegion {
+  cone: ConeRegion | null;
+  box: BoxRegion | null;
+}
+
+export type SkyRegionResult =
+  | { ok: true; region: SkyRegion }
+  | { ok: false; error: string };
+
+// Arguments of the search_events_in_sky_region database function
+export interface SkyRegionArgs {
+  cone_ra: number | null;
+  cone_dec: number | null;
+  cone_radius_deg: number | null;
+  box_ra_min: number | null;
+  box_ra_max: number | null;
+  box_dec_min: number | null;
+  box_dec_max: number | null;
+}
+
+const CONE_PARAMS = ['cone_ra', 'cone_dec', 'cone_radius'];
+const BOX_PARAMS = ['ra_min', 'ra_max', 'dec_min', 'dec_max'];
+
+// Whether a box covers the whole sky and so filters nothing
+export function isFullSkyBox(box: BoxRegion): boolean {
+  return box.raMin <= 0 && box.raMax >= 360 && box.decMin <= -90 && box.decMax >= 90;
+}
+
+export function hasSkyRegion(region: SkyRegion): boolean {
+  return region.cone !== null || region.box !== null;
+}
+
+// Read a region from query parameters. Cone centers and box edges may be
+// decimal degrees or sexagesimal; the cone radius is in degrees. Missing
+// box edges default to the full range.
+export function parseSkyRegion(searchParams: URLSearchParams): SkyRegionResult {
+  const get = (name: string) => searchParams.get(name)?.trim() || null;
+
+  let cone: ConeRegion | null = null;
+  if (CONE_PARAMS.some(name => get(name) !== null)) {
+    const raText = get('cone_ra');
+    const decText = get('cone_dec');
+    const radiusText = get('cone_radius');
+    if (raText === null || decText === null || radiusText === null) {
+      return { ok: false, error: 'cone_ra, cone_dec and cone_radius must be given together' };
+    }
+
+    const ra = SkyCoordinates.parseRa(raText);
+    const dec = SkyCoordinates.parseDec(decText);
+    const radiusDeg = Number(radiusText);
+    if (!Number.isFinite(ra)) return { ok: false, error: 'cone_ra must be 0-360 degrees or hours like 13h09m48s' };
+    if (!Number.isFinite(dec)) return { ok: false, error: 'cone_dec must be -90 to 90 degrees or like -23d22m53s' };
+    if (!Number.isFinite(radiusDeg) || radiusDeg <= 0 || radiusDeg > 180) {
+      return { ok: false, error: 'cone_radius must be greater than 0 and at most 180 degrees' };
+    }
+    cone = { ra, dec, radiusDeg };
+  }
+
+  let box: BoxRegion | null = null;
+  if (BOX_PARAMS.some(name => get(name) !== null)) {
+    const edge = (name: string, fallback: number, parse: (value: string) => number) => {
+      const text = get(name);
+      return text === null ? fallback : parse(text);
+    };
+    const candidate: BoxRegion = {
+      raMin: edge('ra_min', 0, v => SkyCoordinates.parseRa(v)),
+      raMax: edge('ra_max', 360, v => SkyCoordinates.parseRa(v)),
+      decMin: edge('dec_min', -90, v => SkyCoordinates.parseDec(v)),
+      decMax: edge('dec_max', 90, v => SkyCoordinates.parseDec(v))
+    };
+
+    if (!Number.isFinite(candidate.raMin) || !Number.isFinite(candidate.raMax)) {
+      return { ok: false, error: 'ra_min and ra_max must be 0-360 degrees or hours like 13h09m48s' };
+    }
+    if (!Number.isFinite(candidate.decMin) || !Number.isFinite(candidate.decMax)) {
+      return { ok: false, error: 'dec_min and dec_max must be -90 to 90 degrees or like -23d22m53s' };
+    }
+    if (candidate.decMin > candidate.decMax) {
+      return { ok: false, error: 'dec_min must not be greater than dec_max' };
+    }
+    box = isFullSkyBox(candidate) ? null : candidate;
+  }
+
+  return { ok: true, region: { cone, box } };
+}
+
+// Query parameters for a region, the inverse of parseSkyRegion
+export function skyRegionQueryParams(region: SkyRegion): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (region.cone) {
+    params.cone_ra = String(region.cone.ra);
+    params.cone_dec = String(region.cone.dec);
+    params.cone_radius = String(region.cone.radiusDeg);
+  }
+  if (region.box && !isFullSkyBox(region.box)) {
+    params.ra_min = String(region.box.raMin);
+    params.ra_max = String(region.box.raMax);
+    params.dec_min = String(region.box.decMin);
+    params.dec_max = String(region.box.decMax);
+  }
+  return params;
+}
+
+export function toSkyRegionArgs(region: SkyRegion): SkyRegionArgs {
+  return {
+    cone_ra: region.cone?.ra ?? null,
+    cone_dec: region.cone?.dec ?? null,
+    cone_radius_deg: region.cone?.radiusDeg ?? null,
+    box_ra_min: region.box?.raMin ?? null,
+    box_ra_max: region.box?.raMax ?? null,
+    box_dec_min: region.box?.decMin ?? null,
+    box_dec_max: region.box?.decMax ?? null
+  };
+}
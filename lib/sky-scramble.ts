@@ -0,0 +1,125 @@
+import { AstroEvent } from './supabase';
+import { ClusterOptions, CorrelationEngine, CorrelationParams } from './correlation-engine';
+import { createSeededRandom } from './random';
+
+export interface SkyScrambleOptions {
+  trials: number;
+  seed: number;
+  // Keep each source's events inside the declination band that source
+  // actually observed, instead of scattering them over the whole sky
+  keepFootprint?: boolean;
+}
+
+export interface ChanceCount {
+  observed: number;
+  meanChance: number;
+  // Fraction of trials reaching the observed count, with the usual +1
+  pValue: number;
+}
+
+export interface SkyScrambleResult {
+  trials: number;
+  seed: number;
+  keepFootprint: boolean;
+  correlations: ChanceCount;
+  clusters: ChanceCount;
+  // Counts found in each scrambled trial
+  correlationCounts: number[];
+  clusterCounts: number[];
+}
+
+interface Footprint {
+  minSinDec: number;
+  maxSinDec: number;
+}
+
+const toRad = Math.PI / 180;
+
+export class SkyScrambleEstimator {
+  // Significance of the run as a whole: how often catalogs with the same
+  // events at random positions and times produce as many correlations and
+  // clusters as the real one. Positions are drawn isotropically (uniform in
+  // RA and sin(dec)) and times uniformly over the catalog's time span.
+  // Scrambled events are localized by their point and error radius only,
+  // since a skymap cannot follow its event to a new position.
+  static estimate(
+    events: AstroEvent[],
+    params: CorrelationParams,
+    clustering: ClusterOptions,
+    observed: { correlations: number; clusters: number },
+    options: SkyScrambleOptions
+  ): SkyScrambleResult {
+    const keepFootprint = options.keepFootprint ?? false;
+    const footprints = keepFootprint ? this.getFootprints(events) : new Map<string, Footprint>();
+
+    const times = events.map(e => new Date(e.time_utc).getTime()).filter(t => Number.isFinite(t));
+    const startMs = times.reduce((min, t) => Math.min(min, t), times[0] ?? 0);
+    const endMs = times.reduce((max, t) => Math.max(max, t), startMs);
+
+    const random = createSeededRandom(options.seed);
+    const correlationCounts: number[] = [];
+    const clusterCounts: number[] = [];
+
+    for (let trial = 0; trial < options.trials; trial++) {
+      const scrambled = events.map(event => {
+        const footprint = footprints.get(event.source);
+        const sinDec = footprint
+          ? footprint.minSinDec + random() * (footprint.maxSinDec - footprint.minSinDec)
+          : 2 * random() - 1;
+        return {
+          ...event,
+          ra: random() * 360,
+          dec: Math.asin(sinDec) / toRad,
+          time_utc: new Date(startMs + random() * (endMs - startMs)).toISOString(),
+          skymap: undefined
+        };
+      });
+
+      const correlations = CorrelationEngine.correlateEvents(scrambled, params);
+      correlationCounts.push(correlations.length);
+      clusterCounts.push(CorrelationEngine.findEventClusters(correlations, clustering).length);
+    }
+
+    return {
+      trials: options.trials,
+      seed: options.seed,
+      keepFootprint,
+      correlations: this.summarize(observed.correlations, correlationCounts),
+      clusters: this.summarize(observed.clusters, clusterCounts),
+      correlationCounts,
+      clusterCounts
+    };
+  }
+
+  // Declination band covered by each source's events. A source seen at a
+  // single declination says nothing about its footprint and is left out, so
+  // its events are scattered over the whole sky.
+  static getFootprints(events: AstroEvent[]): Map<string, Footprint> {
+    const footprints = new Map<string, Footprint>();
+    for (const event of events) {
+      if (!Number.isFinite(event.dec)) continue;
+      const sinDec = Math.sin(event.dec * toRad);
+      const footprint = footprints.get(event.source);
+      if (footprint) {
+        footprint.minSinDec = Math.min(footprint.minSinDec, sinDec);
+        footprint.maxSinDec = Math.max(footprint.maxSinDec, sinDec);
+      } else {
+        footprints.set(event.source, { minSinDec: sinDec, maxSinDec: sinDec });
+      }
+    }
+    footprints.forEach((footprint, source) => {
+      if (footprint.maxSinDec <= footprint.minSinDec) footprints.delete(source);
+    });
+    return footprints;
+  }
+
+  private static summarize(observed: number, counts: number[]): ChanceCount {
+    const reached = counts.filter(count => count >= observed).length;
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    return {
+      observed,
+      meanChance: counts.length > 0 ? total / counts.length : 0,
+      pValue: (reached + 1) / (counts.length + 1)
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import { gunzipSync } from 'zlib';
+import { HealpixSkymap, SkymapMetadata } from './healpix';
+
+// Reads multi-order HEALPix skymaps from local files: the LIGO/Virgo/KAGRA
+// `*.multiorder.fits` format (a FITS binary table with UNIQ and PROBDENSITY
+// columns, optionally gzipped) or a JSON fixture { uniq, probdensity, metadata }.
+
+const FITS_BLOCK = 2880;
+const FITS_CARD = 80;
+
+type FitsHeader = Record<string, string | number | boolean>;
+
+interface FitsColumn {
+  name: string;
+  type: string;
+  repeat: number;
+  offset: number;
+}
+
+const FITS_TYPE_SIZES: Record<string, number> = {
+  L: 1, B: 1, I: 2, J: 4, K: 8, E: 4, D: 8
+};
+
+function parseCardValue(raw: string): string | number | boolean {
+  const value = raw.split('/')[0].trim();
+  if (raw.trim().startsWith("'")) {
+    const end = raw.indexOf("'", raw.indexOf("'") + 1);
+    return raw.slice(raw.indexOf("'") + 1, end).trim();
+  }
+  if (value === 'T') return true;
+  if (value === 'F') return false;
+  const number = Number(value.replace(/D/i, 'E'));
+  return Number.isFinite(number) ? number : value;
+}
+
+// Parse a header starting at offset; returns the header and the offset of the data
+function readHeader(buffer: Buffer, offset: number): { header: FitsHeader; dataOffset: number } {
+  const header: FitsHeader = {};
+  let position = offset;
+
+  while (position + FITS_CARD <= buffer.length) {
+    const card = buffer.toString('latin1', position, position + FITS_CARD);
+    position += FITS_CARD;
+    const keyword = card.slice(0, 8).trim();
+    if (keyword === 'END') break;
+    if (card[8] === '=' && keyword) {
+      header[keyword] = parseCardValue(card.slice(10));
+    }
+  }
+
+  const dataOffset = Math.ceil(position / FITS_BLOCK) * FITS_BLOCK;
+  return { header, dataOffset };
+}
+
+function dataSize(header: FitsHeader): number {
+  const naxis = Number(header.NAXIS || 0);
+  if (naxis === 0) return 0;
+  let size = Math.abs(Number(header.BITPIX)) / 8;
+  for (let i = 1; i <= naxis; i++) size *= Number(header[`NAXIS${i}`]);
+  return (size + Number(header.PCOUNT || 0)) * Number(header.GCOUNT || 1);
+}
+
+function parseColumns(header: FitsHeader): FitsColumn[] {
+  const columns: FitsColumn[] = [];
+  let offset = 0;
+
+  for (let i = 1; i <= Number(header.TFIELDS || 0); i++) {
+    const form = String(header[`TFORM${i}`]).trim();
+    const match = /^(\d*)([LBIJKED])$/.exec(form);
+    if (!match) {
+      throw new Error(`Unsupported FITS column format: ${form}`);
+    }
+    const repeat = match[1] ? Number(match[1]) : 1;
+    columns.push({ name: String(header[`TTYPE${i}`] || '').toUpperCase(), type: match[2], repeat, offset });
+    offset += repeat * FITS_TYPE_SIZES[match[2]];
+  }
+
+  return columns;
+}
+
+function readValue(view: DataView, offset: number, type: string): number {
+  switch (type) {
+    case 'K': return Number(view.getBigInt64(offset));
+    case 'J': return view.getInt32(offset);
+    case 'I': return view.getInt16(offset);
+    case 'B': return view.getUint8(offset);
+    case 'E': return view.getFloat32(offset);
+    case 'D': return view.getFloat64(offset);
+    default: throw new Error(`Unsupported FITS column type: ${type}`);
+  }
+}
+
+export class SkymapLoader {
+  // Parse a multi-order FITS skymap (plain or gzipped)
+  static parseFits(input: Buffer): HealpixSkymap {
+    const buffer = input[0] === 0x1f && input[1] === 0x8b ? gunzipSync(input) : input;
+
+    let offset = 0;
+    while (offset < buffer.length) {
+      const { header, dataOffset } = readHeader(buffer, offset);
+      const size = dataSize(header);
+
+      if (header.XTENSION === 'BINTABLE') {
+        if (header.ORDERING && header.ORDERING !== 'NUNIQ') {
+          throw new Error(`Only multi-order (NUNIQ) skymaps are supported, got ORDERING=${header.ORDERING}`);
+        }
+
+        const columns = parseColumns(header);
+        const uniqColumn = columns.find(c => c.name === 'UNIQ');
+        const densityColumn = columns.find(c => c.name === 'PROBDENSITY');
+        if (!uniqColumn || !densityColumn) {
+          throw new Error('Skymap table needs UNIQ and PROBDENSITY columns');
+        }
+
+        const rowLength = Number(header.NAXIS1);
+        const rowCount = Number(header.NAXIS2);
+        const view = new DataView(buffer.buffer, buffer.byteOffset + dataOffset, rowLength * rowCount);
+        const uniq: number[] = [];
+        const probDensity: number[] = [];
+
+        for (let row = 0; row < rowCount; row++) {
+          uniq.push(readValue(view, row * rowLength + uniqColumn.offset, uniqColumn.type));
+          probDensity.push(readValue(view, row * rowLength + densityColumn.offset, densityColumn.type));
+        }
+
+        const metadata: SkymapMetadata = {};
+        if (typeof header.DISTMEAN === 'number') metadata.distanceMeanMpc = header.DISTMEAN;
+        if (typeof header.DISTSTD === 'number') metadata.distanceStdMpc = header.DISTSTD;
+        if (header.OBJECT) metadata.object = header.OBJECT;
+        if (header.INSTRUME) metadata.instruments = header.INSTRUME;
+
+        return new HealpixSkymap(uniq, probDensity, metadata);
+      }
+
+      offset = dataOffset + Math.ceil(size / FITS_BLOCK) * FITS_BLOCK;
+    }
+
+    throw new Error('No binary table found in FITS skymap');
+  }
+
+  static parseJson(text: string): HealpixSkymap {
+    const data = JSON.parse(text);
+    if (!Array.isArray(data.uniq) || !Array.isArray(data.probdensity)) {
+      throw new Error('Skymap JSON needs uniq and probdensity arrays');
+    }
+    return new HealpixSkymap(data.uniq.map(Number), data.probdensity.map(Number), data.metadata || {});
+  }
+
+  static parse(buffer: Buffer, fileName: string): HealpixSkymap {
+    return /\.json$/i.test(fileName)
+      ? this.parseJson(buffer.toString('utf8'))
+      : this.parseFits(buffer);
+  }
+
+  static async fromFile(path: string): Promise<HealpixSkymap> {
+    return this.parse(await fs.readFile(path), path);
+  }
+}
@@ -0,0 +1,98 @@
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from './database.types';
+import { toJson } from './json';
+import { fetchAllPages } from './paged-query';
+import { AstroEvent } from './supabase';
+import { HealpixSkymap, SKYMAP_CREDIBLE_LEVEL, SkymapMetadata } from './healpix';
+import { SkymapLoader } from './skymap-loader';
+
+// Skymaps are only read from this local directory; requests name a file in it
+export const SKYMAP_DIR = process.env.SKYMAP_DIR || path.join(process.cwd(), 'fixtures', 'skymaps');
+
+const MAX_FILTERED_IDS = 100;
+
+const SQUARE_DEGREES_PER_SR = (180 / Math.PI) ** 2;
+
+// Stored metadata is a JSON object; anything else is treated as empty
+function skymapMetadata(value: Json | null): SkymapMetadata {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+}
+
+export class SkymapStore {
+  // Load a skymap file from SKYMAP_DIR. Only bare file names are accepted so
+  // callers cannot reach outside the directory.
+  static async loadFile(fileName: string): Promise<HealpixSkymap> {
+    if (!fileName || path.basename(fileName) !== fileName) {
+      throw new Error('Skymap file must be a file name inside the skymap directory');
+    }
+    return SkymapLoader.fromFile(path.join(SKYMAP_DIR, fileName));
+  }
+
+  // Store (or replace) the skymap of an event
+  static async save(
+    client: SupabaseClient<Database>,
+    eventId: string,
+    skymap: HealpixSkymap,
+    sourceFile: string | null = null
+  ): Promise<{ error: Error | null }> {
+    const { error } = await client
+      .from('event_skymaps')
+      .upsert({
+        event_id: eventId,
+        uniq: skymap.uniq,
+        probdensity: skymap.probDensity,
+        area_90_deg2: skymap.credibleArea(SKYMAP_CREDIBLE_LEVEL) * SQUARE_DEGREES_PER_SR,
+        metadata: toJson(skymap.metadata),
+        source_file: sourceFile,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'event_id' });
+
+    return { error: error ? new Error(error.message) : null };
+  }
+
+  static async load(client: SupabaseClient<Database>, eventId: string): Promise<HealpixSkymap | null> {
+    const { data, error } = await client
+      .from('event_skymaps')
+      .select('uniq, probdensity, metadata')
+      .eq('event_id', eventId)
+      .maybeSingle();
+
+    if (error) throw new Error(error.message);
+    return data ? new HealpixSkymap(data.uniq.map(Number), data.probdensity, skymapMetadata(data.metadata)) : null;
+  }
+
+  // Copies of the events with their stored skymaps attached. Skymap lookups
+  // failing is not fatal: events fall back to their point localization.
+  static async attach(client: SupabaseClient<Database>, events: AstroEvent[]): Promise<AstroEvent[]> {
+    const { rows, error } = await fetchAllPages((from, to) => {
+      let query = client
+        .from('event_skymaps')
+        .select('event_id, uniq, probdensity, metadata')
+        .order('event_id', { ascending: true });
+
+      // Small batches (e.g. ingest) filter by id; whole-catalog runs read every
+      // skymap rather than sending thousands of ids in the URL
+      if (events.length <= MAX_FILTERED_IDS) {
+        query = query.in('event_id', events.map(e => e.id));
+      }
+      return query.range(from, to);
+    });
+
+    if (error) {
+      console.error('Failed to fetch skymaps:', error);
+      return events;
+    }
+
+    const skymaps = new Map<string, HealpixSkymap>();
+    for (const row of rows) {
+      try {
+        skymaps.set(row.event_id, new HealpixSkymap(row.uniq.map(Number), row.probdensity, skymapMetadata(row.metadata)));
+      } catch (err) {
+        console.error(`Skipping invalid skymap for event ${row.event_id}:`, err);
+      }
+    }
+
+    return events.map(event => skymaps.has(event.id) ? { ...event, skymap: skymaps.get(event.id) } : event);
+  }
+}
@@ -1,5 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from './database.types';
+import type { ScoreBreakdown } from './correlation-engine';
+import type { HealpixSkymap } from './healpix';
+import type { HostAssociationResult } from './host-association';
+import type { PriorityFactor } from './follow-up-priority';
 
 // Flag to check if Supabase is properly configured
 export const isSupabaseConfigured = 
@@ -50,7 +54,22 @@ export interface AstroEvent {
   dec: number;
   confidence_score?: number;
   magnitude?: number;
+  error_radius_deg?: number | null;
+  // Computed from PRIORITY_RULES unless follow_up_rule is 'manual'
+  follow_up_priority?: number;
+  follow_up_rule?: string | null;
+  follow_up_factors?: PriorityFactor[] | null;
+  follow_up_updated_at?: string | null;
+  // Set when this row reports the same physical object as another one
+  object_id?: string | null;
+  duplicate_of?: string | null;
+  // Galactic latitude, generated by the database from ra and dec
+  gal_b?: number | null;
+  // 'retracted' once the issuer has withdrawn the alert
+  status?: EventStatus;
   metadata?: any;
+  // Probability skymap, attached in memory from event_skymaps
+  skymap?: HealpixSkymap | null;
   created_at: string;
   updated_at?: string;
 }
@@ -61,9 +80,19 @@ export interface EventCorrelation {
   event1_id: string;
   event2_id: string;
   correlation_type: string;
+  cluster_type?: string | null;
   confidence_score: number;
   time_diff_seconds: number;
   angular_separation_deg: number;
+  match_radius_deg?: number | null;
+  algorithm?: string;
+  algorithm_version?: string;
+  parameters?: any;
+  false_alarm_probability?: number | null;
+  significance_sigma?: number | null;
+  score_breakdown?: ScoreBreakdown | null;
+  skymap_credible_level?: number | null;
+  host_association?: HostAssociationResult | null;
   created_at: string;
 }
 
@@ -80,6 +109,12 @@ export type DataSourceInsert = Database['public']['Tables']['data_sources']['Ins
 
 export type UserPreferences = Database['public']['Tables']['user_preferences']['Row'];
 export type CorrelationJob = Database['public']['Tables']['correlation_jobs']['Row'];
+export type CorrelationJobStatus = CorrelationJob['status'];
+// A correlation job without its (possibly large) results
+export type CorrelationJobSummary = Omit<CorrelationJob, 'results'>;
+
+// Job states that will not change any more
+export const FINISHED_JOB_STATUSES: CorrelationJobStatus[] = ['completed', 'failed', 'cancelled'];
 
 // Event types enum
 export const EVENT_TYPES = [
@@ -92,6 +127,10 @@ export const EVENT_TYPES = [
 
 export type EventType = typeof EVENT_TYPES[number];
 
+export const EVENT_STATUSES = ['active', 'archived', 'invalid', 'retracted'] as const;
+
+export type EventStatus = typeof EVENT_STATUSES[number];
+
 // Filter configuration type
 export interface FilterConfig {
   eventTypes: EventType[];
@@ -100,10 +139,15 @@ export interface FilterConfig {
     start: string;
     end: string;
   };
+  // RA/Dec box; an RA min above the max wraps through RA 0
   coordinates: {
     ra: { min: number; max: number };
     dec: { min: number; max: number };
   };
+  // Cone search around a center, in degrees
+  cone?: { ra: number; dec: number; radiusDeg: number };
+  // Excludes events closer to the Galactic plane than this (|b|, degrees)
+  minAbsGalacticLatitude?: number;
   confidenceThreshold: number;
   maxAngularSeparation?: number;
   maxTimeWindow?: number;
@@ -0,0 +1,142 @@
+import { AstroEvent } from './supabase';
+import { CorrelationEngine, CorrelationParams, EventPair } from './correlation-engine';
+import { createSeededRandom } from './random';
+
+export interface TimeSlideOptions {
+  // Event type whose times are shifted in every slide
+  stream: string;
+  offsetCount: number;
+  seed: number;
+  // Smallest allowed shift; defaults to 10x the widest correlation window so
+  // no slid pair can be physically related
+  minOffsetSeconds?: number;
+}
+
+export interface TimeSlideBackground {
+  stream: string;
+  offsetCount: number;
+  seed: number;
+  offsetsSeconds: number[];
+  // Scores of every cross-stream pair found across all slides
+  nullScores: number[];
+  // Highest cross-stream score in each slide (null when a slide found none)
+  maxScorePerSlide: (number | null)[];
+}
+
+export type TimeSlideEstimate =
+  | { ok: true; background: TimeSlideBackground }
+  | { ok: false; error: string };
+
+function formatDays(seconds: number): string {
+  return (seconds / 86400).toFixed(1);
+}
+
+export class TimeSlideEstimator {
+  // Build the null distribution of correlation scores by shifting one
+  // messenger stream in time and re-running the correlation engine. Shifts
+  // wrap around the catalog's time span so the stream keeps its rate. Fails
+  // when the span is too short for the requested number of distinct slides.
+  static estimateBackground(
+    events: AstroEvent[],
+    params: CorrelationParams,
+    options: TimeSlideOptions
+  ): TimeSlideEstimate {
+    const maxWindowSeconds = CorrelationEngine.getMaxTimeWindowSeconds(params);
+    const minOffsetSeconds = options.minOffsetSeconds ?? 10 * maxWindowSeconds;
+
+    const times = events.map(e => new Date(e.time_utc).getTime());
+    const validTimes = times.filter(t => Number.isFinite(t));
+    const startMs = validTimes.reduce((min, t) => Math.min(min, t), validTimes[0] ?? 0);
+    const endMs = validTimes.reduce((max, t) => Math.max(max, t), startMs);
+    const dataSpanSeconds = (endMs - startMs) / 1000;
+
+    // Pad by the widest window so events wrapped past the end cannot pair
+    // with events at the start
+    const spanSeconds = dataSpanSeconds + maxWindowSeconds;
+
+    const offsets = this.drawOffsets(spanSeconds, minOffsetSeconds, maxWindowSeconds, options);
+    if (!offsets.ok) return offsets;
+    const offsetsSeconds = offsets.offsetsSeconds;
+
+    const nullScores: number[] = [];
+    const maxScorePerSlide: (number | null)[] = [];
+
+    for (const offsetSeconds of offsetsSeconds) {
+      const slid = events.map((event, i) => {
+        if (event.event_type !== options.stream || !Number.isFinite(times[i])) return event;
+        const shiftedSeconds = ((times[i] - startMs) / 1000 + offsetSeconds) % spanSeconds;
+        return { ...event, time_utc: new Date(startMs + shiftedSeconds * 1000).toISOString() };
+      });
+
+      let maxScore: number | null = null;
+      for (const pair of CorrelationEngine.correlateEvents(slid, params)) {
+        // Pairs not involving exactly one slid event are unchanged by the slide
+        if (!this.isCrossStreamPair(pair, options.stream)) continue;
+        nullScores.push(pair.confidenceScore);
+        maxScore = maxScore === null ? pair.confidenceScore : Math.max(maxScore, pair.confidenceScore);
+      }
+      maxScorePerSlide.push(maxScore);
+    }
+
+    return {
+      ok: true,
+      background: {
+        stream: options.stream,
+        offsetCount: options.offsetCount,
+        seed: options.seed,
+        offsetsSeconds,
+        nullScores,
+        maxScorePerSlide
+      }
+    };
+  }
+
+  // Distinct offsets between minOffset and span - minOffset, so no event
+  // lands within minOffset of where it started on either side of the wrap.
+  // Offsets sit on a grid one correlation window apart: two slides closer
+  // than that would pair the same events and repeat one realization.
+  static drawOffsets(
+    spanSeconds: number,
+    minOffsetSeconds: number,
+    maxWindowSeconds: number,
+    options: Pick<TimeSlideOptions, 'offsetCount' | 'seed'>
+  ): { ok: true; offsetsSeconds: number[] } | { ok: false; error: string } {
+    const stepSeconds = Math.max(maxWindowSeconds, 1);
+    const rangeSeconds = spanSeconds - 2 * minOffsetSeconds;
+    const slots = rangeSeconds >= 0 ? Math.floor(rangeSeconds / stepSeconds) + 1 : 0;
+    if (slots < options.offsetCount) {
+      return {
+        ok: false,
+        error: `The events span ${formatDays(spanSeconds)} days, which holds ${slots} distinct time slides ` +
+          `at least ${formatDays(minOffsetSeconds)} days from zero lag; ${options.offsetCount} were requested`
+      };
+    }
+
+    // Draw slots without replacement
+    const random = createSeededRandom(options.seed);
+    const chosen = new Set<number>();
+    if (options.offsetCount * 2 <= slots) {
+      while (chosen.size < options.offsetCount) chosen.add(Math.floor(random() * slots));
+    } else {
+      const all = Array.from({ length: slots }, (_, i) => i);
+      for (let i = 0; i < options.offsetCount; i++) {
+        const j = i + Math.floor(random() * (slots - i));
+        [all[i], all[j]] = [all[j], all[i]];
+        chosen.add(all[i]);
+      }
+    }
+    return { ok: true, offsetsSeconds: Array.from(chosen).map(slot => minOffsetSeconds + slot * stepSeconds) };
+  }
+
+  static isCrossStreamPair(pair: EventPair, stream: string): boolean {
+    return (pair.event1.event_type === stream) !== (pair.event2.event_type === stream);
+  }
+
+  // Probability that a whole run without real signal produces a coincidence
+  // at least this strong: the fraction of slides whose best background pair
+  // reaches the score, with the usual +1 so p is never zero
+  static pValue(score: number, background: TimeSlideBackground): number {
+    const louder = background.maxScorePerSlide.filter(max => max !== null && max >= score).length;
+    return (louder + 1) / (background.offsetCount + 1);
+  }
+}
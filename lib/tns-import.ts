@@ -0,0 +1,373 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from './database.types';
+import { CorrelationParams } from './correlation-engine';
+import { SkyCoordinates } from './coordinates';
+import { EventIngest, EventIngestResult } from './event-ingest';
+import { AstroEvent } from './supabase';
+
+// Bulk import of optical transients from Transient Name Server (TNS) search
+// exports. CSV files use the TNS column headers ("Name", "RA", "DEC",
+// "Obj. Type", "Redshift", "Discovery Date (UT)", "Discovery Mag/Flux",
+// "Discovery Filter", ...); JSON is an array of rows with the same headers
+// or the TNS API field names (objname, name_prefix, radeg, decdeg,
+// discoverydate, discoverymag, discmagfilter, object_type, redshift).
+//
+// Every object is stored under its AT designation (AT2017gfo), which keeps
+// its event_id when TNS reclassifies it (SN 2017gfo); the current name goes
+// in metadata.tns_name.
+
+export const TNS_IMPORT_FORMATS = ['csv', 'json'] as const;
+
+export type TnsImportFormat = typeof TNS_IMPORT_FORMATS[number];
+
+export const MAX_TNS_IMPORT_ROWS = 5000;
+
+export type TnsRowStatus = 'created' | 'updated' | 'rejected';
+
+export interface TnsRowResult {
+  // 1-based data row (CSV line after the header, or JSON array index + 1)
+  row: number;
+  name: string | null;
+  event_id: string | null;
+  status: TnsRowStatus;
+  // Why the row was rejected
+  reason?: string;
+}
+
+export interface TnsImportResult {
+  rows: TnsRowResult[];
+  summary: Record<TnsRowStatus, number>;
+  // The insert path's result for the created events
+  ingest: EventIngestResult | null;
+  // Correlations found again for the updated events
+  correlation: EventIngestResult['correlation'];
+}
+
+type TnsEvent = {
+  event_id: string;
+  source: string;
+  event_type: string;
+  ra: number;
+  dec: number;
+  time_utc: string;
+  magnitude?: number;
+  metadata: Record<string, unknown>;
+};
+
+type Normalized = { ok: true; name: string; event: TnsEvent } | { ok: false; name: string | null; reason: string };
+
+// Accepted column names, compared lowercased with everything but letters
+// and digits removed ("Discovery Date (UT)" -> "discoverydateut")
+const COLUMNS = {
+  id: ['id', 'objid'],
+  name: ['name', 'objname'],
+  prefix: ['nameprefix'],
+  ra: ['ra', 'radeg'],
+  dec: ['dec', 'decdeg'],
+  type: ['objtype', 'objecttype', 'type'],
+  redshift: ['redshift'],
+  host: ['hostname'],
+  hostRedshift: ['hostredshift'],
+  group: ['reportinggroups', 'reportinggroup'],
+  dataSource: ['discoverydatasources', 'discoverydatasource'],
+  internalNames: ['discinternalname', 'internalnames', 'internalname'],
+  discoveryDate: ['discoverydateut', 'discoverydate'],
+  discoveryMag: ['discoverymagflux', 'discoverymag'],
+  discoveryFilter: ['discoveryfilter', 'discmagfilter', 'filter']
+};
+
+// TNS designations: a year and one to four letters, e.g. 2017gfo
+const TNS_NAME = /^([A-Za-z]+)?\s*(\d{4}[A-Za-z]{1,4})$/;
+
+// At most this many event_ids per .in() filter
+const LOOKUP_BATCH = 100;
+
+function columnKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Cell text; TNS API values such as { "name": "r-ZTF" } give their name
+function cell(row: Record<string, unknown>, names: string[]): string {
+  for (const name of names) {
+    const value = row[name];
+    if (value === undefined || value === null) continue;
+    if (typeof value === 'object' && !Array.isArray(value)) {
+      const named = (value as Record<string, unknown>).name ?? (value as Record<string, unknown>).group_name;
+      if (named !== undefined && named !== null) return String(named).trim();
+      continue;
+    }
+    return String(value).trim();
+  }
+  return '';
+}
+
+// Rows of a CSV document; quoted fields may contain commas, doubled quotes
+// and line breaks
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field.trim());
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error('CSV ends inside a quoted field');
+  if (field || record.length > 0) {
+    record.push(field.trim());
+    records.push(record);
+  }
+  return records.filter(r => r.some(value => value !== ''));
+}
+
+// TNS writes "2017-08-18 00:15:23.000" in UT without a zone
+function parseDiscoveryDate(value: string): string | null {
+  if (!value) return null;
+  const text = value.replace(' ', 'T');
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/i.test(text) || !text.includes('T') ? text : `${text}Z`;
+  const ms = Date.parse(/^\d{4}-\d{2}-\d{2}$/.test(zoned) ? `${zoned}T00:00:00Z` : zoned);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+function optionalNumber(value: string): number | null | undefined {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+export class TnsImport {
+  // Rows keyed by normalized column name
+  static readRows(text: string, format: TnsImportFormat): Array<Record<string, unknown>> {
+    if (format === 'json') {
+      let data: unknown;
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        throw new Error(`Invalid JSON: ${(error as Error).message}`);
+      }
+      // Also accept a TNS API reply: { data: { reply: [...] } } or { data: [...] }
+      const body = data as { data?: unknown } | null;
+      const reply = (body?.data as { reply?: unknown } | undefined)?.reply ?? body?.data;
+      const rows = Array.isArray(data) ? data : Array.isArray(reply) ? reply : null;
+      if (!rows) throw new Error('JSON import must be an array of rows');
+      return rows.map(row => {
+        const keyed: Record<string, unknown> = {};
+        if (row && typeof row === 'object') {
+          Object.entries(row as Record<string, unknown>).forEach(([key, value]) => { keyed[columnKey(key)] = value; });
+        }
+        return keyed;
+      });
+    }
+
+    const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+    if (!header) return [];
+    const keys = header.map(columnKey);
+    return records.map(record => {
+      const keyed: Record<string, unknown> = {};
+      keys.forEach((key, i) => { keyed[key] = record[i] ?? ''; });
+      return keyed;
+    });
+  }
+
+  // Validate one row and map it to an optical transient
+  static normalize(row: Record<string, unknown>): Normalized {
+    const rawName = cell(row, COLUMNS.name);
+    if (!rawName) return { ok: false, name: null, reason: 'Missing name' };
+    const match = rawName.match(TNS_NAME);
+    if (!match) return { ok: false, name: rawName, reason: `"${rawName}" is not a TNS designation such as AT 2017gfo` };
+    const designation = match[2];
+    const prefix = (cell(row, COLUMNS.prefix) || match[1] || 'AT').toUpperCase();
+    const name = `${prefix} ${designation}`;
+    const reject = (reason: string): Normalized => ({ ok: false, name, reason });
+
+    const raText = cell(row, COLUMNS.ra);
+    const decText = cell(row, COLUMNS.dec);
+    if (!raText || !decText) return reject('Missing RA or Dec');
+    const ra = SkyCoordinates.parseRa(raText);
+    if (!Number.isFinite(ra)) return reject(`Invalid RA "${raText}"`);
+    const dec = SkyCoordinates.parseDec(decText);
+    if (!Number.isFinite(dec)) return reject(`Invalid Dec "${decText}"`);
+
+    const dateText = cell(row, COLUMNS.discoveryDate);
+    if (!dateText) return reject('Missing discovery date');
+    const discovered = parseDiscoveryDate(dateText);
+    if (!discovered) return reject(`Invalid discovery date "${dateText}"`);
+
+    const magText = cell(row, COLUMNS.discoveryMag);
+    const magnitude = optionalNumber(magText);
+    if (magnitude === null) return reject(`Invalid discovery magnitude "${magText}"`);
+
+    const redshiftText = cell(row, COLUMNS.redshift);
+    const redshift = optionalNumber(redshiftText);
+    if (redshift === null || (redshift !== undefined && redshift < 0)) {
+      return reject(`Invalid redshift "${redshiftText}"`);
+    }
+    const hostRedshiftText = cell(row, COLUMNS.hostRedshift);
+    const hostRedshift = optionalNumber(hostRedshiftText);
+    if (hostRedshift === null || (hostRedshift !== undefined && hostRedshift < 0)) {
+      return reject(`Invalid host redshift "${hostRedshiftText}"`);
+    }
+
+    const metadata: Record<string, unknown> = { tns_name: name };
+    const tnsId = cell(row, COLUMNS.id);
+    if (tnsId) metadata.tns_id = tnsId;
+    const type = cell(row, COLUMNS.type);
+    if (type) {
+      metadata.tns_type = type;
+      metadata.classification = type.toLowerCase();
+    }
+    if (redshift !== undefined) metadata.redshift = redshift;
+    const host = cell(row, COLUMNS.host);
+    if (host) metadata.host_galaxy = host;
+    if (hostRedshift !== undefined) metadata.host_redshift = hostRedshift;
+    const filter = cell(row, COLUMNS.discoveryFilter);
+    if (magnitude !== undefined) {
+      metadata.discovery_mag = magnitude;
+      metadata.magnitude = magnitude;
+    }
+    if (filter) {
+      metadata.discovery_filter = filter;
+      metadata.filter = filter;
+    }
+    const internalNames = cell(row, COLUMNS.internalNames).split(',').map(n => n.trim()).filter(Boolean);
+    if (internalNames.length > 0) metadata.internal_names = internalNames;
+    const group = cell(row, COLUMNS.group);
+    if (group) metadata.reporting_group = group;
+    const dataSource = cell(row, COLUMNS.dataSource);
+    if (dataSource) metadata.discovery_data_source = dataSource;
+
+    return {
+      ok: true,
+      name,
+      event: {
+        event_id: `AT${designation}`,
+        source: 'TNS',
+        event_type: 'optical_transient',
+        ra,
+        dec,
+        time_utc: discovered,
+        ...(magnitude !== undefined ? { magnitude } : {}),
+        metadata
+      }
+    };
+  }
+
+  // Validate every row, update and re-correlate the objects already stored
+  // and insert the rest through the POST /api/events path. A row that cannot be applied is
+  // rejected with its reason; the others still go through.
+  static async import(
+    client: SupabaseClient<Database>,
+    rows: Array<Record<string, unknown>>,
+    correlationParams: CorrelationParams | null
+  ): Promise<{ result: TnsImportResult | null; error: Error | null }> {
+    const results: TnsRowResult[] = [];
+    const accepted = new Map<string, { index: number; event: TnsEvent }>();
+
+    rows.forEach((row, i) => {
+      const normalized = this.normalize(row);
+      if (!normalized.ok) {
+        results.push({ row: i + 1, name: normalized.name, event_id: null, status: 'rejected', reason: normalized.reason });
+        return;
+      }
+      const { event } = normalized;
+      const earlier = accepted.get(event.event_id);
+      if (earlier) {
+        results.push({
+          row: i + 1,
+          name: normalized.name,
+          event_id: event.event_id,
+          status: 'rejected',
+          reason: `Duplicate of row ${results[earlier.index].row}`
+        });
+        return;
+      }
+      accepted.set(event.event_id, { index: results.length, event });
+      results.push({ row: i + 1, name: normalized.name, event_id: event.event_id, status: 'created' });
+    });
+
+    const eventIds = Array.from(accepted.keys());
+    const existing = new Map<string, AstroEvent>();
+    for (let i = 0; i < eventIds.length; i += LOOKUP_BATCH) {
+      const { data, error } = await client
+        .from('astro_events')
+        .select('*')
+        .in('event_id', eventIds.slice(i, i + LOOKUP_BATCH));
+      if (error) return { result: null, error: new Error(error.message) };
+      ((data || []) as AstroEvent[]).forEach(event => existing.set(event.event_id, event));
+    }
+
+    // Known objects: newer TNS values replace the stored ones
+    const updatedEvents: AstroEvent[] = [];
+    for (const [eventId, { index, event }] of Array.from(accepted)) {
+      const stored = existing.get(eventId);
+      if (!stored) continue;
+      const { data, error } = await client
+        .from('astro_events')
+        .update({
+          ra: event.ra,
+          dec: event.dec,
+          time_utc: event.time_utc,
+          ...(event.magnitude !== undefined ? { magnitude: event.magnitude } : {}),
+          metadata: { ...stored.metadata, ...event.metadata }
+        })
+        .eq('id', stored.id)
+        .select()
+        .single();
+      results[index] = error
+        ? { ...results[index], status: 'rejected', reason: `Update failed: ${error.message}` }
+        : { ...results[index], status: 'updated' };
+      if (!error && data) updatedEvents.push(data as AstroEvent);
+    }
+
+    // Their stored pairs were found at the old position and time
+    let correlation: EventIngestResult['correlation'] = null;
+    if (updatedEvents.length > 0) {
+      const recorrelated = await EventIngest.recorrelate(client, updatedEvents, correlationParams);
+      if (recorrelated.error) console.error('Failed to correlate updated events again:', recorrelated.error);
+      correlation = recorrelated.correlation;
+    }
+
+    const toCreate = Array.from(accepted.values()).filter(({ event }) => !existing.has(event.event_id));
+    let ingest: EventIngestResult | null = null;
+    if (toCreate.length > 0) {
+      const events = toCreate.map(({ event }) => event);
+      const validation = EventIngest.validate(events);
+      const outcome = validation.ok
+        ? await EventIngest.ingest(client, events, validation.times, correlationParams)
+        : { result: null, error: new Error(validation.error) };
+      ingest = outcome.result;
+      if (outcome.error) {
+        toCreate.forEach(({ index }) => {
+          results[index] = { ...results[index], status: 'rejected', reason: `Insert failed: ${outcome.error!.message}` };
+        });
+      }
+    }
+
+    const summary: Record<TnsRowStatus, number> = { created: 0, updated: 0, rejected: 0 };
+    results.forEach(row => { summary[row.status]++; });
+    return { result: { rows: results, summary, ingest, correlation }, error: null };
+  }
+}
@@ -0,0 +1,174 @@
+import { XmlElement, XmlParser } from './xml';
+
+// Reads IVOA VOEvent 2.0 notices as distributed by GCN: the identifying
+// IVORN and role, the WhereWhen time and position, the What parameters and
+// the Citations to earlier notices.
+
+export const VOEVENT_ROLES = ['observation', 'prediction', 'utility', 'test'] as const;
+
+export type VOEventRole = typeof VOEVENT_ROLES[number];
+
+export interface VOEventParam {
+  name: string;
+  value: string;
+  unit: string | null;
+  ucd: string | null;
+  // Name of the enclosing What Group, if any
+  group: string | null;
+}
+
+export interface VOEventCitation {
+  ivorn: string;
+  // 'followup', 'supersedes' or 'retraction'
+  cite: string;
+}
+
+export interface VOEventPosition {
+  ra: number;
+  dec: number;
+  // Error2Radius in degrees, null when not given
+  errorRadiusDeg: number | null;
+  coordSystem: string | null;
+}
+
+export interface VOEventNotice {
+  ivorn: string;
+  role: VOEventRole;
+  version: string | null;
+  authorIvorn: string | null;
+  // When the notice was issued (Who/Date)
+  issued: string | null;
+  // Event time from WhereWhen, ISO 8601 UTC
+  time: string | null;
+  position: VOEventPosition | null;
+  params: VOEventParam[];
+  citations: VOEventCitation[];
+  description: string | null;
+  // Why/@importance, 0-1
+  importance: number | null;
+}
+
+// Wrap into [0, 360) without disturbing values already in range
+function wrapRa(ra: number): number {
+  return ra >= 0 && ra < 360 ? ra : ((ra % 360) + 360) % 360;
+}
+
+function finiteOrNull(value: string | undefined | null): number | null {
+  if (value === undefined || value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+// VOEvent times are UTC but usually written without a zone designator
+function toUtcIso(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/.test(text) ? text : `${text}Z`;
+  const ms = Date.parse(zoned);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+function collectParams(element: XmlElement, group: string | null, params: VOEventParam[]) {
+  for (const child of element.children) {
+    if (child.name === 'Param' && child.attributes.name) {
+      params.push({
+        name: child.attributes.name,
+        // Values are normally attributes, occasionally a Value child
+        value: child.attributes.value ?? XmlParser.child(child, 'Value')?.text ?? '',
+        unit: child.attributes.unit ?? null,
+        ucd: child.attributes.ucd ?? null,
+        group
+      });
+    } else if (child.name === 'Group') {
+      collectParams(child, child.attributes.name ?? child.attributes.type ?? group, params);
+    }
+  }
+}
+
+export class VOEventParser {
+  static parse(xml: string): VOEventNotice {
+    const root = XmlParser.parse(xml);
+    if (root.name !== 'VOEvent') {
+      throw new Error(`Expected a VOEvent document, found <${root.name}>`);
+    }
+
+    const ivorn = root.attributes.ivorn?.trim();
+    if (!ivorn) throw new Error('VOEvent has no ivorn');
+
+    const role = (root.attributes.role || 'observation').trim() as VOEventRole;
+    if (!VOEVENT_ROLES.includes(role)) {
+      throw new Error(`Unknown VOEvent role "${role}"; expected ${VOEVENT_ROLES.join(', ')}`);
+    }
+
+    const who = XmlParser.child(root, 'Who');
+    const issued = XmlParser.child(who, 'Date')?.text;
+    const params: VOEventParam[] = [];
+    const what = XmlParser.child(root, 'What');
+    if (what) collectParams(what, null, params);
+
+    const citations = XmlParser.childrenNamed(XmlParser.child(root, 'Citations'), 'EventIVORN')
+      .filter(citation => citation.text)
+      .map(citation => ({ ivorn: citation.text, cite: citation.attributes.cite || 'followup' }));
+
+    const importance = finiteOrNull(XmlParser.child(root, 'Why')?.attributes.importance);
+
+    return {
+      ivorn,
+      role,
+      version: root.attributes.version ?? null,
+      authorIvorn: XmlParser.child(who, 'AuthorIVORN')?.text || null,
+      issued: issued ? toUtcIso(issued) : null,
+      ...this.parseWhereWhen(root),
+      params,
+      citations,
+      description: XmlParser.child(root, 'Description')?.text
+        || XmlParser.child(XmlParser.child(root, 'Citations'), 'Description')?.text
+        || null,
+      importance
+    };
+  }
+
+  // Value of the first parameter with this name, optionally within a group
+  static param(notice: VOEventNotice, name: string, group?: string): string | null {
+    const param = notice.params.find(p => p.name === name && (group === undefined || p.group === group));
+    return param ? param.value : null;
+  }
+
+  static numericParam(notice: VOEventNotice, name: string, group?: string): number | null {
+    return finiteOrNull(this.param(notice, name, group));
+  }
+
+  // Whether the notice withdraws earlier ones
+  static isRetraction(notice: VOEventNotice): boolean {
+    return notice.citations.some(citation => citation.cite === 'retraction')
+      || this.param(notice, 'AlertType')?.toLowerCase() === 'retraction';
+  }
+
+  // Time and position from WhereWhen/ObsDataLocation/ObservationLocation/AstroCoords
+  private static parseWhereWhen(root: XmlElement): { time: string | null; position: VOEventPosition | null } {
+    const coords = XmlParser.path(root, ['WhereWhen', 'ObsDataLocation', 'ObservationLocation', 'AstroCoords']);
+    if (!coords) return { time: null, position: null };
+
+    const isoTime = XmlParser.path(coords, ['Time', 'TimeInstant', 'ISOTime'])?.text;
+    const time = isoTime ? toUtcIso(isoTime) : null;
+
+    const position2d = XmlParser.child(coords, 'Position2D');
+    const value2 = XmlParser.child(position2d, 'Value2');
+    const ra = finiteOrNull(XmlParser.child(value2, 'C1')?.text);
+    const dec = finiteOrNull(XmlParser.child(value2, 'C2')?.text);
+    if (ra === null || dec === null) return { time, position: null };
+
+    // Positions are in degrees unless the unit says radians
+    const scale = position2d?.attributes.unit === 'rad' ? 180 / Math.PI : 1;
+    const errorRadius = finiteOrNull(XmlParser.child(position2d, 'Error2Radius')?.text);
+    return {
+      time,
+      position: {
+        ra: wrapRa(ra * scale),
+        dec: dec * scale,
+        errorRadiusDeg: errorRadius === null ? null : errorRadius * scale,
+        coordSystem: coords.attributes.coord_system_id ?? null
+      }
+    };
+  }
+}
@@ -0,0 +1,180 @@
+// A small non-validating XML reader for alert formats such as VOEvent:
+// elements, attributes, character data, CDATA and the predefined and
+// numeric entities. Comments, processing instructions and DOCTYPE
+// declarations are skipped. Namespace prefixes are dropped from element
+// and attribute names.
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  // Character data directly inside the element, trimmed
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'"
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon >= 0 ? name.slice(colon + 1) : name;
+}
+
+const NAME = /[^\s/>=]+/y;
+const ATTRIBUTE = /\s*([^\s/>=]+)\s*=\s*("([^"]*)"|'([^']*)')/y;
+
+export class XmlParser {
+  // Parse a document and return its root element
+  static parse(xml: string): XmlElement {
+    const stack: Array<XmlElement & { rawName: string; textParts: string[] }> = [];
+    let root: XmlElement | null = null;
+    let position = 0;
+
+    const appendText = (text: string) => {
+      if (stack.length > 0) stack[stack.length - 1].textParts.push(text);
+      else if (text.trim()) throw new Error('Text outside the root element');
+    };
+
+    while (position < xml.length) {
+      const open = xml.indexOf('<', position);
+      if (open < 0) {
+        appendText(decodeEntities(xml.slice(position)));
+        break;
+      }
+      if (open > position) appendText(decodeEntities(xml.slice(position, open)));
+
+      if (xml.startsWith('<!--', open)) {
+        position = this.skipPast(xml, open, '-->');
+      } else if (xml.startsWith('<![CDATA[', open)) {
+        const end = xml.indexOf(']]>', open);
+        if (end < 0) throw new Error('Unterminated CDATA section');
+        appendText(xml.slice(open + 9, end));
+        position = end + 3;
+      } else if (xml.startsWith('<?', open)) {
+        position = this.skipPast(xml, open, '?>');
+      } else if (xml.startsWith('<!', open)) {
+        position = this.skipDeclaration(xml, open);
+      } else if (xml[open + 1] === '/') {
+        const close = xml.indexOf('>', open);
+        if (close < 0) throw new Error('Unterminated closing tag');
+        const rawName = xml.slice(open + 2, close).trim();
+        const element = stack.pop();
+        if (!element || element.rawName !== rawName) {
+          throw new Error(`Unexpected closing tag </${rawName}>`);
+        }
+        const finished = this.finish(element);
+        if (stack.length > 0) stack[stack.length - 1].children.push(finished);
+        else root = finished;
+        position = close + 1;
+      } else {
+        NAME.lastIndex = open + 1;
+        const nameMatch = NAME.exec(xml);
+        if (!nameMatch) throw new Error(`Malformed tag at offset ${open}`);
+        const rawName = nameMatch[0];
+        const attributes: Record<string, string> = {};
+        let cursor = NAME.lastIndex;
+
+        for (;;) {
+          ATTRIBUTE.lastIndex = cursor;
+          const attribute = ATTRIBUTE.exec(xml);
+          if (!attribute) break;
+          const name = attribute[1];
+          if (!name.startsWith('xmlns')) {
+            attributes[localName(name)] = decodeEntities(attribute[3] ?? attribute[4]);
+          }
+          cursor = ATTRIBUTE.lastIndex;
+        }
+
+        while (cursor < xml.length && /\s/.test(xml[cursor])) cursor++;
+        const selfClosing = xml.startsWith('/>', cursor);
+        if (!selfClosing && xml[cursor] !== '>') throw new Error(`Malformed tag <${rawName}>`);
+        position = cursor + (selfClosing ? 2 : 1);
+
+        if (root) throw new Error('More than one root element');
+        const element = { name: localName(rawName), rawName, attributes, children: [], text: '', textParts: [] };
+        if (selfClosing) {
+          const finished = this.finish(element);
+          if (stack.length > 0) stack[stack.length - 1].children.push(finished);
+          else root = finished;
+        } else {
+          stack.push(element);
+        }
+      }
+    }
+
+    if (stack.length > 0) throw new Error(`Unclosed element <${stack[stack.length - 1].rawName}>`);
+    if (!root) throw new Error('Document has no root element');
+    return root;
+  }
+
+  // First child element with the given local name
+  static child(element: XmlElement | null | undefined, name: string): XmlElement | null {
+    return element?.children.find(child => child.name === name) ?? null;
+  }
+
+  static childrenNamed(element: XmlElement | null | undefined, name: string): XmlElement[] {
+    return element ? element.children.filter(child => child.name === name) : [];
+  }
+
+  // Follow a path of child names, e.g. ['WhereWhen', 'ObsDataLocation']
+  static path(element: XmlElement | null | undefined, names: string[]): XmlElement | null {
+    let current: XmlElement | null = element ?? null;
+    for (const name of names) {
+      current = this.child(current, name);
+      if (!current) return null;
+    }
+    return current;
+  }
+
+  // First element with the given local name anywhere below, depth first
+  static find(element: XmlElement | null | undefined, name: string): XmlElement | null {
+    if (!element) return null;
+    for (const child of element.children) {
+      if (child.name === name) return child;
+      const found = this.find(child, name);
+      if (found) return found;
+    }
+    return null;
+  }
+
+  private static finish(element: XmlElement & { rawName: string; textParts: string[] }): XmlElement {
+    return {
+      name: element.name,
+      attributes: element.attributes,
+      children: element.children,
+      text: element.textParts.join('').trim()
+    };
+  }
+
+  private static skipPast(xml: string, from: number, terminator: string): number {
+    const end = xml.indexOf(terminator, from);
+    if (end < 0) throw new Error(`Unterminated markup at offset ${from}`);
+    return end + terminator.length;
+  }
+
+  // <!DOCTYPE ...> may contain an internal subset in brackets
+  private static skipDeclaration(xml: string, from: number): number {
+    let depth = 0;
+    for (let i = from; i < xml.length; i++) {
+      if (xml[i] === '[') depth++;
+      else if (xml[i] === ']') depth--;
+      else if (xml[i] === '>' && depth <= 0) return i + 1;
+    }
+    throw new Error(`Unterminated declaration at offset ${from}`);
+  }
+}
@@ -0,0 +1,270 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { AstroTime } from './astro-time';
+import { AvroReader } from './avro';
+import type { RawAstroEvent } from './astro-apis';
+
+// Reads ZTF alert packets: Avro files, usually one alert each, following the
+// ztf.alert schema (https://zwickytransientfacility.github.io/ztf-avro-alert/).
+// An alert holds the triggering `candidate`, up to 30 days of earlier
+// detections and upper limits in `prv_candidates`, and science, template and
+// difference image cutouts (gzipped FITS).
+
+// Alert files are only read from this local directory
+export const ZTF_ALERT_DIR = process.env.ZTF_ALERT_DIR || path.join(process.cwd(), 'fixtures', 'ztf');
+
+// ZTF filter ids (fid)
+export const ZTF_FILTERS: Record<number, string> = { 1: 'g', 2: 'r', 3: 'i' };
+
+// A solar-system object this close to the candidate (arcsec) is a likely match
+const SOLAR_SYSTEM_MATCH_ARCSEC = 5;
+
+// Star-galaxy score (PS1, 1 = star) and distance (arcsec) above and within
+// which the nearest PS1 source makes the candidate look stellar
+const STELLAR_SCORE = 0.5;
+const STELLAR_MATCH_ARCSEC = 1.5;
+
+export interface ZtfCutout {
+  fileName: string;
+  // Gzipped FITS image
+  stampData: Buffer;
+}
+
+export interface ZtfAlert {
+  objectId: string;
+  // 64-bit id; a string when it exceeds Number.MAX_SAFE_INTEGER
+  candid: number | string;
+  schemaVersion: string | null;
+  candidate: Record<string, any>;
+  prvCandidates: Record<string, any>[];
+  cutouts: { science: ZtfCutout | null; template: ZtfCutout | null; difference: ZtfCutout | null };
+}
+
+export interface ZtfPhotometryPoint {
+  jd: number;
+  time_utc: string;
+  filter: string;
+  // null for an upper limit (non-detection)
+  mag: number | null;
+  mag_err: number | null;
+  // 5-sigma limiting magnitude of the difference image
+  limiting_mag: number | null;
+  detected: boolean;
+}
+
+export interface ZtfLoadOptions {
+  startTime?: string;
+  endTime?: string;
+  dir?: string;
+}
+
+function finite(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null;
+}
+
+// ZTF writes -999 for a missing catalog match
+function measured(value: unknown): number | null {
+  const number = finite(value);
+  return number === null || number === -999 ? null : number;
+}
+
+// A double JD resolves to ~40 microseconds; round off the residue
+function jdToIso(jd: number): string {
+  return new Date(Math.round(AstroTime.jdToUtc(jd))).toISOString();
+}
+
+function filterName(fid: unknown): string {
+  const id = finite(fid);
+  return id !== null && ZTF_FILTERS[id] ? ZTF_FILTERS[id] : `fid${fid}`;
+}
+
+function cutout(value: unknown): ZtfCutout | null {
+  const record = value as { fileName?: unknown; stampData?: unknown } | null;
+  if (!record || !Buffer.isBuffer(record.stampData)) return null;
+  return { fileName: typeof record.fileName === 'string' ? record.fileName : '', stampData: record.stampData };
+}
+
+function parseTimeBound(value: string | undefined, label: string): number | null {
+  if (!value) return null;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) throw new Error(`Invalid ${label}: ${value}`);
+  return ms;
+}
+
+export class ZtfAlerts {
+  // Check a decoded alert record and give it a typed shape
+  static parse(record: unknown): ZtfAlert {
+    const alert = record as Record<string, any> | null;
+    const candidate = alert?.candidate;
+    if (!alert || typeof alert.objectId !== 'string' || !candidate || typeof candidate !== 'object') {
+      throw new Error('ZTF alert needs objectId and candidate');
+    }
+    if (finite(candidate.ra) === null || finite(candidate.dec) === null || finite(candidate.jd) === null) {
+      throw new Error(`ZTF alert for ${alert.objectId} has no candidate position or time`);
+    }
+
+    return {
+      objectId: alert.objectId,
+      candid: alert.candid ?? candidate.candid,
+      schemaVersion: typeof alert.schemavsn === 'string' ? alert.schemavsn : null,
+      candidate,
+      prvCandidates: Array.isArray(alert.prv_candidates) ? alert.prv_candidates : [],
+      cutouts: {
+        science: cutout(alert.cutoutScience),
+        template: cutout(alert.cutoutTemplate),
+        difference: cutout(alert.cutoutDifference)
+      }
+    };
+  }
+
+  // Every alert in one Avro file
+  static async readFile(filePath: string): Promise<ZtfAlert[]> {
+    const { records } = AvroReader.readContainer(await fs.readFile(filePath));
+    return records.map(record => this.parse(record));
+  }
+
+  // Detections and upper limits from a set of alerts about one object, in
+  // time order. Each alert repeats the recent history, so points seen in
+  // several alerts are kept once.
+  static lightCurve(alerts: ZtfAlert[]): ZtfPhotometryPoint[] {
+    const points = new Map<string, ZtfPhotometryPoint>();
+    for (const alert of alerts) {
+      for (const entry of [...alert.prvCandidates, alert.candidate]) {
+        const jd = finite(entry.jd);
+        if (jd === null) continue;
+        const filter = filterName(entry.fid);
+        const mag = finite(entry.magpsf);
+        points.set(`${jd}:${filter}`, {
+          jd,
+          time_utc: jdToIso(jd),
+          filter,
+          mag,
+          mag_err: mag === null ? null : finite(entry.sigmapsf),
+          limiting_mag: finite(entry.diffmaglim),
+          detected: mag !== null
+        });
+      }
+    }
+    return Array.from(points.values()).sort((a, b) => a.jd - b.jd);
+  }
+
+  // Map the alerts about one object to the ingest shape. Position and scores
+  // come from the latest candidate; the event time is the first detection.
+  static toRawEvent(alerts: ZtfAlert[]): RawAstroEvent {
+    if (alerts.length === 0) throw new Error('No alerts to map');
+    const latest = alerts.reduce((best, alert) => alert.candidate.jd > best.candidate.jd ? alert : best);
+    const candidate = latest.candidate;
+    const lightCurve = this.lightCurve(alerts);
+    const detections = lightCurve.filter(point => point.detected);
+
+    // jdstarthist covers detections older than the alert history
+    const firstJd = finite(candidate.jdstarthist) ?? detections[0]?.jd ?? candidate.jd;
+    const first = detections[0] ?? null;
+
+    const magnitudes: Record<string, { mag: number; mag_err: number | null; time_utc: string; peak_mag: number }> = {};
+    for (const point of detections) {
+      const previous = magnitudes[point.filter];
+      magnitudes[point.filter] = {
+        mag: point.mag!,
+        mag_err: point.mag_err,
+        time_utc: point.time_utc,
+        peak_mag: previous ? Math.min(previous.peak_mag, point.mag!) : point.mag!
+      };
+    }
+
+    const metadata: Record<string, unknown> = {
+      candid: latest.candid,
+      alert_count: alerts.length,
+      schema_version: latest.schemaVersion,
+      magnitude: finite(candidate.magpsf),
+      magnitude_error: finite(candidate.sigmapsf),
+      filter: filterName(candidate.fid),
+      magnitudes,
+      real_bogus: finite(candidate.rb),
+      deep_real_bogus: finite(candidate.drb),
+      light_curve: lightCurve,
+      classification_hints: this.classificationHints(candidate),
+      cutouts: Object.fromEntries(
+        Object.entries(latest.cutouts)
+          .filter(([, image]) => image)
+          .map(([kind, image]) => [kind, { file_name: image!.fileName, bytes: image!.stampData.length }])
+      )
+    };
+    if (first) {
+      metadata.discovery_mag = first.mag;
+      metadata.discovery_filter = first.filter;
+    }
+
+    return {
+      event_id: latest.objectId,
+      source: 'ZTF',
+      event_type: 'optical_transient',
+      ra: candidate.ra,
+      dec: candidate.dec,
+      time_utc: jdToIso(firstJd),
+      metadata
+    };
+  }
+
+  // Alert fields that point to what the candidate is, with flags for the
+  // usual contaminants
+  static classificationHints(candidate: Record<string, any>): Record<string, unknown> {
+    const starGalaxyScore = measured(candidate.sgscore1);
+    const ps1Distance = measured(candidate.distpsnr1);
+    const solarSystemDistance = measured(candidate.ssdistnr);
+    const solarSystemMatch = solarSystemDistance !== null && solarSystemDistance >= 0
+      && solarSystemDistance <= SOLAR_SYSTEM_MATCH_ARCSEC;
+    const isdiffpos = String(candidate.isdiffpos ?? '').toLowerCase();
+
+    return {
+      star_galaxy_score: starGalaxyScore,
+      ps1_distance_arcsec: ps1Distance,
+      likely_stellar: starGalaxyScore !== null && ps1Distance !== null
+        && starGalaxyScore > STELLAR_SCORE && ps1Distance <= STELLAR_MATCH_ARCSEC,
+      solar_system_object: solarSystemMatch ? candidate.ssnamenr ?? null : null,
+      solar_system_distance_arcsec: solarSystemMatch ? solarSystemDistance : null,
+      // Fainter than the reference image, e.g. a fading variable
+      negative_difference: isdiffpos === 'f' || isdiffpos === '0',
+      reference_distance_arcsec: measured(candidate.distnr),
+      reference_mag: measured(candidate.magnr),
+      detection_count: finite(candidate.ndethist),
+      first_detection_jd: finite(candidate.jdstarthist)
+    };
+  }
+
+  // Optical transients from the .avro files in the alert directory, one
+  // event per object, with a first detection between startTime and endTime
+  // (inclusive ISO 8601 bounds, either optional). Unreadable files are
+  // skipped.
+  static async loadDirectory(options: ZtfLoadOptions = {}): Promise<RawAstroEvent[]> {
+    const start = parseTimeBound(options.startTime, 'start time');
+    const end = parseTimeBound(options.endTime, 'end time');
+    const dir = options.dir ?? ZTF_ALERT_DIR;
+
+    let files: string[];
+    try {
+      files = (await fs.readdir(dir)).filter(file => file.endsWith('.avro')).sort();
+    } catch {
+      return [];
+    }
+
+    const byObject = new Map<string, ZtfAlert[]>();
+    for (const file of files) {
+      try {
+        for (const alert of await this.readFile(path.join(dir, file))) {
+          byObject.set(alert.objectId, [...(byObject.get(alert.objectId) || []), alert]);
+        }
+      } catch (error) {
+        console.error(`Failed to read ZTF alert ${file}:`, error);
+      }
+    }
+
+    return Array.from(byObject.values())
+      .map(alerts => this.toRawEvent(alerts))
+      .filter(event => {
+        const ms = Date.parse(event.time_utc);
+        return (start === null || ms >= start) && (end === null || ms <= end);
+      })
+      .sort((a, b) => Date.parse(a.time_utc) - Date.parse(b.time_utc));
+  }
+}
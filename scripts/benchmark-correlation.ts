@@ -0,0 +1,188 @@
+// Benchmark fixture for the indexed correlation search.
+//
+// Generates a reproducible synthetic catalog (including coarse and
+// unlocalized events, which take the wide-radius path), checks that the
+// indexed search returns exactly the brute-force EventPair[] on a subset,
+// then times the indexed search at 10^5 events. The brute-force time at full size is
+// extrapolated from a smaller run (it scales as n^2) unless --full is passed.
+//
+// With --database, instead checks that the in-process and database engines
+// return the same correlations for the catalog of the Supabase project in
+// NEXT_PUBLIC_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY. Nothing is written.
+//
+// Usage: npm run benchmark -- [--events 100000] [--full] [--database]
+
+import { createClient } from '@supabase/supabase-js';
+import {
+  CorrelationEngine,
+  CorrelationParams,
+  EventPair,
+  UNLOCALIZED_ERROR_RADIUS_DEG
+} from '../lib/correlation-engine';
+import { AstroEvent, EVENT_TYPES } from '../lib/supabase';
+import type { Database } from '../lib/database.types';
+import { createSeededRandom } from '../lib/random';
+import { CorrelationStore } from '../lib/correlation-store';
+import { DatabaseCorrelator } from '../lib/database-correlation';
+import { SignificanceCalculator } from '../lib/significance';
+import { SkymapStore } from '../lib/skymap-store';
+import { fetchAllPages } from '../lib/paged-query';
+
+const SURVEY_START = Date.parse('2024-01-01T00:00:00Z');
+const SURVEY_SPAN_MS = 365 * 24 * 3600 * 1000;
+
+function generateEvents(count: number, seed: number): AstroEvent[] {
+  const random = createSeededRandom(seed);
+  const events: AstroEvent[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // Uniform on the sphere
+    const ra = random() * 360;
+    const dec = Math.asin(2 * random() - 1) * 180 / Math.PI;
+    const time = new Date(SURVEY_START + Math.floor(random() * SURVEY_SPAN_MS)).toISOString();
+    const eventType = EVENT_TYPES[Math.floor(random() * EVENT_TYPES.length)];
+
+    // Mostly points, with some localized, some coarse and a few unlocalized
+    // events so every branch of the candidate search is exercised
+    const kind = random();
+    const errorRadius = kind < 0.7 ? undefined
+      : kind < 0.95 ? random() * 2
+      : kind < 0.995 ? 2 + random() * 60
+      : UNLOCALIZED_ERROR_RADIUS_DEG;
+
+    events.push({
+      id: `bench-${i}`,
+      event_id: `BENCH${i}`,
+      event_type: eventType,
+      source: 'benchmark',
+      time_utc: time,
+      ra,
+      dec,
+      error_radius_deg: errorRadius,
+      created_at: time
+    });
+  }
+
+  return events;
+}
+
+// Events are compared by id so pairs built from separately loaded rows match
+function samePairs(a: EventPair[], b: EventPair[]): boolean {
+  if (a.length !== b.length) return false;
+  return a.every((pair, i) =>
+    pair.event1.id === b[i].event1.id &&
+    pair.event2.id === b[i].event2.id &&
+    pair.timeDiffSeconds === b[i].timeDiffSeconds &&
+    pair.angularSeparationDeg === b[i].angularSeparationDeg &&
+    pair.correlationType === b[i].correlationType &&
+    pair.confidenceScore === b[i].confidenceScore
+  );
+}
+
+function time<T>(fn: () => T): { result: T; ms: number } {
+  const start = process.hrtime.bigint();
+  const result = fn();
+  return { result, ms: Number(process.hrtime.bigint() - start) / 1e6 };
+}
+
+// Both engines over the stored catalog, with the same background rates a
+// correlation run would use
+async function checkDatabaseEngines(params: CorrelationParams) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    console.error('--database needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+  const client = createClient<Database>(url, serviceKey);
+
+  const { rows, error } = await fetchAllPages((from, to) => client
+    .from('astro_events')
+    .select('*')
+    .order('time_utc', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to));
+  if (error) {
+    console.error('Failed to fetch events:', error.message);
+    process.exit(1);
+  }
+
+  const events = await SkymapStore.attach(client, rows as AstroEvent[]);
+  const sourceRates = SignificanceCalculator.estimateSourceRates(events);
+  const runParams: CorrelationParams = { ...params, sourceRates };
+
+  const inProcess = time(() => CorrelationEngine.correlateEvents(CorrelationStore.sortForCorrelation(events), runParams));
+  const start = process.hrtime.bigint();
+  const database = await DatabaseCorrelator.correlate(client, runParams);
+  const databaseMs = Number(process.hrtime.bigint() - start) / 1e6;
+  if (database.error) {
+    console.error('Database correlation failed:', database.error.message);
+    process.exit(1);
+  }
+
+  if (!samePairs(inProcess.result, database.correlations)) {
+    console.error(
+      `Engines disagree on ${events.length} events: in-process=${inProcess.result.length} ` +
+      `database=${database.correlations.length} (${database.candidatePairs} candidates)`
+    );
+    process.exit(1);
+  }
+  console.log(`Verified identical output from both engines on ${events.length} stored events (${inProcess.result.length} pairs)`);
+  console.log(`In-process: ${inProcess.ms.toFixed(0)} ms, database: ${databaseMs.toFixed(0)} ms (${database.candidatePairs} candidates)`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const countArg = args.indexOf('--events');
+  const eventCount = countArg >= 0 ? Number(args[countArg + 1]) : 100000;
+  const runFullBruteForce = args.includes('--full');
+
+  // Dense enough in time and space that a 10^5 catalog yields real pairs
+  const params: CorrelationParams = {
+    timeWindowSeconds: 86400,
+    angularThresholdDeg: 5,
+    minConfidenceScore: 0.1
+  };
+
+  if (args.includes('--database')) {
+    await checkDatabaseEngines(params);
+    return;
+  }
+
+  const events = generateEvents(eventCount, 20170817);
+
+  const checkEvents = events.slice(0, Math.min(eventCount, 5000));
+  const checkIndexed = CorrelationEngine.correlateEvents(checkEvents, params);
+  const checkBrute = CorrelationEngine.correlateEventsBruteForce(checkEvents, params);
+  if (!samePairs(checkIndexed, checkBrute)) {
+    console.error(`Mismatch on ${checkEvents.length} events: indexed=${checkIndexed.length} brute=${checkBrute.length}`);
+    process.exit(1);
+  }
+  console.log(`Verified identical output on ${checkEvents.length} events (${checkBrute.length} pairs)`);
+
+  const indexed = time(() => CorrelationEngine.correlateEvents(events, params));
+  console.log(`Indexed search:     ${eventCount} events, ${indexed.result.length} pairs, ${indexed.ms.toFixed(0)} ms`);
+
+  let bruteMs: number;
+  if (runFullBruteForce) {
+    const brute = time(() => CorrelationEngine.correlateEventsBruteForce(events, params));
+    if (!samePairs(indexed.result, brute.result)) {
+      console.error('Mismatch between indexed and brute-force output at full size');
+      process.exit(1);
+    }
+    bruteMs = brute.ms;
+    console.log(`Brute-force search: ${eventCount} events, ${brute.result.length} pairs, ${bruteMs.toFixed(0)} ms`);
+  } else {
+    const sampleSize = Math.min(eventCount, 10000);
+    const sample = time(() => CorrelationEngine.correlateEventsBruteForce(events.slice(0, sampleSize), params));
+    bruteMs = sample.ms * (eventCount / sampleSize) ** 2;
+    console.log(`Brute-force search: ~${bruteMs.toFixed(0)} ms (extrapolated from ${sampleSize} events)`);
+  }
+
+  console.log(`Speedup: ${(bruteMs / indexed.ms).toFixed(1)}x`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
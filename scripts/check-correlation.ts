@@ -0,0 +1,179 @@
+// Behavior checks for the numerically delicate parts of the correlation code:
+// scorer formulas, the time and sky cuts, skymap credible levels, leap
+// seconds, significance conversion and time-slide offsets. Each check states
+// an expected value worked out by hand; the script runs them all and exits
+// non-zero if any fails.
+//
+// Usage: npm run check
+
+import assert from 'node:assert/strict';
+import { CorrelationEngine, CorrelationParams, UNLOCALIZED_ERROR_RADIUS_DEG } from '../lib/correlation-engine';
+import { ScorerRegistry, ScoringContext } from '../lib/scorers';
+import { Healpix, HealpixSkymap } from '../lib/healpix';
+import { AstroTime } from '../lib/astro-time';
+import { SignificanceCalculator } from '../lib/significance';
+import { TimeSlideEstimator } from '../lib/time-slides';
+import { createSeededRandom } from '../lib/random';
+import { AstroEvent, EVENT_TYPES } from '../lib/supabase';
+
+const toRad = Math.PI / 180;
+
+const PARAMS: CorrelationParams = {
+  timeWindowSeconds: 86400,
+  angularThresholdDeg: 5,
+  minConfidenceScore: 0
+};
+
+function event(id: string, overrides: Partial<AstroEvent> = {}): AstroEvent {
+  return {
+    id,
+    event_id: id,
+    event_type: 'gamma_ray_burst',
+    source: 'check',
+    time_utc: '2017-08-17T12:41:04.400Z',
+    ra: 197.45,
+    dec: -23.38,
+    created_at: '2017-08-17T12:41:04.400Z',
+    ...overrides
+  };
+}
+
+function context(overrides: Partial<ScoringContext>): ScoringContext {
+  return {
+    event1: event('a'),
+    event2: event('b'),
+    delaySeconds: 0,
+    timeWindow: { minSeconds: -1000, maxSeconds: 1000 },
+    angularSeparationDeg: 0,
+    matchRadiusDeg: 2,
+    errorRadiiDeg: [1, 1],
+    skymap: null,
+    significance: null,
+    params: { ...PARAMS, priorOdds: 1e-3 },
+    ...overrides
+  };
+}
+
+function assertClose(actual: number, expected: number, relTol = 1e-9, message?: string) {
+  const scale = Math.max(Math.abs(expected), 1e-300);
+  assert.ok(Math.abs(actual - expected) / scale <= relTol, message ?? `expected ${expected}, got ${actual}`);
+}
+
+const checks: Array<[string, () => void]> = [
+  ['bayesian_odds uses B = 2/S exp(-psi^2 / 2S) with 2-sigma error radii', () => {
+    // Radii of 1 deg are 2-sigma, so S = 0.5^2 + 0.5^2 deg^2
+    const variance = 0.5 * toRad * toRad;
+    const separation = 0.3;
+    const positional = (2 / variance) * Math.exp(-((separation * toRad) ** 2) / (2 * variance));
+    // At the window centre the timing factor is T / (sigmaT sqrt(2 pi)) with sigmaT = T / 4
+    const timing = 4 / Math.sqrt(2 * Math.PI);
+    const odds = 1e-3 * positional * timing;
+    const score = ScorerRegistry.get('bayesian_odds').score(context({ angularSeparationDeg: separation }));
+    assertClose(score, odds / (1 + odds));
+  }],
+
+  ['gaussian_likelihood uses the same positional variance', () => {
+    // One positional sigma per axis away (sqrt(S) = sqrt(0.5) deg) gives exp(-1/2)
+    const score = ScorerRegistry.get('gaussian_likelihood').score(context({ angularSeparationDeg: Math.sqrt(0.5) }));
+    assertClose(score, Math.exp(-0.5));
+  }],
+
+  ['an unparseable time never passes the time cut', () => {
+    assert.equal(CorrelationEngine.evaluatePair(event('a'), event('b', { time_utc: 'not a time' }), PARAMS), null);
+    assert.notEqual(CorrelationEngine.evaluatePair(event('a'), event('b'), PARAMS), null);
+  }],
+
+  ['the indexed search matches brute force with wide, polar and wrapping events', () => {
+    const random = createSeededRandom(170817);
+    const start = Date.parse('2024-01-01T00:00:00Z');
+    const events = Array.from({ length: 600 }, (_, i) => {
+      const kind = random();
+      return event(`e${i}`, {
+        event_type: EVENT_TYPES[Math.floor(random() * EVENT_TYPES.length)],
+        time_utc: new Date(start + Math.floor(random() * 20 * 86400 * 1000)).toISOString(),
+        // Crowd RA 0/360 and the poles, where the grid lookup wraps
+        ra: (360 + (random() - 0.5) * 40) % 360,
+        dec: kind < 0.3 ? 90 - random() * 10 : Math.asin(2 * random() - 1) / toRad,
+        error_radius_deg: kind < 0.5 ? undefined
+          : kind < 0.9 ? random() * 10
+          : kind < 0.97 ? 30 + random() * 60
+          : UNLOCALIZED_ERROR_RADIUS_DEG
+      });
+    });
+    const indexed = CorrelationEngine.correlateEvents(events, PARAMS);
+    const brute = CorrelationEngine.correlateEventsBruteForce(events, PARAMS);
+    assert.ok(brute.length > 0, 'the catalog should produce pairs');
+    assert.deepEqual(
+      indexed.map(p => [p.event1.id, p.event2.id, p.confidenceScore]),
+      brute.map(p => [p.event1.id, p.event2.id, p.confidenceScore])
+    );
+  }],
+
+  ['skymap credible levels never exceed 1', () => {
+    const random = createSeededRandom(42);
+    const order = 4;
+    const uniq = Array.from({ length: Healpix.npix(order) }, (_, ipix) => Healpix.encodeUniq(order, ipix));
+    const density = uniq.map(() => random() * 1e-3 + 1e-9);
+    const skymap = new HealpixSkymap(uniq, density);
+    let maxLevel = 0;
+    for (let ipix = 0; ipix < Healpix.npix(order); ipix++) {
+      const { ra, dec } = Healpix.pix2ang(order, ipix);
+      maxLevel = Math.max(maxLevel, skymap.credibleLevelAt(ra, dec));
+    }
+    assert.ok(maxLevel <= 1, `credible level ${maxLevel} exceeds 1`);
+    assertClose(maxLevel, 1, 1e-12);
+  }],
+
+  ['GPS and UTC convert across leap seconds', () => {
+    // GW170817: GPS 1187008882.4 is 2017-08-17T12:41:04.400Z (TAI - UTC = 37 s)
+    assert.equal(new Date(AstroTime.gpsToUtc(1187008882.4)).toISOString(), '2017-08-17T12:41:04.400Z');
+    assertClose(AstroTime.utcToGps(Date.parse('2017-08-17T12:41:04.400Z')), 1187008882.4, 1e-15);
+    assert.equal(AstroTime.taiMinusUtc(Date.parse('2016-12-31T23:59:59Z')), 36);
+    assert.equal(AstroTime.taiMinusUtc(Date.parse('2017-01-01T00:00:00Z')), 37);
+    // The leap second 2016-12-31T23:59:60 makes this UTC interval 2 s long in GPS
+    const before = AstroTime.utcToGps(Date.parse('2016-12-31T23:59:59Z'));
+    const after = AstroTime.utcToGps(Date.parse('2017-01-01T00:00:00Z'));
+    assert.equal(after - before, 2);
+  }],
+
+  ['false-alarm probabilities convert to two-sided sigma', () => {
+    assertClose(SignificanceCalculator.fapToSigma(0.31731050786291415), 1, 1e-8);
+    assertClose(SignificanceCalculator.fapToSigma(0.0026997960632601866), 3, 1e-8);
+    assertClose(SignificanceCalculator.fapToSigma(5.733031437583878e-7), 5, 1e-8);
+    assert.equal(SignificanceCalculator.fapToSigma(1), 0);
+    assert.equal(SignificanceCalculator.fapToSigma(0), Infinity);
+  }],
+
+  ['time-slide offsets are distinct, one window apart and clear of zero lag', () => {
+    const day = 86400;
+    const drawn = TimeSlideEstimator.drawOffsets(100 * day, 2 * day, day, { offsetCount: 50, seed: 7 });
+    assert.ok(drawn.ok);
+    if (!drawn.ok) return;
+    const offsets = drawn.offsetsSeconds.slice().sort((a, b) => a - b);
+    assert.equal(new Set(offsets).size, 50);
+    offsets.forEach(offset => assert.ok(offset >= 2 * day && offset <= 98 * day, `offset ${offset} out of range`));
+    for (let i = 1; i < offsets.length; i++) assert.ok(offsets[i] - offsets[i - 1] >= day);
+
+    const again = TimeSlideEstimator.drawOffsets(100 * day, 2 * day, day, { offsetCount: 50, seed: 7 });
+    assert.deepEqual(again.ok && again.offsetsSeconds, drawn.offsetsSeconds);
+    // 97 slots fit in the span; asking for more is an error, not a silent repeat
+    assert.equal(TimeSlideEstimator.drawOffsets(100 * day, 2 * day, day, { offsetCount: 98, seed: 7 }).ok, false);
+  }]
+];
+
+let failed = 0;
+for (const [name, run] of checks) {
+  try {
+    run();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    failed++;
+    console.error(`FAIL ${name}\n     ${(error as Error).message}`);
+  }
+}
+
+if (failed > 0) {
+  console.error(`${failed} of ${checks.length} checks failed`);
+  process.exit(1);
+}
+console.log(`All ${checks.length} checks passed`);
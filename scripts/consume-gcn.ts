@@ -0,0 +1,55 @@
+// Feeds recorded GCN Kafka JSON alerts through the alert consumer into the
+// database named by NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY,
+// exactly as live alerts would be ingested.
+//
+// Usage: npx tsx scripts/consume-gcn.ts --replay fixtures/gcn/kafka/alerts.jsonl
+//   [--topics igwn.gwalert,gcn.notices.icecube.gold_bronze_track_alerts]
+//   [--no-correlate]
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '../lib/database.types';
+import { INGEST_CORRELATION_DEFAULTS, parseCorrelationRequest } from '../lib/correlation-request';
+import { FileReplayTransport, GcnConsumer } from '../lib/gcn-consumer';
+
+function arg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const replay = arg('replay');
+  if (!replay) {
+    console.error('Usage: npx tsx scripts/consume-gcn.ts --replay <alerts.jsonl> [--topics a,b] [--no-correlate]');
+    process.exit(1);
+  }
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) {
+    console.error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const parsed = parseCorrelationRequest({}, INGEST_CORRELATION_DEFAULTS);
+  if (!parsed.ok) throw new Error(parsed.error);
+
+  const summary = await GcnConsumer.consume(createClient<Database>(url, serviceKey), new FileReplayTransport(replay), {
+    topics: arg('topics')?.split(',').map(topic => topic.trim()).filter(Boolean),
+    correlationParams: process.argv.includes('--no-correlate') ? null : parsed.request.params,
+    onResult: (message, result) => {
+      console.log(`${message.topic}#${message.offset} ${result.notice.id}: ${result.notice.action}`);
+    }
+  });
+
+  console.log(`\n${summary.received} alerts: ${JSON.stringify(summary.actions)}`);
+  if (summary.failures.length > 0) {
+    console.log(`${summary.failures.length} failed:`);
+    summary.failures.forEach(failure => console.log(`  ${failure.topic}#${failure.offset}: ${failure.error}`));
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
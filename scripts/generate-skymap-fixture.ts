@@ -0,0 +1,116 @@
+// Writes a synthetic multi-order HEALPix skymap in the LIGO/Virgo/KAGRA
+// `*.multiorder.fits` layout, for exercising skymap support without network
+// access. The map is a Gaussian blob on the sphere, refined adaptively so
+// pixels near the peak are small and distant ones stay coarse.
+//
+// Usage: npx tsx scripts/generate-skymap-fixture.ts --ra 197.45 --dec -23.38
+//   --sigma 1.4 --order 7 --distance 40 --distance-std 8 --object GW170817
+//   --out fixtures/skymaps/GW170817.multiorder.fits
+
+import { writeFileSync } from 'fs';
+import { Healpix } from '../lib/healpix';
+
+const FITS_BLOCK = 2880;
+
+function arg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : fallback;
+}
+
+function separationRad(ra1: number, dec1: number, ra2: number, dec2: number): number {
+  const toRad = Math.PI / 180;
+  const cos = Math.sin(dec1 * toRad) * Math.sin(dec2 * toRad) +
+    Math.cos(dec1 * toRad) * Math.cos(dec2 * toRad) * Math.cos((ra1 - ra2) * toRad);
+  return Math.acos(Math.max(-1, Math.min(1, cos)));
+}
+
+function card(keyword: string, value?: string | number | boolean, comment?: string): string {
+  if (value === undefined) return keyword.padEnd(80);
+  const formatted = typeof value === 'string'
+    ? `'${value.padEnd(8)}'`.padEnd(20)
+    : typeof value === 'boolean'
+      ? (value ? 'T' : 'F').padStart(20)
+      : String(value).padStart(20);
+  const text = `${keyword.padEnd(8)}= ${formatted}${comment ? ` / ${comment}` : ''}`;
+  return text.slice(0, 80).padEnd(80);
+}
+
+function headerBlock(cards: string[]): Buffer {
+  const text = [...cards, card('END')].join('');
+  return Buffer.from(text.padEnd(Math.ceil(text.length / FITS_BLOCK) * FITS_BLOCK), 'latin1');
+}
+
+function main() {
+  const ra = Number(arg('ra', '197.45'));
+  const dec = Number(arg('dec', '-23.38'));
+  const sigmaDeg = Number(arg('sigma', '1.4'));
+  const maxOrder = Number(arg('order', '7'));
+  const distance = Number(arg('distance', '40'));
+  const distanceStd = Number(arg('distance-std', '8'));
+  const object = arg('object', 'GW170817');
+  const out = arg('out', `fixtures/skymaps/${object}.multiorder.fits`);
+
+  const sigma = sigmaDeg * Math.PI / 180;
+  const pixels: Array<{ uniq: number; density: number }> = [];
+
+  // Refine every pixel that may lie within 5 sigma of the peak
+  const visit = (order: number, ipix: number) => {
+    const centre = Healpix.pix2ang(order, ipix);
+    const offset = separationRad(ra, dec, centre.ra, centre.dec);
+    const reach = Healpix.maxPixelRadiusDeg(order) * Math.PI / 180 + 5 * sigma;
+
+    if (order < maxOrder && offset < reach) {
+      for (let child = 0; child < 4; child++) visit(order + 1, ipix * 4 + child);
+      return;
+    }
+
+    const density = Math.exp(-offset * offset / (2 * sigma * sigma)) / (2 * Math.PI * sigma * sigma);
+    pixels.push({ uniq: Healpix.encodeUniq(order, ipix), density });
+  };
+  for (let face = 0; face < 12; face++) visit(0, face);
+
+  pixels.sort((a, b) => a.uniq - b.uniq);
+
+  const rowLength = 16;
+  const data = Buffer.alloc(Math.ceil(pixels.length * rowLength / FITS_BLOCK) * FITS_BLOCK);
+  pixels.forEach((pixel, row) => {
+    data.writeBigInt64BE(BigInt(pixel.uniq), row * rowLength);
+    data.writeDoubleBE(pixel.density, row * rowLength + 8);
+  });
+
+  const primary = headerBlock([
+    card('SIMPLE', true, 'conforms to FITS standard'),
+    card('BITPIX', 8),
+    card('NAXIS', 0),
+    card('EXTEND', true)
+  ]);
+
+  const table = headerBlock([
+    card('XTENSION', 'BINTABLE', 'binary table extension'),
+    card('BITPIX', 8),
+    card('NAXIS', 2),
+    card('NAXIS1', rowLength),
+    card('NAXIS2', pixels.length),
+    card('PCOUNT', 0),
+    card('GCOUNT', 1),
+    card('TFIELDS', 2),
+    card('TTYPE1', 'UNIQ'),
+    card('TFORM1', 'K'),
+    card('TTYPE2', 'PROBDENSITY'),
+    card('TFORM2', 'D'),
+    card('TUNIT2', 'sr-1'),
+    card('PIXTYPE', 'HEALPIX'),
+    card('ORDERING', 'NUNIQ'),
+    card('COORDSYS', 'C'),
+    card('MOCORDER', maxOrder),
+    card('INDXSCHM', 'EXPLICIT'),
+    card('OBJECT', object),
+    card('DISTMEAN', distance, 'Posterior mean distance (Mpc)'),
+    card('DISTSTD', distanceStd, 'Posterior standard deviation of distance (Mpc)')
+  ]);
+
+  writeFileSync(out, Buffer.concat([primary, table, data]));
+  console.log(`Wrote ${pixels.length} pixels to ${out}`);
+}
+
+main();
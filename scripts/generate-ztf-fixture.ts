@@ -0,0 +1,224 @@
+// Writes synthetic ZTF alert packets as Avro object container files, one
+// alert per `<candid>.avro` like the ZTF alert archive, for exercising the
+// alert reader without network access. The schema is the subset of the
+// ztf.alert 3.3 schema that lib/ztf-alerts.ts reads; cutouts are 8x8 images.
+//
+// Usage: npx tsx scripts/generate-ztf-fixture.ts [--out fixtures/ztf] [--codec null|deflate]
+
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { deflateRawSync, gzipSync } from 'zlib';
+import { randomBytes } from 'crypto';
+import { AstroTime } from '../lib/astro-time';
+
+function arg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : fallback;
+}
+
+const nullable = (type: unknown) => ['null', type];
+
+const CANDIDATE_FIELDS: Array<[string, unknown]> = [
+  ['jd', 'double'], ['fid', 'int'], ['pid', 'long'], ['diffmaglim', nullable('float')],
+  ['programid', 'int'], ['candid', 'long'], ['isdiffpos', 'string'], ['ra', 'double'], ['dec', 'double'],
+  ['magpsf', 'float'], ['sigmapsf', 'float'], ['rb', nullable('float')], ['drb', nullable('float')],
+  ['ssdistnr', nullable('float')], ['ssmagnr', nullable('float')], ['ssnamenr', nullable('string')],
+  ['sgscore1', nullable('float')], ['distpsnr1', nullable('float')], ['ndethist', 'int'], ['ncovhist', 'int'],
+  ['jdstarthist', nullable('double')], ['jdendhist', nullable('double')],
+  ['distnr', nullable('float')], ['magnr', nullable('float')]
+];
+
+const PRV_CANDIDATE_FIELDS: Array<[string, unknown]> = [
+  ['jd', 'double'], ['fid', 'int'], ['pid', 'long'], ['diffmaglim', nullable('float')], ['programid', 'int'],
+  ['candid', nullable('long')], ['isdiffpos', nullable('string')], ['ra', nullable('double')],
+  ['dec', nullable('double')], ['magpsf', nullable('float')], ['sigmapsf', nullable('float')], ['rb', nullable('float')]
+];
+
+const fields = (list: Array<[string, unknown]>) => list.map(([name, type]) => ({ name, type }));
+
+const SCHEMA = {
+  namespace: 'ztf',
+  type: 'record',
+  name: 'alert',
+  doc: 'avro alert schema for ZTF (www.ztf.caltech.edu)',
+  version: '3.3',
+  fields: [
+    { name: 'schemavsn', type: 'string' },
+    { name: 'publisher', type: 'string' },
+    { name: 'objectId', type: 'string' },
+    { name: 'candid', type: 'long' },
+    { name: 'candidate', type: { type: 'record', name: 'candidate', namespace: 'ztf.alert', fields: fields(CANDIDATE_FIELDS) } },
+    {
+      name: 'prv_candidates',
+      type: nullable({ type: 'array', items: { type: 'record', name: 'prv_candidate', namespace: 'ztf.alert', fields: fields(PRV_CANDIDATE_FIELDS) } }),
+      default: null
+    },
+    {
+      name: 'cutoutScience',
+      type: nullable({ type: 'record', name: 'cutout', namespace: 'ztf.alert', fields: [{ name: 'fileName', type: 'string' }, { name: 'stampData', type: 'bytes' }] }),
+      default: null
+    },
+    { name: 'cutoutTemplate', type: nullable('ztf.alert.cutout'), default: null },
+    { name: 'cutoutDifference', type: nullable('ztf.alert.cutout'), default: null }
+  ]
+};
+
+// Avro binary encoding of the schema types used above
+function encodeLong(value: number | bigint): Buffer {
+  const one = BigInt(1);
+  const big = BigInt(value);
+  let zigzag = BigInt.asUintN(64, (big << one) ^ (big >> BigInt(63)));
+  const bytes: number[] = [];
+  do {
+    let byte = Number(zigzag & BigInt(0x7f));
+    zigzag >>= BigInt(7);
+    if (zigzag > BigInt(0)) byte |= 0x80;
+    bytes.push(byte);
+  } while (zigzag > BigInt(0));
+  return Buffer.from(bytes);
+}
+
+function encodeBytes(value: Buffer): Buffer {
+  return Buffer.concat([encodeLong(value.length), value]);
+}
+
+const NAMED: Record<string, any> = {};
+
+function encode(type: any, value: any): Buffer {
+  if (Array.isArray(type)) {
+    const branch = value === null || value === undefined ? 0 : 1;
+    return Buffer.concat([encodeLong(branch), branch === 0 ? Buffer.alloc(0) : encode(type[1], value)]);
+  }
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'null': return Buffer.alloc(0);
+      case 'int':
+      case 'long': return encodeLong(value);
+      case 'float': { const b = Buffer.alloc(4); b.writeFloatLE(value); return b; }
+      case 'double': { const b = Buffer.alloc(8); b.writeDoubleLE(value); return b; }
+      case 'string': return encodeBytes(Buffer.from(value, 'utf8'));
+      case 'bytes': return encodeBytes(value);
+      default: return encode(NAMED[type], value);
+    }
+  }
+  if (type.type === 'record') {
+    NAMED[`${type.namespace}.${type.name}`] = type;
+    return Buffer.concat(type.fields.map((field: any) => encode(field.type, value[field.name])));
+  }
+  if (type.type === 'array') {
+    if (value.length === 0) return encodeLong(0);
+    return Buffer.concat([encodeLong(value.length), ...value.map((item: any) => encode(type.items, item)), encodeLong(0)]);
+  }
+  throw new Error(`Unsupported type ${JSON.stringify(type)}`);
+}
+
+function encodeMap(entries: Record<string, Buffer>): Buffer {
+  const keys = Object.keys(entries);
+  return Buffer.concat([
+    encodeLong(keys.length),
+    ...keys.map(key => Buffer.concat([encodeBytes(Buffer.from(key, 'utf8')), encodeBytes(entries[key])])),
+    encodeLong(0)
+  ]);
+}
+
+function container(records: any[], codec: string): Buffer {
+  const sync = randomBytes(16);
+  const data = Buffer.concat(records.map(record => encode(SCHEMA, record)));
+  const block = codec === 'deflate' ? deflateRawSync(data) : data;
+  return Buffer.concat([
+    Buffer.from([0x4f, 0x62, 0x6a, 0x01]),
+    encodeMap({ 'avro.schema': Buffer.from(JSON.stringify(SCHEMA)), 'avro.codec': Buffer.from(codec) }),
+    sync,
+    encodeLong(records.length),
+    encodeBytes(block),
+    sync
+  ]);
+}
+
+// An 8x8 float image as a gzipped FITS file, a Gaussian source on noise
+function stamp(peak: number): Buffer {
+  const cards = ['SIMPLE  =                    T', 'BITPIX  =                  -32', 'NAXIS   =                    2',
+    'NAXIS1  =                    8', 'NAXIS2  =                    8', 'END'];
+  const header = Buffer.from(cards.map(card => card.padEnd(80)).join('').padEnd(2880), 'latin1');
+  const data = Buffer.alloc(2880);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const r2 = (x - 3.5) ** 2 + (y - 3.5) ** 2;
+      data.writeFloatBE(peak * Math.exp(-r2 / 3) + ((x * 7 + y * 3) % 5), (y * 8 + x) * 4);
+    }
+  }
+  return gzipSync(Buffer.concat([header, data]));
+}
+
+const jd = (iso: string) => AstroTime.utcToJd(Date.parse(iso));
+
+interface Epoch { time: string; fid: number; mag: number | null; err?: number; limit: number }
+
+// One alert: the last epoch is the candidate, the earlier ones its history
+function alert(objectId: string, candid: bigint, ra: number, dec: number, epochs: Epoch[], extra: Record<string, unknown>) {
+  const epochCandid = (i: number) => candid - BigInt((epochs.length - 1 - i) * 1000000);
+  const last = epochs[epochs.length - 1];
+  const detections = epochs.filter(e => e.mag !== null);
+  const candidate = {
+    jd: jd(last.time), fid: last.fid, pid: Number(candid / BigInt(10000)), diffmaglim: last.limit, programid: 1,
+    candid, isdiffpos: 't', ra, dec, magpsf: last.mag, sigmapsf: last.err, rb: 0.9, drb: 0.99,
+    ssdistnr: -999, ssmagnr: -999, ssnamenr: 'null', sgscore1: 0.02, distpsnr1: 4.7,
+    ndethist: detections.length, ncovhist: epochs.length + 20,
+    jdstarthist: jd(detections[0].time), jdendhist: jd(last.time), distnr: 3.1, magnr: 19.9,
+    ...extra
+  };
+  const prv_candidates = epochs.slice(0, -1).map((e, i) => ({
+    jd: jd(e.time), fid: e.fid, pid: Number(epochCandid(i) / BigInt(10000)), diffmaglim: e.limit, programid: 1,
+    candid: e.mag === null ? null : epochCandid(i), isdiffpos: e.mag === null ? null : 't',
+    ra: e.mag === null ? null : ra, dec: e.mag === null ? null : dec,
+    magpsf: e.mag, sigmapsf: e.mag === null ? null : e.err ?? null, rb: e.mag === null ? null : 0.85
+  }));
+  const cutouts = (['Science', 'Template', 'Difference'] as const).map((kind, i) => ({
+    fileName: `candid${candid}_pid${candidate.pid}_targ_${['sci', 'ref', 'scimref'][i]}.fits.gz`,
+    stampData: stamp(kind === 'Template' ? 40 : 120)
+  }));
+  return {
+    schemavsn: '3.3', publisher: 'ZTF (www.ztf.caltech.edu)', objectId, candid, candidate, prv_candidates,
+    cutoutScience: cutouts[0], cutoutTemplate: cutouts[1], cutoutDifference: cutouts[2]
+  };
+}
+
+function main() {
+  const out = arg('out', 'fixtures/ztf');
+  const codec = arg('codec', 'null');
+  mkdirSync(out, { recursive: true });
+
+  const sn = [
+    { time: '2018-06-14T06:02:11Z', fid: 2, mag: null, limit: 20.4 },
+    { time: '2018-06-17T05:41:04Z', fid: 2, mag: 18.2, err: 0.06, limit: 20.6 },
+    { time: '2018-06-17T06:30:52Z', fid: 1, mag: 18.45, err: 0.07, limit: 20.5 }
+  ];
+  const alerts = [
+    alert('ZTF18abukavn', BigInt('530235400515015001'), 230.15, 41.23, sn, { rb: 0.91, drb: 0.998 }),
+    alert('ZTF18abukavn', BigInt('533231420515015002'), 230.1501, 41.2300, [
+      ...sn,
+      { time: '2018-06-20T05:20:40Z', fid: 2, mag: 17.81, err: 0.05, limit: 20.7 }
+    ], { rb: 0.93, drb: 0.999 }),
+    alert('ZTF23aamnpxs', BigInt('2349170752115015003'), 213.92, 31.04, [
+      { time: '2023-05-29T04:05:12Z', fid: 2, mag: null, limit: 21.1 },
+      { time: '2023-05-30T04:12:33Z', fid: 2, mag: 19.6, err: 0.11, limit: 21.0 },
+      { time: '2023-05-30T05:01:09Z', fid: 1, mag: 19.4, err: 0.12, limit: 20.9 },
+      { time: '2023-05-31T04:10:47Z', fid: 2, mag: 20.5, err: 0.19, limit: 20.9 }
+    ], { rb: 0.78, drb: 0.99, distnr: 2.2, magnr: 17.3, sgscore1: 0.04, distpsnr1: 2.4 }),
+    alert('ZTF21aaqjmps', BigInt('1555389662015015004'), 187.33, 2.61, [
+      { time: '2021-04-17T09:21:44Z', fid: 1, mag: 19.1, err: 0.09, limit: 20.6 }
+    ], { rb: 0.86, drb: 0.97, ssdistnr: 1.2, ssmagnr: 19.3, ssnamenr: '2841', distnr: -999, magnr: -999 }),
+    alert('ZTF19aapreis', BigInt('842271355315015005'), 48.71, 12.27, [
+      { time: '2019-04-26T07:12:13Z', fid: 2, mag: 17.9, err: 0.04, limit: 20.3 },
+      { time: '2019-05-03T07:44:51Z', fid: 2, mag: 18.3, err: 0.05, limit: 20.4 }
+    ], { rb: 0.69, drb: 0.9, isdiffpos: 'f', sgscore1: 0.98, distpsnr1: 0.31, distnr: 0.3, magnr: 15.2 })
+  ];
+
+  for (const record of alerts) {
+    const file = path.join(out, `${record.candid}.avro`);
+    writeFileSync(file, container([record], codec));
+    console.log(`Wrote ${record.objectId} to ${file}`);
+  }
+}
+
+main();
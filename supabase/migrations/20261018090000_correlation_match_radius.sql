@@ -0,0 +1,12 @@
+/*
+  # Store the localization match radius used for each correlation
+
+  1. Changes
+    - `event_correlations`
+      - `match_radius_deg` (numeric, angular distance within which the pair was
+        considered spatially consistent: the sum of the events' error radii, or
+        the fixed angular threshold when neither event has an error radius)
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS match_radius_deg numeric;
@@ -0,0 +1,22 @@
+/*
+  # Keep the sign of the time difference between correlated events
+
+  1. Changes
+    - `event_correlations`
+      - `time_diff_seconds` now stores time(event2) - time(event1), so a
+        negative value means event2 was detected before event1. Previously
+        only the absolute difference was stored.
+      - Drop the non-negative check some deployments created on the column
+      - Widen the column from DECIMAL(12,6), which overflows beyond about
+        11.6 days, to double precision: physical windows allow delays of
+        up to 14 days
+*/
+
+ALTER TABLE event_correlations
+  DROP CONSTRAINT IF EXISTS event_correlations_time_diff_seconds_check;
+
+ALTER TABLE event_correlations
+  ALTER COLUMN time_diff_seconds TYPE double precision;
+
+COMMENT ON COLUMN event_correlations.time_diff_seconds IS
+  'Signed delay in seconds: time(event2) - time(event1)';
@@ -0,0 +1,21 @@
+/*
+  # Store chance-coincidence significance for each correlation
+
+  1. Changes
+    - `event_correlations`
+      - `false_alarm_probability` (double precision, probability that an
+        unrelated event from the busier source falls within the searched time
+        window and sky cone, from per-source background rates)
+      - `significance_sigma` (double precision, two-sided Gaussian-equivalent
+        significance of the false-alarm probability)
+
+  2. Indexes
+    - Add index on `false_alarm_probability` for ranking by significance
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS false_alarm_probability double precision
+    CHECK (false_alarm_probability >= 0 AND false_alarm_probability <= 1),
+  ADD COLUMN IF NOT EXISTS significance_sigma double precision;
+
+CREATE INDEX IF NOT EXISTS idx_correlations_fap ON event_correlations(false_alarm_probability);
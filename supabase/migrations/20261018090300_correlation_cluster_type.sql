@@ -0,0 +1,19 @@
+/*
+  # Store the N-way messenger classification of each correlation's cluster
+
+  1. Changes
+    - `event_correlations`
+      - `cluster_type` (text, messenger combination of the cluster the pair
+        belongs to, e.g. 'gw_grb_optical_neutrino'; null when the pair is not
+        part of a reported cluster)
+      - `correlation_type` now covers every pair of the five event types
+        (e.g. 'gw_neutrino', 'grb_radio') in addition to 'same_type'
+
+  2. Indexes
+    - Add index on `cluster_type` for filtering by messenger combination
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS cluster_type text;
+
+CREATE INDEX IF NOT EXISTS idx_correlations_cluster_type ON event_correlations(cluster_type);
@@ -0,0 +1,33 @@
+/*
+  # Record which scoring algorithm produced each correlation
+
+  1. Changes
+    - `event_correlations`
+      - `algorithm` (text, name of the scorer from the correlation scorer
+        registry, e.g. 'linear', 'gaussian_likelihood', 'bayesian_odds')
+      - `algorithm_version` and `parameters` are created if missing; they hold
+        the scorer version and the full correlation parameters of the run
+    - Replace the one-row-per-pair unique constraint with one per pair and
+      algorithm version, so results from different scorers can be stored and
+      compared side by side
+
+  2. Indexes
+    - Add index on `algorithm` for comparing scorers
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS algorithm text NOT NULL DEFAULT 'linear',
+  ADD COLUMN IF NOT EXISTS algorithm_version text DEFAULT 'v1.0',
+  ADD COLUMN IF NOT EXISTS parameters jsonb DEFAULT '{}';
+
+UPDATE event_correlations SET algorithm_version = 'v1.0' WHERE algorithm_version IS NULL;
+ALTER TABLE event_correlations ALTER COLUMN algorithm_version SET NOT NULL;
+
+ALTER TABLE event_correlations
+  DROP CONSTRAINT IF EXISTS event_correlations_event1_id_event2_id_key;
+
+ALTER TABLE event_correlations
+  ADD CONSTRAINT event_correlations_pair_algorithm_key
+  UNIQUE (event1_id, event2_id, algorithm, algorithm_version);
+
+CREATE INDEX IF NOT EXISTS idx_correlations_algorithm ON event_correlations(algorithm, algorithm_version);
@@ -0,0 +1,12 @@
+/*
+  # Store the per-term score breakdown of each correlation
+
+  1. Changes
+    - `event_correlations`
+      - `score_breakdown` (jsonb, nullable) - base scorer output, the
+        distance-consistency weight and tension, and how much the distance
+        term changed the final score. Null when no optional term was enabled.
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS score_breakdown jsonb;
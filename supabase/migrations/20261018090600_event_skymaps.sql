@@ -0,0 +1,53 @@
+/*
+  # Multi-order HEALPix skymaps for event localizations
+
+  1. New Tables
+    - `event_skymaps`
+      - `id` (uuid, primary key)
+      - `event_id` (uuid, references astro_events, one skymap per event)
+      - `uniq` (bigint[], NUNIQ pixel indices: 4 * 4^order + ipix, NESTED)
+      - `probdensity` (double precision[], probability per steradian per pixel)
+      - `area_90_deg2` (double precision, area of the 90% credible region)
+      - `metadata` (jsonb, e.g. posterior distance mean/std from the FITS header)
+      - `source_file` (text, file the map was loaded from)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `event_correlations`
+      - `skymap_credible_level` (double precision, nullable) - smallest
+        credible region of one event's skymap containing the other event
+
+  3. Security
+    - Enable RLS; authenticated users can read, researchers can write
+*/
+
+CREATE TABLE IF NOT EXISTS event_skymaps (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_id uuid NOT NULL UNIQUE REFERENCES astro_events(id) ON DELETE CASCADE,
+  uniq bigint[] NOT NULL,
+  probdensity double precision[] NOT NULL,
+  area_90_deg2 double precision,
+  metadata jsonb DEFAULT '{}',
+  source_file text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT event_skymaps_columns_match CHECK (cardinality(uniq) = cardinality(probdensity))
+);
+
+ALTER TABLE event_skymaps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view skymaps" ON event_skymaps
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Researchers can manage skymaps" ON event_skymaps
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE role IN ('admin', 'researcher')
+    )
+  );
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS skymap_credible_level double precision
+    CHECK (skymap_credible_level >= 0 AND skymap_credible_level <= 1);
@@ -0,0 +1,13 @@
+/*
+  # Store host galaxy candidates for GW-optical correlations
+
+  1. Changes
+    - `event_correlations`
+      - `host_association` (jsonb, nullable) - ranked candidate host galaxies
+        of the optical transient from the local galaxy catalog, each with its
+        host-association probability and the offset, luminosity and distance
+        weights behind it. Null for pairs that are not GW-optical.
+*/
+
+ALTER TABLE event_correlations
+  ADD COLUMN IF NOT EXISTS host_association jsonb;
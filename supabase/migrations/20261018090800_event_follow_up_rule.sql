@@ -0,0 +1,22 @@
+/*
+  # Record how follow-up priorities were computed
+
+  1. Changes
+    - `astro_events`
+      - `follow_up_rule` (text, nullable) - rule that contributed most to
+        `follow_up_priority`, or 'manual' when the priority was posted with
+        the event (manual priorities are never recomputed)
+      - `follow_up_factors` (jsonb, default []) - every rule that fired, with
+        its points and reason
+      - `follow_up_updated_at` (timestamptz, nullable) - when the priority
+        was last computed
+    - Index on `follow_up_priority` for sorting events by priority
+*/
+
+ALTER TABLE astro_events
+  ADD COLUMN IF NOT EXISTS follow_up_rule text,
+  ADD COLUMN IF NOT EXISTS follow_up_factors jsonb DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS follow_up_updated_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_follow_up_priority
+  ON astro_events(follow_up_priority DESC);
@@ -0,0 +1,58 @@
+/*
+  # Physical objects linking duplicate reports across surveys
+
+  1. New Tables
+    - `astro_objects`
+      - `id` (uuid, primary key)
+      - `canonical_event_id` (uuid, references astro_events, one object per
+        canonical event) - the report that stands for the object
+      - `name` (text, the canonical event's designation)
+      - `event_type` (text)
+      - `aliases` (text[], every designation of every linked report)
+      - `matched_by` (text[], 'designation' and/or 'position')
+      - `member_count` (integer, number of linked reports)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - `astro_events`
+      - `object_id` (uuid, nullable, references astro_objects) - the object
+        this report belongs to; null for reports with no duplicates
+      - `duplicate_of` (uuid, nullable, references astro_events) - the
+        canonical report when this row is a duplicate. Duplicates are left
+        out of correlation runs.
+
+  3. Security
+    - Enable RLS; authenticated users can read, researchers can write
+*/
+
+CREATE TABLE IF NOT EXISTS astro_objects (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  canonical_event_id uuid NOT NULL UNIQUE REFERENCES astro_events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  event_type text NOT NULL,
+  aliases text[] NOT NULL DEFAULT '{}',
+  matched_by text[] NOT NULL DEFAULT '{}',
+  member_count integer NOT NULL DEFAULT 1 CHECK (member_count >= 1),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE astro_objects ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view objects" ON astro_objects
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Researchers can manage objects" ON astro_objects
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE role IN ('admin', 'researcher')
+    )
+  );
+
+ALTER TABLE astro_events
+  ADD COLUMN IF NOT EXISTS object_id uuid REFERENCES astro_objects(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES astro_events(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_object ON astro_events(object_id);
+CREATE INDEX IF NOT EXISTS idx_astro_events_duplicate_of ON astro_events(duplicate_of);
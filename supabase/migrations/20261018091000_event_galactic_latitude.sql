@@ -0,0 +1,21 @@
+/*
+  # Galactic latitude of events
+
+  1. Changes
+    - `astro_events`
+      - `gal_b` (double precision, generated) - Galactic latitude in degrees,
+        computed from `ra` and `dec` with the Galactic north pole at
+        RA 192.85948°, Dec 27.12825° (J2000), so events near the Galactic
+        plane can be filtered out in queries
+    - Index on `gal_b`
+*/
+
+ALTER TABLE astro_events
+  ADD COLUMN IF NOT EXISTS gal_b double precision GENERATED ALWAYS AS (
+    degrees(asin(greatest(-1.0, least(1.0,
+      sin(radians(dec)) * sin(radians(27.12825)) +
+      cos(radians(dec)) * cos(radians(27.12825)) * cos(radians(ra - 192.85948))
+    ))))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_gal_b ON astro_events(gal_b);
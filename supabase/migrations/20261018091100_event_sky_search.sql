@@ -0,0 +1,71 @@
+/*
+  # Sky region search for events
+
+  1. Changes
+    - `astro_events`
+      - `sky_position` (geography Point, generated) - the event position as
+        a PostGIS point, with RA as longitude (RA above 180° mapped to
+        negative longitude) and Dec as latitude; null for positions outside
+        RA 0-360 or Dec ±90, which geography cannot hold
+    - GiST index on `sky_position`
+    - Function `search_events_in_sky_region` returning the events inside a
+      cone and/or an RA/Dec box; every argument is optional
+      - `cone_ra`, `cone_dec`, `cone_radius_deg` - cone center and radius in
+        degrees, searched with ST_DWithin on the sphere
+      - `box_ra_min`, `box_ra_max`, `box_dec_min`, `box_dec_max` - box edges
+        in degrees; a box with `box_ra_min` > `box_ra_max` wraps through RA 0
+
+  2. Notes
+    - PostGIS measures sphere distances in meters on a sphere of radius
+      6371008.7714 m, so angular radii are scaled by that radius
+    - The function runs with the caller's privileges, so row level security
+      on `astro_events` still applies
+*/
+
+ALTER TABLE astro_events
+  ADD COLUMN IF NOT EXISTS sky_position geography(Point, 4326) GENERATED ALWAYS AS (
+    CASE WHEN ra BETWEEN 0 AND 360 AND dec BETWEEN -90 AND 90 THEN
+      ST_SetSRID(ST_MakePoint(
+        CASE WHEN ra > 180 THEN ra - 360 ELSE ra END::double precision,
+        dec::double precision
+      ), 4326)::geography
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_sky_position
+  ON astro_events USING GIST (sky_position);
+
+CREATE OR REPLACE FUNCTION search_events_in_sky_region(
+  cone_ra double precision DEFAULT NULL,
+  cone_dec double precision DEFAULT NULL,
+  cone_radius_deg double precision DEFAULT NULL,
+  box_ra_min double precision DEFAULT NULL,
+  box_ra_max double precision DEFAULT NULL,
+  box_dec_min double precision DEFAULT NULL,
+  box_dec_max double precision DEFAULT NULL
+)
+RETURNS SETOF astro_events
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT e.*
+  FROM astro_events e
+  WHERE (
+      cone_radius_deg IS NULL OR ST_DWithin(
+        e.sky_position,
+        ST_SetSRID(ST_MakePoint(
+          CASE WHEN cone_ra > 180 THEN cone_ra - 360 ELSE cone_ra END,
+          cone_dec
+        ), 4326)::geography,
+        radians(cone_radius_deg) * 6371008.7714,
+        false
+      )
+    )
+    AND (box_dec_min IS NULL OR e.dec >= box_dec_min)
+    AND (box_dec_max IS NULL OR e.dec <= box_dec_max)
+    AND (
+      box_ra_min IS NULL OR box_ra_max IS NULL
+      OR (box_ra_min <= box_ra_max AND e.ra >= box_ra_min AND e.ra <= box_ra_max)
+      OR (box_ra_min > box_ra_max AND (e.ra >= box_ra_min OR e.ra <= box_ra_max))
+    );
+$$;
@@ -0,0 +1,63 @@
+/*
+  # Database-side correlation pair search
+
+  1. Changes
+    - Function `find_correlation_candidates` returning every pair of events
+      that may pass the correlation time and angular cuts, so the whole
+      catalog does not have to be loaded to correlate it
+      - `max_time_window_seconds` - largest |delay| any pair may have
+      - `angular_threshold_deg` - match radius for events without an error
+        radius
+      - `event_ids` (optional) - only pair events from this list
+
+  2. Notes
+    - A pair is a candidate when the events are within the time window and
+      within the larger of the angular threshold and the sum of their error
+      radii, tested with ST_DWithin on the indexed `sky_position`. Events
+      with a skymap or without a valid position are paired on time alone.
+    - Candidates are a superset of the correlations: the exact cuts and the
+      scoring stay in the application, which evaluates each candidate the
+      same way as the in-process engine
+    - Both cuts are padded slightly so rounding never drops a boundary pair
+    - Pairs come out as (event1_id, event2_id) with event1_id < event2_id,
+      ordered, so callers can page through them
+*/
+
+CREATE OR REPLACE FUNCTION find_correlation_candidates(
+  max_time_window_seconds double precision,
+  angular_threshold_deg double precision,
+  event_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (event1_id uuid, event2_id uuid)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH selected AS (
+    SELECT
+      e.id,
+      e.time_utc,
+      e.sky_position,
+      greatest(coalesce(e.error_radius_deg, 0), 0)::double precision AS radius_deg,
+      EXISTS (SELECT 1 FROM event_skymaps s WHERE s.event_id = e.id) AS has_skymap
+    FROM astro_events e
+    WHERE e.duplicate_of IS NULL
+      AND (event_ids IS NULL OR e.id = ANY(event_ids))
+  )
+  SELECT a.id AS event1_id, b.id AS event2_id
+  FROM selected a
+  JOIN selected b
+    ON a.id < b.id
+    AND b.time_utc >= a.time_utc - make_interval(secs => max_time_window_seconds + 0.001)
+    AND b.time_utc <= a.time_utc + make_interval(secs => max_time_window_seconds + 0.001)
+  WHERE a.has_skymap
+    OR b.has_skymap
+    OR a.sky_position IS NULL
+    OR b.sky_position IS NULL
+    OR ST_DWithin(
+      a.sky_position,
+      b.sky_position,
+      radians(greatest(angular_threshold_deg, a.radius_deg + b.radius_deg) + 0.000001) * 6371008.7714,
+      false
+    )
+  ORDER BY a.id, b.id;
+$$;
@@ -0,0 +1,67 @@
+/*
+  # Asynchronous correlation jobs
+
+  1. New Tables
+    - `correlation_jobs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, nullable, references profiles) - who submitted the
+        job, when known
+      - `job_type` (text, 'correlation')
+      - `status` (text) - 'pending', 'running', 'completed', 'failed' or
+        'cancelled'
+      - `parameters` (jsonb) - the request body the job was submitted with
+      - `results` (jsonb, nullable) - the same body POST /api/correlate
+        returns, once the job has completed
+      - `error_message` (text, nullable)
+      - `progress` (real, 0-1) and `progress_message` (text) - how far the
+        run has got and the stage it is in
+      - `created_at`, `started_at`, `completed_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS; authenticated users can read, researchers can write
+
+  3. Notes
+    - Added to the supabase_realtime publication so clients are notified
+      when a job's status changes
+*/
+
+CREATE TABLE IF NOT EXISTS correlation_jobs (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  job_type text NOT NULL DEFAULT 'correlation',
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'cancelled')),
+  parameters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  results jsonb,
+  error_message text,
+  progress real NOT NULL DEFAULT 0 CHECK (progress >= 0 AND progress <= 1),
+  progress_message text,
+  created_at timestamptz DEFAULT now(),
+  started_at timestamptz,
+  completed_at timestamptz,
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_correlation_jobs_created_at
+  ON correlation_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_correlation_jobs_status
+  ON correlation_jobs(status);
+
+ALTER TABLE correlation_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view correlation jobs" ON correlation_jobs
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Researchers can manage correlation jobs" ON correlation_jobs
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE role IN ('admin', 'researcher')
+    )
+  );
+
+CREATE TRIGGER set_updated_at_correlation_jobs
+  BEFORE UPDATE ON correlation_jobs
+  FOR EACH ROW EXECUTE FUNCTION handle_updated_at();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE correlation_jobs;
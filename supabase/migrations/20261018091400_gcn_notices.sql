@@ -0,0 +1,74 @@
+/*
+  # GCN notice ingestion
+
+  1. New Tables
+    - `gcn_notices` - every alert notice received, for auditing and so a
+      redelivered notice is not applied twice
+      - `id` (uuid, primary key)
+      - `notice_id` (text, unique) - the VOEvent IVORN or the stream's own
+        notice identifier
+      - `format` (text) - 'voevent' or 'json'
+      - `role` (text) - 'observation', 'prediction', 'utility' or 'test'
+      - `stream` (text) - the instrument stream, e.g. 'Fermi-GBM'
+      - `action` (text) - what ingesting it did: 'created', 'updated',
+        'retracted', 'unmatched_retraction' or 'test'
+      - `event_id` (uuid, nullable, references astro_events) - the event the
+        notice created, updated or retracted
+      - `issued_at` (timestamptz, nullable) - when the notice was issued
+      - `parsed` (jsonb) - the parsed notice
+      - `payload` (text) - the notice as received
+      - `received_at` (timestamptz)
+
+  2. Changes
+    - `astro_events`
+      - `status` also allows 'retracted', set when the issuer withdraws an
+        alert
+
+  3. Security
+    - Enable RLS; authenticated users can read, researchers can write
+
+  4. Notes
+    - Notices with role 'test' are only recorded here and never become
+      events
+*/
+
+CREATE TABLE IF NOT EXISTS gcn_notices (
+  id uuid DEFAULT uuid_generate_v4() PRIMARY KEY,
+  notice_id text NOT NULL UNIQUE,
+  format text NOT NULL CHECK (format IN ('voevent', 'json')),
+  role text NOT NULL CHECK (role IN ('observation', 'prediction', 'utility', 'test')),
+  stream text NOT NULL,
+  action text NOT NULL
+    CHECK (action IN ('created', 'updated', 'retracted', 'unmatched_retraction', 'test')),
+  event_id uuid REFERENCES astro_events(id) ON DELETE SET NULL,
+  issued_at timestamptz,
+  parsed jsonb NOT NULL DEFAULT '{}'::jsonb,
+  payload text NOT NULL,
+  received_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gcn_notices_event_id ON gcn_notices(event_id);
+CREATE INDEX IF NOT EXISTS idx_gcn_notices_received_at ON gcn_notices(received_at DESC);
+
+ALTER TABLE gcn_notices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view GCN notices" ON gcn_notices
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Researchers can manage GCN notices" ON gcn_notices
+  FOR ALL USING (
+    auth.uid() IN (
+      SELECT id FROM profiles
+      WHERE role IN ('admin', 'researcher')
+    )
+  );
+
+ALTER TABLE astro_events
+  ADD COLUMN IF NOT EXISTS status text DEFAULT 'active';
+
+ALTER TABLE astro_events
+  DROP CONSTRAINT IF EXISTS astro_events_status_check;
+
+ALTER TABLE astro_events
+  ADD CONSTRAINT astro_events_status_check
+    CHECK (status IN ('active', 'archived', 'invalid', 'retracted'));
@@ -0,0 +1,13 @@
+/*
+  # Allow error radii up to the whole sky
+
+  1. Changes
+    - `astro_events`
+      - `error_radius_deg` changes from DECIMAL(8,6), which holds at most
+        99.999999, to double precision. Unlocalized events (GW events
+        without a skymap, LVK preliminary notices and alerts) are stored
+        with a radius of 180 degrees so they correlate on time alone
+*/
+
+ALTER TABLE astro_events
+  ALTER COLUMN error_radius_deg TYPE double precision;
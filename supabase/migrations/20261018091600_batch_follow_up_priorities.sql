@@ -0,0 +1,44 @@
+/*
+  # Store follow-up priorities in one statement
+
+  1. Changes
+    - Function `set_follow_up_priorities(updates jsonb)` writes a batch of
+      recomputed priorities and returns how many events it updated
+      - `updates` - array of objects with `id`, `follow_up_priority`,
+        `follow_up_rule`, `follow_up_factors` and `follow_up_updated_at`
+    - Partial index on `follow_up_updated_at` for finding stale priorities
+
+  2. Notes
+    - Events whose priority was posted manually are never overwritten
+    - The function runs with the caller's privileges, so row level security
+      on `astro_events` still applies
+*/
+
+CREATE OR REPLACE FUNCTION set_follow_up_priorities(updates jsonb)
+RETURNS integer
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH changed AS (
+    UPDATE astro_events e
+    SET follow_up_priority = u.follow_up_priority,
+        follow_up_rule = u.follow_up_rule,
+        follow_up_factors = u.follow_up_factors,
+        follow_up_updated_at = u.follow_up_updated_at
+    FROM jsonb_to_recordset(updates) AS u(
+      id uuid,
+      follow_up_priority integer,
+      follow_up_rule text,
+      follow_up_factors jsonb,
+      follow_up_updated_at timestamptz
+    )
+    WHERE e.id = u.id
+      AND e.follow_up_rule IS DISTINCT FROM 'manual'
+    RETURNING e.id
+  )
+  SELECT count(*)::integer FROM changed;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_astro_events_follow_up_updated_at
+  ON astro_events(follow_up_updated_at)
+  WHERE follow_up_rule IS DISTINCT FROM 'manual';
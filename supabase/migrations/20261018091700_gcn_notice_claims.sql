@@ -0,0 +1,23 @@
+/*
+  # Claim GCN notices before applying them
+
+  1. Changes
+    - `gcn_notices`
+      - `action` also allows 'pending', for a notice that is being applied,
+        and 'superseded', for a notice issued before the one already
+        applied to its event (only its metadata gaps are filled in)
+
+  2. Notes
+    - A notice is claimed by inserting its row with action 'pending' before
+      it is applied; a second delivery of the same notice conflicts on the
+      unique `notice_id` and is treated as a duplicate instead of being
+      applied twice. The row gets its final action once the notice has been
+      applied, and is deleted if applying it fails so it can be retried
+*/
+
+ALTER TABLE gcn_notices
+  DROP CONSTRAINT IF EXISTS gcn_notices_action_check;
+
+ALTER TABLE gcn_notices
+  ADD CONSTRAINT gcn_notices_action_check
+    CHECK (action IN ('pending', 'created', 'updated', 'superseded', 'retracted', 'unmatched_retraction', 'test'));